@@ -5,21 +5,31 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import LandingPage from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
+import Inbox from "@/pages/inbox";
 import Templates from "@/pages/templates";
+import ReviewQueue from "@/pages/review-queue";
 import AILearning from "@/pages/ai-learning";
 import Integrations from "@/pages/integrations";
 import Settings from "@/pages/settings";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/layout/sidebar";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import { useLiveEvents } from "@/hooks/use-live-events";
 
 function DashboardLayout() {
+  useLiveEvents();
+
   return (
     <div className="min-h-screen flex">
       <Sidebar />
       <div className="flex-1 flex flex-col overflow-hidden">
         <Switch>
           <Route path="/dashboard" component={Dashboard} />
+          <Route path="/inbox" component={Inbox} />
           <Route path="/templates" component={Templates} />
+          <Route path="/review-queue" component={ReviewQueue} />
           <Route path="/ai-learning" component={AILearning} />
           <Route path="/integrations" component={Integrations} />
           <Route path="/settings" component={Settings} />
@@ -34,11 +44,14 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={LandingPage} />
-      <Route path="/dashboard" component={() => <DashboardLayout />} />
-      <Route path="/templates" component={() => <DashboardLayout />} />
-      <Route path="/ai-learning" component={() => <DashboardLayout />} />
-      <Route path="/integrations" component={() => <DashboardLayout />} />
-      <Route path="/settings" component={() => <DashboardLayout />} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/dashboard" component={DashboardLayout} />
+      <ProtectedRoute path="/inbox" component={DashboardLayout} />
+      <ProtectedRoute path="/templates" component={DashboardLayout} />
+      <ProtectedRoute path="/review-queue" component={DashboardLayout} />
+      <ProtectedRoute path="/ai-learning" component={DashboardLayout} />
+      <ProtectedRoute path="/integrations" component={DashboardLayout} />
+      <ProtectedRoute path="/settings" component={DashboardLayout} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -47,10 +60,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
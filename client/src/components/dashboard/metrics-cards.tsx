@@ -5,31 +5,59 @@
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Reply, Clock, Star, FileText, TrendingUp } from "lucide-react";
+import { Reply, Clock, Star, FileText, TrendingUp, TrendingDown, Minus } from "lucide-react";
+import type { AnalyticsSummary, SummaryMetric } from "@shared/schema";
 
 /**
  * The props for the MetricsCards component.
  */
 interface MetricsCardsProps {
   /**
-   * The data to display in the metric cards.
+   * The analytics summary to display in the metric cards.
    */
-  data?: {
-    responseRate: number;
-    timeSaved: number;
-    customerSatisfaction: number;
-    activeTemplates: number;
-  };
+  data?: AnalyticsSummary;
   /**
    * Whether the data is loading.
    */
   isLoading: boolean;
 }
 
+/**
+ * Describes how a metric changed since the previous period.
+ * @param {SummaryMetric | undefined} metric - The metric.
+ * @param {(change: number) => string} format - Formats the size of the change, without its sign.
+ * @param {number} days - The length of the period.
+ * @returns {{ text: string; direction: "up" | "down" | "flat" }} The description and the direction of the change.
+ */
+function describeChange(
+  metric: SummaryMetric | undefined,
+  format: (change: number) => string,
+  days: number
+): { text: string; direction: "up" | "down" | "flat" } {
+  if (!metric || metric.change === null) {
+    return { text: `No data for the previous ${days} days`, direction: "flat" };
+  }
+  if (metric.change === 0) {
+    return { text: `No change from the previous ${days} days`, direction: "flat" };
+  }
+  const sign = metric.change > 0 ? "+" : "-";
+  return {
+    text: `${sign}${format(Math.abs(metric.change))} from the previous ${days} days`,
+    direction: metric.change > 0 ? "up" : "down",
+  };
+}
+
+const trendStyles = {
+  up: { icon: TrendingUp, color: "text-chart-3" },
+  down: { icon: TrendingDown, color: "text-destructive" },
+  flat: { icon: Minus, color: "text-muted-foreground" },
+};
+
 /**
  * The MetricsCards component displays a set of cards with key metrics. It shows
  * the response rate, time saved, customer satisfaction, and the number of
- * active templates. It also has a loading state.
+ * active templates, each with its change from the previous period. It also
+ * has a loading state.
  * @param {MetricsCardsProps} props - The props for the component.
  * @returns {JSX.Element} The rendered MetricsCards component.
  */
@@ -48,11 +76,16 @@ export default function MetricsCards({ data, isLoading }: MetricsCardsProps) {
     );
   }
 
-  const metrics = [
+  const days = data?.days ?? 7;
+  const metrics = data?.metrics;
+  const show = (value: number | null | undefined, format: (value: number) => string) =>
+    value === null || value === undefined ? "—" : format(value);
+
+  const cards = [
     {
       title: "Response Rate",
-      value: `${(data?.responseRate || 0).toFixed(1)}%`,
-      change: "+5.2% from last week",
+      value: show(metrics?.responseRate.value, (value) => `${value.toFixed(1)}%`),
+      change: describeChange(metrics?.responseRate, (change) => `${change.toFixed(1)} pts`, days),
       icon: Reply,
       color: "text-chart-3",
       bgColor: "bg-chart-3/10",
@@ -60,8 +93,8 @@ export default function MetricsCards({ data, isLoading }: MetricsCardsProps) {
     },
     {
       title: "Time Saved",
-      value: `${(data?.timeSaved || 0).toFixed(1)} hrs`,
-      change: "+3.1 hrs this week",
+      value: show(metrics?.timeSaved.value, (value) => `${value.toFixed(1)} hrs`),
+      change: describeChange(metrics?.timeSaved, (change) => `${change.toFixed(1)} hrs`, days),
       icon: Clock,
       color: "text-chart-2",
       bgColor: "bg-chart-2/10",
@@ -69,8 +102,8 @@ export default function MetricsCards({ data, isLoading }: MetricsCardsProps) {
     },
     {
       title: "Customer Satisfaction",
-      value: `${(data?.customerSatisfaction || 0).toFixed(1)}/5`,
-      change: "+0.3 from last month",
+      value: show(metrics?.customerSatisfaction.value, (value) => `${value}%`),
+      change: describeChange(metrics?.customerSatisfaction, (change) => `${change} pts`, days),
       icon: Star,
       color: "text-chart-4",
       bgColor: "bg-chart-4/10",
@@ -78,8 +111,8 @@ export default function MetricsCards({ data, isLoading }: MetricsCardsProps) {
     },
     {
       title: "Active Templates",
-      value: `${data?.activeTemplates || 0}`,
-      change: "2 updated today",
+      value: show(metrics?.activeTemplates.value, (value) => `${value}`),
+      change: describeChange(metrics?.activeTemplates, (change) => `${change}`, days),
       icon: FileText,
       color: "text-accent",
       bgColor: "bg-accent/10",
@@ -89,8 +122,10 @@ export default function MetricsCards({ data, isLoading }: MetricsCardsProps) {
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8" data-testid="metrics-cards">
-      {metrics.map((metric) => {
+      {cards.map((metric) => {
         const Icon = metric.icon;
+        const trend = trendStyles[metric.change.direction];
+        const TrendIcon = trend.icon;
         return (
           <Card key={metric.title} className="metric-card" data-testid={metric.testId}>
             <CardContent className="p-6">
@@ -100,9 +135,9 @@ export default function MetricsCards({ data, isLoading }: MetricsCardsProps) {
                   <p className="text-2xl font-bold text-foreground" data-testid={`${metric.testId}-value`}>
                     {metric.value}
                   </p>
-                  <p className={`text-xs mt-1 flex items-center ${metric.color}`}>
-                    <TrendingUp className="h-3 w-3 mr-1" />
-                    {metric.change}
+                  <p className={`text-xs mt-1 flex items-center ${trend.color}`} data-testid={`${metric.testId}-change`}>
+                    <TrendIcon className="h-3 w-3 mr-1" />
+                    {metric.change.text}
                   </p>
                 </div>
                 <div className={`w-12 h-12 ${metric.bgColor} rounded-lg flex items-center justify-center`}>
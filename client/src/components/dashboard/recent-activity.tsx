@@ -1,103 +1,153 @@
 /**
  * @fileoverview This file defines the RecentActivity component, which displays
- * a list of recent activities.
+ * the latest events of the user's activity log.
  */
 
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Check, Brain, Edit, Plug } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, Brain, Edit, Plug, Plus, RefreshCw, Reply, Trash2, ChevronLeft, ChevronRight, type LucideIcon } from "lucide-react";
+import type { ActivityEvent, ActivityEventType, ActivityPage } from "@shared/schema";
+
+/** The number of events shown per page. */
+const PAGE_SIZE = 5;
 
 /**
- * The RecentActivity component displays a list of recent activities. It shows
- * activities such as auto-replies, AI learning events, template updates, and
- * integration activations.
+ * How an event of each type is shown: its icon, colors and status label.
+ */
+const eventStyles: Record<ActivityEventType, { icon: LucideIcon; color: string; background: string; status: string }> = {
+  "auto-reply": { icon: Check, color: "text-chart-3", background: "bg-chart-3/10", status: "Auto-replied" },
+  "manual-reply": { icon: Reply, color: "text-chart-3", background: "bg-chart-3/10", status: "Replied" },
+  "template-created": { icon: Plus, color: "text-chart-4", background: "bg-chart-4/10", status: "Created" },
+  "template-updated": { icon: Edit, color: "text-chart-4", background: "bg-chart-4/10", status: "Updated" },
+  "template-deleted": { icon: Trash2, color: "text-destructive", background: "bg-destructive/10", status: "Deleted" },
+  "integration-connected": { icon: Plug, color: "text-primary", background: "bg-primary/10", status: "Connected" },
+  "integration-synced": { icon: RefreshCw, color: "text-primary", background: "bg-primary/10", status: "Synced" },
+  "ai-improvement": { icon: Brain, color: "text-chart-2", background: "bg-chart-2/10", status: "Improved" },
+};
+
+/**
+ * Gets the page an event links to: the inquiry it is about, or the history
+ * of its template. Deleted templates have nothing left to show.
+ * @param {ActivityEvent} event - The event.
+ * @returns {string | null} The link, or null if the event has none.
+ */
+function linkOf(event: ActivityEvent): string | null {
+  if (event.inquiryId) return `/inbox?inquiry=${event.inquiryId}`;
+  if (event.templateId && event.type !== "template-deleted") return `/templates?template=${event.templateId}`;
+  if (event.integrationId) return "/integrations";
+  return null;
+}
+
+/**
+ * The RecentActivity component displays the user's activity log, newest
+ * first: replies sent, template changes, AI improvements and integration
+ * events. Each event links to the inquiry or template it is about.
  * @returns {JSX.Element} The rendered RecentActivity component.
  */
 export default function RecentActivity() {
-  const activities = [
-    {
-      icon: Check,
-      iconColor: "text-chart-3",
-      iconBg: "bg-chart-3/10",
-      title: "Auto-replied to project inquiry from Sarah Johnson",
-      subtitle: "Used template: \"Project Requirements Response\" • 2 minutes ago",
-      status: "Success",
-      statusColor: "bg-chart-3/10 text-chart-3",
-      testId: "activity-auto-reply",
-    },
-    {
-      icon: Brain,
-      iconColor: "text-chart-2",
-      iconBg: "bg-chart-2/10",
-      title: "AI learned new pattern from pricing inquiry",
-      subtitle: "Improved classification accuracy • 15 minutes ago",
-      status: "Learning",
-      statusColor: "bg-chart-2/10 text-chart-2",
-      testId: "activity-learning",
-    },
-    {
-      icon: Edit,
-      iconColor: "text-chart-4",
-      iconBg: "bg-chart-4/10",
-      title: "Template \"Availability Inquiry\" updated",
-      subtitle: "Manual refinement based on client feedback • 1 hour ago",
-      status: "Updated",
-      statusColor: "bg-chart-4/10 text-chart-4",
-      testId: "activity-template-update",
-    },
-    {
-      icon: Plug,
-      iconColor: "text-primary",
-      iconBg: "bg-primary/10",
-      title: "Gmail integration activated",
-      subtitle: "Now monitoring jane.smith@email.com • 3 hours ago",
-      status: "Connected",
-      statusColor: "bg-primary/10 text-primary",
-      testId: "activity-integration",
-    },
-  ];
+  const [page, setPage] = useState(1);
+
+  // the log grows while the user is elsewhere, so refresh it whenever the dashboard opens
+  const { data, isLoading } = useQuery<ActivityPage>({
+    queryKey: ["/api/activity", { page, pageSize: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
+    refetchOnMount: "always",
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
 
   return (
     <Card data-testid="recent-activity">
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg font-semibold text-foreground">Recent Activity</CardTitle>
-          <Button variant="ghost" size="sm" className="text-primary hover:text-primary/80" data-testid="view-all-activities">
-            View All
-          </Button>
+          {totalPages > 1 && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page <= 1}
+                aria-label="Newer activity"
+                data-testid="activity-newer"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-xs text-muted-foreground" data-testid="activity-page">
+                {page} / {totalPages}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page >= totalPages}
+                aria-label="Older activity"
+                data-testid="activity-older"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          {activities.map((activity) => {
-            const Icon = activity.icon;
-            return (
-              <div 
-                key={activity.testId}
-                className="flex items-start space-x-3 p-3 hover:bg-muted/50 rounded-lg transition-colors"
-                data-testid={activity.testId}
-              >
-                <div className={`w-8 h-8 ${activity.iconBg} rounded-full flex items-center justify-center flex-shrink-0`}>
-                  <Icon className={`${activity.iconColor} h-4 w-4`} />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-foreground" data-testid={`${activity.testId}-title`}>
-                    {activity.title}
-                  </p>
-                  <p className="text-xs text-muted-foreground" data-testid={`${activity.testId}-subtitle`}>
-                    {activity.subtitle}
-                  </p>
-                </div>
-                <span 
-                  className={`px-2 py-1 text-xs rounded-full ${activity.statusColor}`}
-                  data-testid={`${activity.testId}-status`}
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : !data || data.items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6" data-testid="activity-empty">
+            No activity yet. Replies, template changes and integration events will show up here.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {data.items.map((event) => {
+              const style = eventStyles[event.type];
+              const Icon = style.icon;
+              const link = linkOf(event);
+              const content = (
+                <div
+                  className="flex items-start space-x-3 p-3 hover:bg-muted/50 rounded-lg transition-colors"
+                  data-testid={`activity-${event.id}`}
                 >
-                  {activity.status}
-                </span>
-              </div>
-            );
-          })}
-        </div>
+                  <div className={`w-8 h-8 ${style.background} rounded-full flex items-center justify-center flex-shrink-0`}>
+                    <Icon className={`${style.color} h-4 w-4`} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate" data-testid={`activity-${event.id}-title`}>
+                      {event.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate" data-testid={`activity-${event.id}-subtitle`}>
+                      {event.description}
+                      {event.createdAt && ` • ${formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <span
+                    className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${style.background} ${style.color}`}
+                    data-testid={`activity-${event.id}-status`}
+                  >
+                    {style.status}
+                  </span>
+                </div>
+              );
+
+              return link ? (
+                <Link key={event.id} href={link} className="block">
+                  {content}
+                </Link>
+              ) : (
+                <div key={event.id}>{content}</div>
+              );
+            })}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
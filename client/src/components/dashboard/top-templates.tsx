@@ -12,8 +12,9 @@ import { Template } from "@shared/schema";
 
 /**
  * The TopTemplates component displays a list of the top-performing templates.
- * It shows the name, success rate, and usage of each template. It also has a
- * loading state and a button to create a new template.
+ * It shows the name, success rate, usage and average rating of each template,
+ * all computed from the replies sent with it. It also has a loading state and
+ * a button to create a new template.
  * @returns {JSX.Element} The rendered TopTemplates component.
  */
 export default function TopTemplates() {
@@ -21,8 +22,12 @@ export default function TopTemplates() {
     queryKey: ["/api/templates"],
   });
 
+  // only templates with rated replies are ranked; ties go to the most used
   const topTemplates = ((templates as Template[]) || [])
-    .sort((a: Template, b: Template) => (b.successRate || 0) - (a.successRate || 0))
+    .filter((template) => template.successRate !== null)
+    .sort((a: Template, b: Template) =>
+      (b.successRate ?? 0) - (a.successRate ?? 0) || (b.timesUsed ?? 0) - (a.timesUsed ?? 0)
+    )
     .slice(0, 3);
 
   return (
@@ -41,6 +46,12 @@ export default function TopTemplates() {
             <div className="text-center py-4">
               <p className="text-sm text-muted-foreground">Loading templates...</p>
             </div>
+          ) : topTemplates.length === 0 ? (
+            <div className="text-center py-4" data-testid="top-templates-empty">
+              <p className="text-sm text-muted-foreground">
+                Templates are ranked once their replies get feedback.
+              </p>
+            </div>
           ) : (
             topTemplates.map((template: Template) => (
               <div 
@@ -57,9 +68,10 @@ export default function TopTemplates() {
                   </span>
                 </div>
                 <p className="text-xs text-muted-foreground mb-2" data-testid={`template-${template.id}-usage`}>
-                  Used {template.timesUsed} times this week
+                  Used {template.timesUsed} {template.timesUsed === 1 ? "time" : "times"}
+                  {template.averageFeedback !== null && ` • ${template.averageFeedback.toFixed(1)}/5 average rating`}
                 </p>
-                <Progress value={template.successRate} className="h-1" />
+                <Progress value={template.successRate ?? 0} className="h-1" />
               </div>
             ))
           )}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview This file defines the ExportDialog component, a button and
+ * dialog that download the user's analytics, inquiries or responses over a
+ * range of days as a CSV or JSON file.
+ */
+
+import { useState } from "react";
+import { format, subDays } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import type { ExportDataset } from "@shared/schema";
+import { getQueryUrl } from "@/lib/queryClient";
+
+/**
+ * The props for the ExportDialog component.
+ */
+interface ExportDialogProps {
+  /**
+   * The data set selected when the dialog opens.
+   */
+  defaultDataset?: ExportDataset;
+}
+
+const datasetLabels: Record<ExportDataset, string> = {
+  analytics: "Daily analytics",
+  inquiries: "Inquiries",
+  responses: "Sent responses",
+};
+
+/**
+ * The ExportDialog component lets the user pick a data set, a format and a
+ * range of days, and downloads the export.
+ * @param {ExportDialogProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered ExportDialog component.
+ */
+export default function ExportDialog({ defaultDataset = "analytics" }: ExportDialogProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [isOpen, setIsOpen] = useState(false);
+  const [dataset, setDataset] = useState<ExportDataset>(defaultDataset);
+  const [fileFormat, setFileFormat] = useState<"csv" | "json">("csv");
+  const [from, setFrom] = useState(format(subDays(new Date(), 29), "yyyy-MM-dd"));
+  const [to, setTo] = useState(today);
+
+  const isValid = !!from && !!to && from <= to;
+
+  // the server streams the file, so let the browser download it instead of fetching it into memory
+  const handleDownload = () => {
+    window.location.href = getQueryUrl(["/api/export", dataset, { format: fileFormat, from, to }]);
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-export">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Data</DialogTitle>
+          <DialogDescription>
+            Download your data for reports, including the names of the templates used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs">Data</Label>
+              <Select value={dataset} onValueChange={(value) => setDataset(value as ExportDataset)}>
+                <SelectTrigger data-testid="select-export-dataset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(datasetLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Format</Label>
+              <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as "csv" | "json")}>
+                <SelectTrigger data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="export-from" className="text-xs">From</Label>
+              <Input
+                id="export-from"
+                type="date"
+                value={from}
+                max={to || today}
+                onChange={(e) => setFrom(e.target.value)}
+                data-testid="input-export-from"
+              />
+            </div>
+            <div>
+              <Label htmlFor="export-to" className="text-xs">To</Label>
+              <Input
+                id="export-to"
+                type="date"
+                value={to}
+                min={from}
+                max={today}
+                onChange={(e) => setTo(e.target.value)}
+                data-testid="input-export-to"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Days are counted in UTC. Both days are included.</p>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleDownload} disabled={!isValid} data-testid="button-download-export">
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview This file defines the ConversationList component, the
+ * threaded view of the inbox. It lists the user's conversations, the one with
+ * the latest message first, with server-side pagination.
+ */
+
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, MessagesSquare } from "lucide-react";
+import type { ConversationPage } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+/**
+ * The props for the ConversationList component.
+ */
+interface ConversationListProps {
+  /**
+   * A function to call when a conversation is opened.
+   */
+  onSelect: (conversationId: string) => void;
+}
+
+/**
+ * The ConversationList component.
+ * @param {ConversationListProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered ConversationList component.
+ */
+export default function ConversationList({ onSelect }: ConversationListProps) {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<ConversationPage>({
+    queryKey: ["/api/conversations", { page, pageSize: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <>
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-3 animate-pulse">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-10 bg-muted rounded"></div>
+              ))}
+            </div>
+          ) : data && data.items.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>With</TableHead>
+                  <TableHead>Messages</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Message</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.items.map((conversation) => (
+                  <TableRow
+                    key={conversation.id}
+                    className="cursor-pointer"
+                    onClick={() => onSelect(conversation.id)}
+                    data-testid={`conversation-row-${conversation.id}`}
+                  >
+                    <TableCell className="font-medium max-w-xs truncate">{conversation.subject || "No subject"}</TableCell>
+                    <TableCell className="text-muted-foreground">{conversation.sender || "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{conversation.inquiryCount}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{conversation.source}</TableCell>
+                    <TableCell>
+                      <Badge variant={conversation.awaitingReply ? "secondary" : "default"}>
+                        {conversation.awaitingReply ? "Awaiting reply" : "Answered"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {conversation.lastMessageAt && formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12" data-testid="empty-conversations">
+              <MessagesSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No conversations yet</h3>
+              <p className="text-muted-foreground">
+                Inquiries are grouped into conversations as they arrive.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {data && data.total > 0 && (
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-muted-foreground" data-testid="conversations-total">
+            {data.total} {data.total === 1 ? "conversation" : "conversations"}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              data-testid="button-previous-conversations"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              data-testid="button-next-conversations"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview This file defines the ConversationThread component, a side
+ * sheet that shows the messages of a conversation in order: the customer's
+ * inquiries and the replies to them.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { ConversationWithMessages } from "@shared/schema";
+
+/**
+ * The props for the ConversationThread component.
+ */
+interface ConversationThreadProps {
+  /**
+   * The ID of the conversation to show, or null when the sheet is closed.
+   */
+  conversationId: string | null;
+  /**
+   * Called when the sheet is closed.
+   */
+  onClose: () => void;
+  /**
+   * Called when an inquiry of the conversation is opened to answer it.
+   */
+  onOpenInquiry: (inquiryId: string) => void;
+}
+
+/**
+ * The ConversationThread component. Inquiries are shown on the left and the
+ * replies to them on the right; rejected drafts are left out.
+ * @param {ConversationThreadProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered ConversationThread component.
+ */
+export default function ConversationThread({ conversationId, onClose, onOpenInquiry }: ConversationThreadProps) {
+  const { data: conversation, isLoading } = useQuery<ConversationWithMessages>({
+    queryKey: ["/api/conversations", conversationId],
+    enabled: !!conversationId,
+  });
+
+  return (
+    <Sheet open={!!conversationId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto" data-testid="conversation-thread">
+        {isLoading || !conversation ? (
+          <div className="space-y-4 animate-pulse">
+            <div className="h-6 bg-muted rounded w-2/3"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+            <div className="h-32 bg-muted rounded"></div>
+          </div>
+        ) : (
+          <>
+            <SheetHeader>
+              <SheetTitle data-testid="conversation-subject">{conversation.subject || "No subject"}</SheetTitle>
+              <SheetDescription>
+                With {conversation.sender || "unknown sender"} via {conversation.source}
+                {` • ${conversation.inquiryCount} ${conversation.inquiryCount === 1 ? "message" : "messages"}`}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-4">
+              {conversation.inquiries.map((inquiry) => (
+                <div key={inquiry.id} className="space-y-2" data-testid={`thread-inquiry-${inquiry.id}`}>
+                  <div className="mr-8 p-3 bg-muted/30 rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs text-muted-foreground">
+                        {inquiry.sender || "Customer"}
+                        {inquiry.createdAt && ` • ${format(new Date(inquiry.createdAt), "MMM d, HH:mm")}`}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => onOpenInquiry(inquiry.id)}
+                        data-testid={`button-open-inquiry-${inquiry.id}`}
+                      >
+                        Open
+                      </Button>
+                    </div>
+                    {inquiry.subject && inquiry.subject !== conversation.subject && (
+                      <p className="text-xs font-medium text-foreground mb-1">{inquiry.subject}</p>
+                    )}
+                    <p className="text-sm text-foreground whitespace-pre-wrap">{inquiry.content}</p>
+                  </div>
+
+                  {inquiry.responses
+                    .filter((response) => response.status !== "rejected")
+                    .map((response) => (
+                      <div
+                        key={response.id}
+                        className="ml-8 p-3 border border-border rounded-lg"
+                        data-testid={`thread-response-${response.id}`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-xs text-muted-foreground">
+                            {response.isAutomated ? "Automated reply" : "Your reply"}
+                            {response.sentAt && ` • ${format(new Date(response.sentAt), "MMM d, HH:mm")}`}
+                          </span>
+                          {response.status !== "sent" && <Badge variant="secondary">{response.status}</Badge>}
+                        </div>
+                        <p className="text-sm text-foreground whitespace-pre-wrap">{response.content}</p>
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
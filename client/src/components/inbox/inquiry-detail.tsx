@@ -0,0 +1,307 @@
+/**
+ * @fileoverview This file defines the InquiryDetail component, a side sheet
+ * that shows an inquiry with its AI classification and the responses to it,
+ * and lets the user reply or classify the inquiry again.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Mail, MessagesSquare, RefreshCw, Send } from "lucide-react";
+import type { InquiryClassification, InquiryWithResponses, Response } from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The props for the InquiryDetail component.
+ */
+interface InquiryDetailProps {
+  /**
+   * The ID of the inquiry to show, or null when the sheet is closed.
+   */
+  inquiryId: string | null;
+  /**
+   * Called when the sheet is closed.
+   */
+  onClose: () => void;
+  /**
+   * Called to show the whole conversation the inquiry belongs to.
+   */
+  onOpenConversation?: (conversationId: string) => void;
+}
+
+/**
+ * The InquiryDetail component shows a single inquiry in a side sheet.
+ * @param {InquiryDetailProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered InquiryDetail component.
+ */
+export default function InquiryDetail({ inquiryId, onClose, onOpenConversation }: InquiryDetailProps) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+
+  useEffect(() => {
+    setReply("");
+  }, [inquiryId]);
+
+  const { data: inquiry, isLoading } = useQuery<InquiryWithResponses>({
+    queryKey: ["/api/inquiries", inquiryId],
+    enabled: !!inquiryId,
+  });
+
+  const classification = inquiry?.aiClassification as InquiryClassification | null | undefined;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const onDelivered = (response: Response) => {
+    toast({
+      title: response.status === "sent" ? "Success" : "Not delivered yet",
+      description: response.status === "sent"
+        ? "Reply sent"
+        : `The reply will be sent again shortly: ${response.deliveryError}`,
+    });
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/responses", {
+        inquiryId,
+        content: reply,
+      });
+      return response.json() as Promise<Response>;
+    },
+    onSuccess: (response) => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/responses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      onDelivered(response);
+    },
+    onError,
+  });
+
+  const retryDeliveryMutation = useMutation({
+    mutationFn: async (responseId: string) => {
+      const response = await apiRequest("POST", `/api/responses/${responseId}/retry-delivery`);
+      return response.json() as Promise<Response>;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/responses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      onDelivered(response);
+    },
+    onError,
+  });
+
+  const classifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/inquiries/${inquiryId}/classify`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiries"] });
+      toast({
+        title: "Success",
+        description: "Inquiry classified again",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Sheet open={!!inquiryId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto" data-testid="inquiry-detail">
+        {isLoading || !inquiry ? (
+          <div className="space-y-4 animate-pulse">
+            <div className="h-6 bg-muted rounded w-2/3"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+            <div className="h-32 bg-muted rounded"></div>
+          </div>
+        ) : (
+          <>
+            <SheetHeader>
+              <SheetTitle data-testid="inquiry-detail-subject">{inquiry.subject || "No subject"}</SheetTitle>
+              <SheetDescription>
+                From {inquiry.sender || "unknown sender"} via {inquiry.source}
+                {inquiry.createdAt && ` • ${format(new Date(inquiry.createdAt), "MMM d, yyyy HH:mm")}`}
+              </SheetDescription>
+              {inquiry.conversationId && onOpenConversation && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 justify-start"
+                  onClick={() => onOpenConversation(inquiry.conversationId!)}
+                  data-testid="button-open-conversation"
+                >
+                  <MessagesSquare className="h-4 w-4 mr-1" />
+                  View conversation
+                </Button>
+              )}
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <div className="p-3 bg-muted/30 rounded-lg text-sm text-foreground whitespace-pre-wrap" data-testid="inquiry-detail-content">
+                {inquiry.content}
+              </div>
+
+              {/* AI classification */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-medium text-foreground">AI Classification</h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => classifyMutation.mutate()}
+                    disabled={classifyMutation.isPending}
+                    data-testid="button-reclassify"
+                  >
+                    <RefreshCw className={`h-3 w-3 mr-1 ${classifyMutation.isPending ? "animate-spin" : ""}`} />
+                    Re-classify
+                  </Button>
+                </div>
+                {classification ? (
+                  <div className="space-y-3 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{classification.category}</Badge>
+                      <Badge variant={classification.priority === "urgent" || classification.priority === "high" ? "destructive" : "secondary"}>
+                        {classification.priority}
+                      </Badge>
+                      {classification.engine && (
+                        <span className="text-xs text-muted-foreground" data-testid="inquiry-detail-engine">
+                          {classification.engine === "rules" ? "Rule-based" : `AI model${classification.model ? ` (${classification.model})` : ""}`}
+                        </span>
+                      )}
+                    </div>
+                    {classification.intent && (
+                      <p className="text-muted-foreground">Intent: {classification.intent}</p>
+                    )}
+                    <div>
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs text-muted-foreground">Confidence</span>
+                        <span className="text-xs font-medium">{Math.round(classification.confidence * 100)}%</span>
+                      </div>
+                      <Progress value={classification.confidence * 100} className="h-1" />
+                    </div>
+                    {classification.signals && classification.signals.length > 0 && (
+                      <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5" data-testid="inquiry-detail-signals">
+                        {classification.signals.map((signal) => (
+                          <li key={signal}>{signal}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {classification.requiredVariables.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Required variables: {classification.requiredVariables.join(", ")}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">This inquiry has not been classified.</p>
+                )}
+              </div>
+
+              <Separator />
+
+              {/* Responses */}
+              <div>
+                <h4 className="text-sm font-medium text-foreground mb-3">Responses</h4>
+                {inquiry.responses.length > 0 ? (
+                  <div className="space-y-3">
+                    {inquiry.responses.map((response) => (
+                      <div key={response.id} className="p-3 border border-border rounded-lg" data-testid={`inquiry-response-${response.id}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center space-x-2">
+                            <Badge variant={response.status === "sent" ? "default" : "secondary"}>{response.status}</Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {response.isAutomated ? "Automated" : "Manual"}
+                              {response.templateVersion && ` • template v${response.templateVersion}`}
+                              {response.wasModified && " • edited"}
+                            </span>
+                          </div>
+                          {response.sentAt && (
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(response.sentAt), "MMM d, HH:mm")}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-foreground whitespace-pre-wrap">{response.content}</p>
+                        {response.deliveryStatus === "delivered" && (
+                          <p className="mt-2 flex items-center text-xs text-muted-foreground" data-testid={`delivery-status-${response.id}`}>
+                            <Mail className="h-3 w-3 mr-1" />
+                            Delivered by email
+                          </p>
+                        )}
+                        {response.deliveryStatus === "queued" && (
+                          <p className="mt-2 text-xs text-amber-600" data-testid={`delivery-status-${response.id}`}>
+                            {response.deliveryAttempts > 0
+                              ? `Attempt ${response.deliveryAttempts} failed: ${response.deliveryError}.`
+                              : "Waiting to be sent."}
+                            {response.nextDeliveryAt && ` Next attempt at ${format(new Date(response.nextDeliveryAt), "HH:mm")}.`}
+                          </p>
+                        )}
+                        {response.deliveryStatus === "failed" && (
+                          <div className="mt-2 flex items-center justify-between gap-2" data-testid={`delivery-status-${response.id}`}>
+                            <p className="text-xs text-destructive">
+                              Not delivered after {response.deliveryAttempts} attempts: {response.deliveryError}
+                            </p>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => retryDeliveryMutation.mutate(response.id)}
+                              disabled={retryDeliveryMutation.isPending}
+                              data-testid={`button-retry-delivery-${response.id}`}
+                            >
+                              <RefreshCw className={`h-3 w-3 mr-1 ${retryDeliveryMutation.isPending ? "animate-spin" : ""}`} />
+                              Retry
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No responses yet.</p>
+                )}
+              </div>
+
+              {/* Reply */}
+              <div>
+                <h4 className="text-sm font-medium text-foreground mb-2">Reply</h4>
+                <Textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder="Write a reply..."
+                  className="min-h-32"
+                  data-testid="textarea-reply"
+                />
+                <div className="flex justify-end mt-3">
+                  <Button
+                    size="sm"
+                    onClick={() => replyMutation.mutate()}
+                    disabled={!reply.trim() || replyMutation.isPending}
+                    data-testid="button-send-reply"
+                  >
+                    <Send className="h-3 w-3 mr-1" />
+                    {replyMutation.isPending ? "Sending..." : "Send Reply"}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,537 @@
+/**
+ * @fileoverview This file defines the ConfigureIntegration component, a
+ * dialog that edits the credentials and settings of a connected integration.
+ * Email integrations are read over IMAP and can be synced right away; replies
+ * to them are sent over SMTP when an outgoing server is set. Chat
+ * integrations (Slack, Telegram and Discord) get their bot credentials and a
+ * connection test; Slack and Discord send events to a webhook URL shown in
+ * the dialog, Telegram's is registered by the test.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CheckCircle2, Copy, PlugZap, RefreshCw, XCircle } from "lucide-react";
+import { emailPlatforms, type Integration } from "@shared/schema";
+import { apiRequest, queryClient, getApiErrorDetail } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The props for the ConfigureIntegration component.
+ */
+interface ConfigureIntegrationProps {
+  /**
+   * The integration to configure, or null when the dialog is closed.
+   */
+  integration: Integration | null;
+  /**
+   * A function to call when the dialog is closed.
+   */
+  onClose: () => void;
+}
+
+/**
+ * The IMAP servers filled in for platforms that have a well-known one.
+ */
+const defaultImapHosts: Record<string, string> = {
+  Gmail: "imap.gmail.com",
+};
+
+/**
+ * The SMTP servers filled in for platforms that have a well-known one.
+ */
+const defaultSmtpHosts: Record<string, string> = {
+  Gmail: "smtp.gmail.com",
+};
+
+/**
+ * The chat platforms, with the label of the webhook URL to enter in the
+ * platform's settings, if it has one to enter.
+ */
+const chatPlatforms: Record<string, { webhookLabel?: string; webhookHint?: string }> = {
+  Slack: {
+    webhookLabel: "Request URL",
+    webhookHint: "Enter this under Event Subscriptions, and subscribe to the app_mention and message.im bot events.",
+  },
+  Telegram: {},
+  Discord: {
+    webhookLabel: "Interactions Endpoint URL",
+    webhookHint: "Enter this under General Information in the Discord Developer Portal.",
+  },
+};
+
+/**
+ * The outcome of a connection test, shown in the dialog.
+ */
+interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * The values of the form. Numbers are kept as text while they are edited.
+ */
+interface FormState {
+  autoReply: boolean;
+  host: string;
+  port: string;
+  secure: boolean;
+  user: string;
+  password: string;
+  mailbox: string;
+  pollIntervalMinutes: string;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecure: boolean;
+  smtpUser: string;
+  smtpPassword: string;
+  fromAddress: string;
+  signingSecret: string;
+  botToken: string;
+  applicationId: string;
+  publicKey: string;
+}
+
+/**
+ * Builds the form values of an integration.
+ * @param {Integration} integration - The integration.
+ * @returns {FormState} The values.
+ */
+function formStateOf(integration: Integration): FormState {
+  const credentials = (integration.credentials ?? {}) as Record<string, any>;
+  const settings = (integration.settings ?? {}) as Record<string, any>;
+  return {
+    autoReply: settings.autoReply ?? true,
+    host: credentials.host ?? defaultImapHosts[integration.platform] ?? "",
+    port: String(credentials.port ?? 993),
+    secure: credentials.secure ?? true,
+    user: credentials.user ?? "",
+    // the server never sends the password back
+    password: "",
+    mailbox: settings.mailbox ?? "INBOX",
+    pollIntervalMinutes: String(settings.pollIntervalMinutes ?? 5),
+    smtpHost: credentials.smtpHost ?? defaultSmtpHosts[integration.platform] ?? "",
+    smtpPort: String(credentials.smtpPort ?? 465),
+    smtpSecure: credentials.smtpSecure ?? true,
+    smtpUser: credentials.smtpUser ?? "",
+    smtpPassword: "",
+    fromAddress: credentials.fromAddress ?? "",
+    signingSecret: "",
+    botToken: "",
+    applicationId: credentials.applicationId ?? "",
+    publicKey: credentials.publicKey ?? "",
+  };
+}
+
+/**
+ * Builds the credentials of the form to save for an integration. Empty
+ * secrets keep the saved ones.
+ * @param {string} platform - The platform of the integration.
+ * @param {FormState} form - The values of the form.
+ * @returns {Record<string, unknown> | undefined} The credentials, or undefined for platforms without any.
+ */
+function credentialsOf(platform: string, form: FormState): Record<string, unknown> | undefined {
+  if ((emailPlatforms as readonly string[]).includes(platform)) {
+    return {
+      host: form.host,
+      port: Number(form.port),
+      secure: form.secure,
+      user: form.user,
+      password: form.password,
+      smtpHost: form.smtpHost,
+      smtpPort: Number(form.smtpPort),
+      smtpSecure: form.smtpSecure,
+      smtpUser: form.smtpUser,
+      smtpPassword: form.smtpPassword,
+      fromAddress: form.fromAddress,
+    };
+  }
+  switch (platform) {
+    case "Slack":
+      return { signingSecret: form.signingSecret, botToken: form.botToken };
+    case "Telegram":
+      return { botToken: form.botToken };
+    case "Discord":
+      return { applicationId: form.applicationId, publicKey: form.publicKey, botToken: form.botToken };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The ConfigureIntegration component edits an integration. Email
+ * integrations get the IMAP server and account to read, the mailbox and how
+ * often it is polled, and the SMTP server replies are sent through. Chat
+ * integrations get the credentials of their bot and a connection test, which
+ * saves the form first. Every integration can turn automatic replies off.
+ * @param {ConfigureIntegrationProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered ConfigureIntegration component.
+ */
+export default function ConfigureIntegration({ integration, onClose }: ConfigureIntegrationProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FormState | null>(null);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+
+  useEffect(() => {
+    setForm(integration ? formStateOf(integration) : null);
+    setTestResult(null);
+  }, [integration?.id]);
+
+  const isEmail = !!integration && (emailPlatforms as readonly string[]).includes(integration.platform);
+  const chat = integration ? chatPlatforms[integration.platform] : undefined;
+  const hasPassword = !!integration && !!(integration.credentials as Record<string, any> | null)?.user;
+  const webhookUrl = integration
+    ? `${window.location.origin}/api/webhooks/${integration.platform.toLowerCase()}/${integration.id}`
+    : "";
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((current) => current && { ...current, [key]: value });
+
+  /**
+   * Saves the form.
+   * @returns {Promise<Integration>} A promise that resolves to the saved integration.
+   */
+  const save = async (): Promise<Integration> => {
+    const settings = {
+      ...((integration!.settings ?? {}) as Record<string, unknown>),
+      autoReply: form!.autoReply,
+      ...(isEmail && { mailbox: form!.mailbox, pollIntervalMinutes: Number(form!.pollIntervalMinutes) }),
+    };
+    const credentials = credentialsOf(integration!.platform, form!);
+    const response = await apiRequest("PUT", `/api/integrations/${integration!.id}`, { settings, credentials });
+    return response.json();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: save,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations"] });
+      toast({ title: "Saved", description: `${integration!.platform} settings updated` });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save settings", description: getApiErrorDetail(error), variant: "destructive" });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/integrations/${integration!.id}/sync`);
+      return response.json() as Promise<{ imported: number; duplicates: number; skipped: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiries"] });
+      toast({
+        title: "Sync complete",
+        description: `${result.imported} new ${result.imported === 1 ? "inquiry" : "inquiries"} imported`
+          + (result.skipped > 0 ? `, ${result.skipped} automated ${result.skipped === 1 ? "message" : "messages"} skipped` : ""),
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Sync failed", description: getApiErrorDetail(error), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      // the test runs against the saved credentials, so unsaved changes are saved first
+      await save();
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations"] });
+      const response = await apiRequest("POST", `/api/integrations/${integration!.id}/test`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onMutate: () => setTestResult(null),
+    onSuccess: (result) => setTestResult({ ok: true, message: result.message }),
+    onError: (error) => setTestResult({ ok: false, message: getApiErrorDetail(error) }),
+  });
+
+  const canSave = !!form && (!isEmail || (
+    !!form.host.trim() && !!form.user.trim() && (hasPassword || !!form.password)
+    && Number(form.port) > 0 && Number(form.pollIntervalMinutes) >= 1
+    && (!form.smtpHost.trim() || Number(form.smtpPort) > 0)
+  ));
+
+  return (
+    <Dialog open={!!integration} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg" data-testid="configure-integration-dialog">
+        <DialogHeader>
+          <DialogTitle>Configure {integration?.platform}</DialogTitle>
+          <DialogDescription>
+            {isEmail
+              ? "New mail in the mailbox becomes inquiries, and replies go out through the SMTP server. Gmail needs an app password and IMAP turned on."
+              : integration?.platform === "Slack"
+                ? "Direct messages to your Slack app and mentions of it become inquiries, and replies are posted in the thread. Leave a secret empty to keep the saved one."
+                : integration?.platform === "Telegram"
+                  ? "Messages to your bot become inquiries, and replies are sent back in the chat. Create a bot with BotFather, then test the connection to register the webhook."
+                  : integration?.platform === "Discord"
+                    ? "Questions asked with the /ask command become inquiries, and replies are posted in the same channel. Test the connection to register the command."
+                    : "Choose how replies to this platform are sent."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {form && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="integration-auto-reply">Auto-Reply</Label>
+                <p className="text-xs text-muted-foreground">When off, every reply waits in the review queue.</p>
+              </div>
+              <Switch
+                id="integration-auto-reply"
+                checked={form.autoReply}
+                onCheckedChange={(checked) => update("autoReply", checked)}
+                data-testid="switch-integration-auto-reply"
+              />
+            </div>
+
+            {chat?.webhookLabel && (
+              <div>
+                <Label htmlFor="chat-webhook-url" className="text-xs">{chat.webhookLabel}</Label>
+                <div className="flex gap-2">
+                  <Input id="chat-webhook-url" value={webhookUrl} readOnly data-testid="input-webhook-url" />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => navigator.clipboard.writeText(webhookUrl).then(() => toast({ title: "Copied" }))}
+                    data-testid="button-copy-webhook-url"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{chat.webhookHint}</p>
+              </div>
+            )}
+
+            {integration?.platform === "Slack" && (
+              <>
+                <div>
+                  <Label htmlFor="slack-signing-secret" className="text-xs">Signing Secret</Label>
+                  <Input
+                    id="slack-signing-secret"
+                    type="password"
+                    value={form.signingSecret}
+                    placeholder="Unchanged"
+                    onChange={(e) => update("signingSecret", e.target.value)}
+                    data-testid="input-slack-signing-secret"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="slack-bot-token" className="text-xs">Bot Token</Label>
+                  <Input
+                    id="slack-bot-token"
+                    type="password"
+                    value={form.botToken}
+                    placeholder="xoxb-… (unchanged if empty)"
+                    onChange={(e) => update("botToken", e.target.value)}
+                    data-testid="input-slack-bot-token"
+                  />
+                </div>
+              </>
+            )}
+
+            {integration?.platform === "Telegram" && (
+              <div>
+                <Label htmlFor="telegram-bot-token" className="text-xs">Bot Token</Label>
+                <Input
+                  id="telegram-bot-token"
+                  type="password"
+                  value={form.botToken}
+                  placeholder="123456:ABC… (unchanged if empty)"
+                  onChange={(e) => update("botToken", e.target.value)}
+                  data-testid="input-telegram-bot-token"
+                />
+              </div>
+            )}
+
+            {integration?.platform === "Discord" && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="discord-application-id" className="text-xs">Application ID</Label>
+                    <Input
+                      id="discord-application-id"
+                      value={form.applicationId}
+                      onChange={(e) => update("applicationId", e.target.value)}
+                      data-testid="input-discord-application-id"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="discord-bot-token" className="text-xs">Bot Token</Label>
+                    <Input
+                      id="discord-bot-token"
+                      type="password"
+                      value={form.botToken}
+                      placeholder="Unchanged"
+                      onChange={(e) => update("botToken", e.target.value)}
+                      data-testid="input-discord-bot-token"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="discord-public-key" className="text-xs">Public Key</Label>
+                  <Input
+                    id="discord-public-key"
+                    value={form.publicKey}
+                    onChange={(e) => update("publicKey", e.target.value)}
+                    data-testid="input-discord-public-key"
+                  />
+                </div>
+              </>
+            )}
+
+            {testResult && (
+              <div
+                className={`flex items-start gap-2 rounded-md border p-3 text-sm ${
+                  testResult.ok ? "border-green-600/40 text-green-700 dark:text-green-400" : "border-destructive/40 text-destructive"
+                }`}
+                data-testid="connection-test-result"
+              >
+                {testResult.ok ? <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" /> : <XCircle className="h-4 w-4 mt-0.5 shrink-0" />}
+                <span>{testResult.message}</span>
+              </div>
+            )}
+
+            {isEmail && (
+              <>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-2">
+                    <Label htmlFor="imap-host" className="text-xs">IMAP Server</Label>
+                    <Input id="imap-host" value={form.host} onChange={(e) => update("host", e.target.value)} data-testid="input-imap-host" />
+                  </div>
+                  <div>
+                    <Label htmlFor="imap-port" className="text-xs">Port</Label>
+                    <Input id="imap-port" type="number" value={form.port} onChange={(e) => update("port", e.target.value)} data-testid="input-imap-port" />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="imap-secure" className="text-xs">Use TLS</Label>
+                  <Switch id="imap-secure" checked={form.secure} onCheckedChange={(checked) => update("secure", checked)} data-testid="switch-imap-secure" />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="imap-user" className="text-xs">User</Label>
+                    <Input id="imap-user" value={form.user} onChange={(e) => update("user", e.target.value)} data-testid="input-imap-user" />
+                  </div>
+                  <div>
+                    <Label htmlFor="imap-password" className="text-xs">Password</Label>
+                    <Input
+                      id="imap-password"
+                      type="password"
+                      value={form.password}
+                      placeholder={hasPassword ? "Unchanged" : ""}
+                      onChange={(e) => update("password", e.target.value)}
+                      data-testid="input-imap-password"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="imap-mailbox" className="text-xs">Mailbox</Label>
+                    <Input id="imap-mailbox" value={form.mailbox} onChange={(e) => update("mailbox", e.target.value)} data-testid="input-imap-mailbox" />
+                  </div>
+                  <div>
+                    <Label htmlFor="imap-interval" className="text-xs">Check Every (minutes)</Label>
+                    <Input
+                      id="imap-interval"
+                      type="number"
+                      min={1}
+                      value={form.pollIntervalMinutes}
+                      onChange={(e) => update("pollIntervalMinutes", e.target.value)}
+                      data-testid="input-imap-interval"
+                    />
+                  </div>
+                </div>
+
+                <div className="pt-2 border-t border-border">
+                  <p className="text-sm font-medium mt-2">Sending</p>
+                  <p className="text-xs text-muted-foreground">Leave the server empty to only record replies. An empty user or password means the IMAP one.</p>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-2">
+                    <Label htmlFor="smtp-host" className="text-xs">SMTP Server</Label>
+                    <Input id="smtp-host" value={form.smtpHost} onChange={(e) => update("smtpHost", e.target.value)} data-testid="input-smtp-host" />
+                  </div>
+                  <div>
+                    <Label htmlFor="smtp-port" className="text-xs">Port</Label>
+                    <Input id="smtp-port" type="number" value={form.smtpPort} onChange={(e) => update("smtpPort", e.target.value)} data-testid="input-smtp-port" />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="smtp-secure" className="text-xs">Use TLS</Label>
+                  <Switch id="smtp-secure" checked={form.smtpSecure} onCheckedChange={(checked) => update("smtpSecure", checked)} data-testid="switch-smtp-secure" />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="smtp-user" className="text-xs">User</Label>
+                    <Input
+                      id="smtp-user"
+                      value={form.smtpUser}
+                      placeholder={form.user}
+                      onChange={(e) => update("smtpUser", e.target.value)}
+                      data-testid="input-smtp-user"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="smtp-password" className="text-xs">Password</Label>
+                    <Input
+                      id="smtp-password"
+                      type="password"
+                      value={form.smtpPassword}
+                      placeholder="Unchanged"
+                      onChange={(e) => update("smtpPassword", e.target.value)}
+                      data-testid="input-smtp-password"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="smtp-from" className="text-xs">From Address</Label>
+                  <Input
+                    id="smtp-from"
+                    type="email"
+                    value={form.fromAddress}
+                    placeholder={form.smtpUser || form.user}
+                    onChange={(e) => update("fromAddress", e.target.value)}
+                    data-testid="input-smtp-from"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {chat && (
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={!canSave || testMutation.isPending || saveMutation.isPending}
+              data-testid="button-test-integration"
+            >
+              <PlugZap className={`h-4 w-4 mr-2 ${testMutation.isPending ? "animate-pulse" : ""}`} />
+              {testMutation.isPending ? "Testing..." : "Test Connection"}
+            </Button>
+          )}
+          {isEmail && (
+            <Button
+              variant="outline"
+              onClick={() => syncMutation.mutate()}
+              disabled={syncMutation.isPending || !hasPassword}
+              data-testid="button-sync-integration"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+              Sync Now
+            </Button>
+          )}
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-integration">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,19 @@
  * the user profile section.
  */
 
+import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Bot, BarChart3, FileText, Brain, Plug, Settings, User } from "lucide-react";
+import { Bot, BarChart3, Inbox, FileText, ClipboardCheck, Brain, Plug, Settings, User, LogOut, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import SearchPalette from "@/components/search/search-palette";
 
 const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: BarChart3 },
+  { name: "Inbox", href: "/inbox", icon: Inbox },
   { name: "Templates", href: "/templates", icon: FileText },
+  { name: "Review Queue", href: "/review-queue", icon: ClipboardCheck },
   { name: "AI Learning", href: "/ai-learning", icon: Brain },
   { name: "Integrations", href: "/integrations", icon: Plug },
   { name: "Settings", href: "/settings", icon: Settings },
@@ -23,6 +29,8 @@ const navigation = [
  */
 export default function Sidebar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
   return (
     <div className="w-64 bg-sidebar border-r border-sidebar-border flex flex-col" data-testid="sidebar">
@@ -38,6 +46,16 @@ export default function Sidebar() {
       
       {/* Navigation Menu */}
       <nav className="flex-1 p-4">
+        <button
+          onClick={() => setIsSearchOpen(true)}
+          className="w-full flex items-center space-x-3 px-3 py-2 mb-4 rounded-md border border-sidebar-border text-sm text-muted-foreground hover:bg-sidebar-accent transition-colors"
+          data-testid="button-search"
+        >
+          <Search className="h-4 w-4" />
+          <span className="flex-1 text-left">Search...</span>
+          <kbd className="text-xs">⌘K</kbd>
+        </button>
+
         <ul className="space-y-2">
           {navigation.map((item) => {
             const Icon = item.icon;
@@ -71,12 +89,26 @@ export default function Sidebar() {
               <User className="h-4 w-4 text-sidebar-accent-foreground" />
             </div>
             <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-sidebar-foreground truncate">Jane Smith</p>
+              <p className="text-sm font-medium text-sidebar-foreground truncate" data-testid="sidebar-username">
+                {user?.username}
+              </p>
               <p className="text-xs text-muted-foreground">Freelancer</p>
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              className="text-muted-foreground hover:text-sidebar-foreground"
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </nav>
+
+      <SearchPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </div>
   );
 }
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview This file defines the DraftReviewCard component, which shows
+ * an inquiry next to the AI-generated draft reply and lets the user edit,
+ * approve or reject the draft.
+ */
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Check, X, Save, AlertTriangle } from "lucide-react";
+import type { ResponseWithInquiry, InquiryClassification } from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The props for the DraftReviewCard component.
+ */
+interface DraftReviewCardProps {
+  /**
+   * The draft response, with the inquiry it answers.
+   */
+  draft: ResponseWithInquiry;
+}
+
+/**
+ * The DraftReviewCard component shows the original inquiry on the left and
+ * the generated reply on the right, along with the classification confidence
+ * and the reason the reply was held back.
+ * @param {DraftReviewCardProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered DraftReviewCard component.
+ */
+export default function DraftReviewCard({ draft }: DraftReviewCardProps) {
+  const { toast } = useToast();
+  const [content, setContent] = useState(draft.content);
+  const { inquiry } = draft;
+  const classification = inquiry.aiClassification as InquiryClassification | null;
+  const confidence = Math.round((classification?.confidence ?? 0) * 100);
+  const isDirty = content !== draft.content;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/responses/${draft.id}`, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/responses/pending"] });
+      toast({
+        title: "Success",
+        description: "Draft updated",
+      });
+    },
+    onError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      // save pending edits first so the approved reply is what the user sees
+      if (isDirty) {
+        await apiRequest("PUT", `/api/responses/${draft.id}`, { content });
+      }
+      const response = await apiRequest("POST", `/api/responses/${draft.id}/approve`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/responses/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/responses"] });
+      toast({
+        title: "Success",
+        description: "Reply approved",
+      });
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/responses/${draft.id}/reject`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/responses/pending"] });
+      toast({
+        title: "Success",
+        description: "Reply rejected",
+      });
+    },
+    onError,
+  });
+
+  const isPending = saveMutation.isPending || approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <Card data-testid={`draft-${draft.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg font-medium" data-testid={`draft-subject-${draft.id}`}>
+              {inquiry.subject || "No subject"}
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              From {inquiry.sender || "unknown sender"} via {inquiry.source}
+              {inquiry.createdAt && ` • ${formatDistanceToNow(new Date(inquiry.createdAt), { addSuffix: true })}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {inquiry.category && <Badge variant="outline">{inquiry.category}</Badge>}
+            <Badge variant={inquiry.priority === "urgent" || inquiry.priority === "high" ? "destructive" : "secondary"}>
+              {inquiry.priority}
+            </Badge>
+          </div>
+        </div>
+        {draft.reviewReason && (
+          <div className="flex items-center space-x-2 text-xs text-chart-4 mt-2" data-testid={`draft-reason-${draft.id}`}>
+            <AlertTriangle className="h-3 w-3" />
+            <span>{draft.reviewReason}</span>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Original inquiry */}
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-2">Inquiry</h4>
+            <div className="p-3 bg-muted/30 rounded-lg text-sm text-foreground whitespace-pre-wrap min-h-40" data-testid={`draft-inquiry-${draft.id}`}>
+              {inquiry.content}
+            </div>
+            <div className="mt-3">
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-xs text-muted-foreground">Classification confidence</span>
+                <span className="text-xs font-medium" data-testid={`draft-confidence-${draft.id}`}>{confidence}%</span>
+              </div>
+              <Progress value={confidence} className="h-1" />
+              {classification?.intent && (
+                <p className="text-xs text-muted-foreground mt-2">Intent: {classification.intent}</p>
+              )}
+              {classification?.engine && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Classified by {classification.engine === "rules" ? "rules" : "AI model"}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Generated reply */}
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-2">
+              Generated Reply
+              {(draft.wasModified || isDirty) && (
+                <Badge variant="secondary" className="ml-2">Edited</Badge>
+              )}
+            </h4>
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="min-h-40"
+              data-testid={`draft-content-${draft.id}`}
+            />
+            <div className="flex justify-end space-x-2 mt-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={!isDirty || !content.trim() || isPending}
+                data-testid={`save-draft-${draft.id}`}
+              >
+                <Save className="h-3 w-3 mr-1" />
+                Save
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rejectMutation.mutate()}
+                disabled={isPending}
+                className="text-destructive hover:text-destructive"
+                data-testid={`reject-draft-${draft.id}`}
+              >
+                <X className="h-3 w-3 mr-1" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => approveMutation.mutate()}
+                disabled={!content.trim() || isPending}
+                data-testid={`approve-draft-${draft.id}`}
+              >
+                <Check className="h-3 w-3 mr-1" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
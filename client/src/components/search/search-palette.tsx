@@ -0,0 +1,138 @@
+/**
+ * @fileoverview This file defines the SearchPalette component, a command
+ * palette that searches inquiries, responses and templates and shows the
+ * matches with highlighted snippets.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { FileText, MessageSquare, Reply } from "lucide-react";
+import type { SearchResult, SearchResultType } from "@shared/schema";
+import { splitHighlights } from "@shared/search";
+import { useDebounce } from "@/hooks/use-debounce";
+
+/**
+ * The props for the SearchPalette component.
+ */
+interface SearchPaletteProps {
+  /**
+   * Whether the palette is open.
+   */
+  open: boolean;
+  /**
+   * Called when the palette is opened or closed, including by the keyboard
+   * shortcut.
+   */
+  onOpenChange: (open: boolean) => void;
+}
+
+const groups: { type: SearchResultType; heading: string; icon: typeof FileText }[] = [
+  { type: "inquiry", heading: "Inquiries", icon: MessageSquare },
+  { type: "response", heading: "Responses", icon: Reply },
+  { type: "template", heading: "Templates", icon: FileText },
+];
+
+/**
+ * Renders a snippet with the matched words highlighted.
+ * @param {{ snippet: string }} props - The props for the component.
+ * @returns {JSX.Element} The rendered snippet.
+ */
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <span className="text-xs text-muted-foreground line-clamp-2">
+      {splitHighlights(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+/**
+ * The SearchPalette component searches across the user's data as they type.
+ * It also opens on Ctrl+K / Cmd+K.
+ * @param {SearchPaletteProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered SearchPalette component.
+ */
+export default function SearchPalette({ open, onOpenChange }: SearchPaletteProps) {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebounce(query.trim(), 250);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  const { data: results, isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", { q: debouncedQuery }],
+    enabled: open && debouncedQuery.length >= 2,
+    staleTime: 30000,
+  });
+
+  const openResult = (result: SearchResult) => {
+    onOpenChange(false);
+    setQuery("");
+    setLocation(result.type === "template" ? "/templates" : `/inbox?inquiry=${result.inquiryId}`);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search inquiries, replies and templates..."
+        data-testid="search-input"
+      />
+      <CommandList>
+        {debouncedQuery.length >= 2 && !isFetching && (
+          <CommandEmpty>No results found.</CommandEmpty>
+        )}
+        {groups.map(({ type, heading, icon: Icon }) => {
+          const hits = results?.filter((result) => result.type === type) ?? [];
+          if (hits.length === 0) {
+            return null;
+          }
+
+          return (
+            <CommandGroup key={type} heading={heading}>
+              {hits.map((result) => (
+                <CommandItem
+                  key={`${result.type}:${result.id}`}
+                  value={`${result.type}:${result.id}`}
+                  onSelect={() => openResult(result)}
+                  className="items-start"
+                  data-testid={`search-result-${result.id}`}
+                >
+                  <Icon className="mr-2 mt-0.5 shrink-0" />
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-sm font-medium truncate">{result.title}</span>
+                    <Snippet snippet={result.snippet} />
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview This file defines the DiffView component, which shows a
+ * word-level diff with added words highlighted and removed words struck out.
+ */
+
+import type { DiffPart } from "@shared/diff";
+
+/**
+ * The props for the DiffView component.
+ */
+interface DiffViewProps {
+  /**
+   * The parts of the diff.
+   */
+  parts: DiffPart[];
+  /**
+   * Which parts to show: both sides inline, only the old text, or only the
+   * new text, for side-by-side views.
+   */
+  side?: "both" | "before" | "after";
+}
+
+/**
+ * The DiffView component renders a diff.
+ * @param {DiffViewProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered DiffView component.
+ */
+export default function DiffView({ parts, side = "both" }: DiffViewProps) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words" data-testid="diff-view">
+      {parts.map((part, index) => {
+        if (part.type === "equal") {
+          return <span key={index}>{part.text}</span>;
+        }
+        if (part.type === "removed") {
+          return side === "after" ? null : (
+            <del key={index} className="bg-destructive/15 text-destructive rounded-sm">{part.text}</del>
+          );
+        }
+        return side === "before" ? null : (
+          <ins key={index} className="bg-chart-3/20 text-foreground no-underline rounded-sm">{part.text}</ins>
+        );
+      })}
+    </p>
+  );
+}
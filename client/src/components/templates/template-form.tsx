@@ -3,6 +3,7 @@
  * to create and edit templates.
  */
 
+import { useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
@@ -11,13 +12,21 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { insertTemplateSchema, Template } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { insertTemplateSchema, Template, TemplateVariable } from "@shared/schema";
+import { extractVariables, TemplateError } from "@shared/template-engine";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
 const formSchema = insertTemplateSchema.omit({ userId: true }).extend({
-  variables: z.string().optional(),
+  content: z.string().min(1, "Template content is required").superRefine((content, ctx) => {
+    try {
+      extractVariables(content);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof TemplateError ? error.message : "Invalid template" });
+    }
+  }),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -42,8 +51,8 @@ interface TemplateFormProps {
 
 /**
  * The TemplateForm component is used to create and edit templates. It includes
- * a form with fields for the template's name, category, subject, content,
- * and variables.
+ * a form with fields for the template's name, category, subject and content,
+ * and lists the variables found in the content as it is typed.
  * @param {TemplateFormProps} props - The props for the component.
  * @returns {JSX.Element} The rendered TemplateForm component.
  */
@@ -58,18 +67,13 @@ export default function TemplateForm({ template, onSuccess, onCancel }: Template
       category: template?.category || "",
       subject: template?.subject || "",
       content: template?.content || "",
-      variables: template?.variables ? (template.variables as string[]).join(", ") : "",
       isActive: template?.isActive ?? true,
     },
   });
 
   const createMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const payload = {
-        ...data,
-        variables: data.variables ? data.variables.split(",").map(v => v.trim()).filter(Boolean) : [],
-      };
-      const response = await apiRequest("POST", "/api/templates", payload);
+      const response = await apiRequest("POST", "/api/templates", data);
       return response.json();
     },
     onSuccess: () => {
@@ -91,11 +95,7 @@ export default function TemplateForm({ template, onSuccess, onCancel }: Template
 
   const updateMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const payload = {
-        ...data,
-        variables: data.variables ? data.variables.split(",").map(v => v.trim()).filter(Boolean) : [],
-      };
-      const response = await apiRequest("PUT", `/api/templates/${template!.id}`, payload);
+      const response = await apiRequest("PUT", `/api/templates/${template!.id}`, data);
       return response.json();
     },
     onSuccess: () => {
@@ -125,6 +125,15 @@ export default function TemplateForm({ template, onSuccess, onCancel }: Template
 
   const isPending = createMutation.isPending || updateMutation.isPending;
 
+  const content = form.watch("content");
+  const variables = useMemo<TemplateVariable[] | null>(() => {
+    try {
+      return extractVariables(content);
+    } catch {
+      return null;
+    }
+  }, [content]);
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="template-form">
@@ -202,23 +211,25 @@ export default function TemplateForm({ template, onSuccess, onCancel }: Template
           )}
         />
 
-        <FormField
-          control={form.control}
-          name="variables"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Variables (Optional)</FormLabel>
-              <FormControl>
-                <Input 
-                  placeholder="e.g., projectType, timeline, budget (comma-separated)" 
-                  {...field} 
-                  data-testid="input-variables"
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        <div data-testid="template-variables">
+          <p className="text-sm font-medium">Variables</p>
+          <p className="text-xs text-muted-foreground mb-2">
+            {"Use {{name}}, {{date:date}}, {{budget:money}} or {{link:url}}; {{name = \"default\"}} for defaults, {{name | upper}} for filters and {{#if name}}...{{else}}...{{/if}} for optional sections."}
+          </p>
+          {variables && variables.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {variables.map((variable) => (
+                <Badge key={variable.name} variant={variable.required ? "default" : "outline"} data-testid={`variable-${variable.name}`}>
+                  {variable.name}
+                  <span className="ml-1 opacity-70">{variable.type}</span>
+                  {variable.defaultValue !== undefined && <span className="ml-1 opacity-70">= {variable.defaultValue}</span>}
+                </Badge>
+              ))}
+            </div>
+          ) : variables ? (
+            <p className="text-xs text-muted-foreground">No variables in this template.</p>
+          ) : null}
+        </div>
 
         <div className="flex justify-end space-x-2 pt-4">
           <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel">
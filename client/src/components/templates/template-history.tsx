@@ -0,0 +1,201 @@
+/**
+ * @fileoverview This file defines the TemplateHistory component, a side sheet
+ * that lists the versions of a template, compares any two of them and
+ * restores an older one.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { RotateCcw } from "lucide-react";
+import type { Template, TemplateVersionDiff, TemplateVersionSource, TemplateVersionWithAuthor } from "@shared/schema";
+import DiffView from "@/components/templates/diff-view";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The props for the TemplateHistory component.
+ */
+interface TemplateHistoryProps {
+  /**
+   * The template whose history is shown, or null when the sheet is closed.
+   */
+  template: Template | null;
+  /**
+   * Called when the sheet is closed.
+   */
+  onClose: () => void;
+}
+
+const sourceLabels: Record<TemplateVersionSource, string> = {
+  manual: "Edited",
+  "ai-improvement": "AI improvement",
+  restore: "Restored",
+  variant: "Promoted variant",
+};
+
+/**
+ * The TemplateHistory component shows the version history of a template.
+ * @param {TemplateHistoryProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered TemplateHistory component.
+ */
+export default function TemplateHistory({ template, onClose }: TemplateHistoryProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+
+  const { data: versions, isLoading } = useQuery<TemplateVersionWithAuthor[]>({
+    queryKey: ["/api/templates", template?.id, "versions"],
+    enabled: !!template,
+  });
+
+  // start with the latest version compared to the one before it
+  useEffect(() => {
+    setSelected(versions?.[0]?.version ?? null);
+    setCompareTo(versions?.[1]?.version ?? null);
+  }, [versions]);
+
+  const { data: diff } = useQuery<TemplateVersionDiff>({
+    queryKey: ["/api/templates", template?.id, "versions", "diff", { from: compareTo ?? undefined, to: selected ?? undefined }],
+    enabled: !!template && selected !== null && compareTo !== null && selected !== compareTo,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/templates/${template!.id}/versions/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: "Success",
+        description: `Version ${version} restored`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto" data-testid="template-history">
+        <SheetHeader>
+          <SheetTitle>History: {template?.name}</SheetTitle>
+          <SheetDescription>
+            Every change to the name, category, subject or content is kept as a version.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="mt-6 space-y-3 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-14 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : versions && versions.length > 0 ? (
+          <div className="mt-6 space-y-6">
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className={`p-3 border rounded-lg cursor-pointer ${selected === version.version ? "border-primary bg-primary/5" : "border-border"}`}
+                  onClick={() => setSelected(version.version)}
+                  data-testid={`template-version-${version.version}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium">v{version.version}</span>
+                      <Badge variant={version.source === "ai-improvement" ? "default" : "secondary"}>
+                        {sourceLabels[version.source]}
+                      </Badge>
+                      {version.version === template?.version && <Badge variant="outline">Current</Badge>}
+                    </div>
+                    {version.version !== template?.version && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          restoreMutation.mutate(version.version);
+                        }}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`restore-version-${version.version}`}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {version.author ?? "Unknown author"}
+                    {version.createdAt && ` • ${format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}`}
+                    {version.note && ` • ${version.note}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && selected !== null && (
+              <>
+                <Separator />
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-sm font-medium text-foreground">Changes in v{selected}</h4>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs text-muted-foreground">compared to</span>
+                      <Select
+                        value={compareTo?.toString() ?? ""}
+                        onValueChange={(value) => setCompareTo(Number(value))}
+                      >
+                        <SelectTrigger className="w-20 h-8" data-testid="select-compare-version">
+                          <SelectValue placeholder="—" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.filter((version) => version.version !== selected).map((version) => (
+                            <SelectItem key={version.id} value={version.version.toString()}>
+                              v{version.version}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  {selected === compareTo || compareTo === null ? (
+                    <p className="text-sm text-muted-foreground">Pick another version to compare.</p>
+                  ) : diff ? (
+                    diff.changes.length > 0 ? (
+                      <div className="space-y-3" data-testid="template-version-diff">
+                        {diff.changes.map((change) => (
+                          <div key={change.field}>
+                            <p className="text-xs font-medium text-muted-foreground capitalize mb-1">{change.field}</p>
+                            <div className="p-3 bg-muted/30 rounded-lg">
+                              <DiffView parts={change.parts} />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">These versions are identical.</p>
+                    )
+                  ) : null}
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <p className="mt-6 text-sm text-muted-foreground">No versions recorded yet.</p>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview This file defines the TemplateImprove component, a dialog
+ * that asks the AI to improve a template, shows the suggestion next to the
+ * current content with the changes highlighted, lets the user edit it and
+ * applies it as a new version of the template.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Edit, RefreshCw, Sparkles } from "lucide-react";
+import type { Template, TemplateImprovement } from "@shared/schema";
+import { diffWords, hasChanges } from "@shared/diff";
+import { extractVariables, TemplateError } from "@shared/template-engine";
+import DiffView from "@/components/templates/diff-view";
+import { queryClient, apiRequest, getApiErrorDetail, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The props for the TemplateImprove component.
+ */
+interface TemplateImproveProps {
+  /**
+   * The template to improve, or null when the dialog is closed.
+   */
+  template: Template | null;
+  /**
+   * Called when the dialog is closed.
+   */
+  onClose: () => void;
+}
+
+/**
+ * Checks a suggestion against the template it improves.
+ * @param {string} current - The current content of the template.
+ * @param {string} suggestion - The suggested content.
+ * @returns {{ error?: string; dropped: string[] }} The syntax error of the
+ * suggestion, if any, and the variables of the template it no longer uses.
+ */
+function checkSuggestion(current: string, suggestion: string): { error?: string; dropped: string[] } {
+  try {
+    const kept = extractVariables(suggestion).map((variable) => variable.name);
+    const dropped = extractVariables(current)
+      .map((variable) => variable.name)
+      .filter((name) => !kept.includes(name));
+    return { dropped };
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return { error: error.message, dropped: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * The TemplateImprove component reviews an AI-suggested improvement of a template.
+ * @param {TemplateImproveProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered TemplateImprove component.
+ */
+export default function TemplateImprove({ template, onClose }: TemplateImproveProps) {
+  const { toast } = useToast();
+  const [suggestion, setSuggestion] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+
+  const improveMutation = useMutation({
+    mutationFn: async (): Promise<TemplateImprovement> => {
+      const response = await apiRequest("POST", `/api/ai/improve-template/${template!.id}`);
+      return response.json();
+    },
+    onSuccess: (improvement) => {
+      setSuggestion(improvement.improvedContent);
+      setIsEditing(false);
+    },
+  });
+
+  // ask for a suggestion whenever the dialog opens for a template
+  useEffect(() => {
+    improveMutation.reset();
+    setSuggestion("");
+    setIsEditing(false);
+    if (template) {
+      improveMutation.mutate();
+    }
+  }, [template?.id]);
+
+  const improvement = improveMutation.data;
+  const current = template?.content ?? "";
+  const parts = useMemo(() => diffWords(current, suggestion), [current, suggestion]);
+  const check = useMemo(() => checkSuggestion(current, suggestion), [current, suggestion]);
+  const wasEdited = !!improvement && suggestion !== improvement.improvedContent;
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const note = [
+        improvement?.improvements.join("; "),
+        wasEdited ? "edited before applying" : undefined,
+      ].filter(Boolean).join(" — ");
+      const response = await apiRequest("PUT", `/api/templates/${template!.id}`, {
+        content: suggestion,
+        source: "ai-improvement",
+        note: note.slice(0, 500) || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: Template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: "Success",
+        description: `Improvement applied as version ${updated.version}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorDetail(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Sparkles className="h-5 w-5" />
+            <span>Improve with AI: {template?.name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            The suggestion is based on the success rate, ratings and response times of the replies made from this template.
+          </DialogDescription>
+        </DialogHeader>
+
+        {improveMutation.isPending ? (
+          <div className="grid grid-cols-2 gap-4 animate-pulse">
+            <div className="h-48 bg-muted rounded"></div>
+            <div className="h-48 bg-muted rounded"></div>
+          </div>
+        ) : improveMutation.isError ? (
+          <p className="text-sm text-destructive" data-testid="improve-error">
+            {getApiErrorMessage(improveMutation.error)}
+          </p>
+        ) : improvement ? (
+          <div className="space-y-4" data-testid="template-improvement">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-2">Current (v{template?.version})</p>
+                <div className="p-3 bg-muted/30 rounded-lg min-h-48">
+                  <DiffView parts={parts} side="before" />
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs font-medium text-muted-foreground">
+                    Suggestion{wasEdited && " (edited)"}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6"
+                    onClick={() => setIsEditing(!isEditing)}
+                    data-testid="button-edit-suggestion"
+                  >
+                    <Edit className="h-3 w-3 mr-1" />
+                    {isEditing ? "Show changes" : "Edit"}
+                  </Button>
+                </div>
+                {isEditing ? (
+                  <Textarea
+                    className="min-h-48 text-sm"
+                    value={suggestion}
+                    onChange={(e) => setSuggestion(e.target.value)}
+                    data-testid="textarea-suggestion"
+                  />
+                ) : (
+                  <div className="p-3 bg-muted/30 rounded-lg min-h-48">
+                    <DiffView parts={parts} side="after" />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {check.error ? (
+              <p className="text-sm text-destructive" data-testid="suggestion-error">{check.error}</p>
+            ) : check.dropped.length > 0 && (
+              <p className="text-sm text-destructive" data-testid="suggestion-dropped">
+                The suggestion no longer uses: {check.dropped.join(", ")}
+              </p>
+            )}
+
+            <Separator />
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-foreground">Improvements</h4>
+                <Badge variant="outline">{Math.round(improvement.confidence * 100)}% confidence</Badge>
+              </div>
+              {improvement.improvements.length > 0 ? (
+                <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground" data-testid="improvement-list">
+                  {improvement.improvements.map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">The AI did not list any improvements.</p>
+              )}
+            </div>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => improveMutation.mutate()}
+            disabled={improveMutation.isPending}
+            data-testid="button-retry-improvement"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+          <Button variant="outline" onClick={onClose} data-testid="button-discard-improvement">
+            Discard
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!improvement || !hasChanges(parts) || !!check.error || !suggestion.trim() || applyMutation.isPending}
+            data-testid="button-apply-improvement"
+          >
+            {applyMutation.isPending ? "Applying..." : "Apply as New Version"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
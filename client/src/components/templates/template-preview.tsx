@@ -0,0 +1,130 @@
+/**
+ * @fileoverview This file defines the TemplatePreview component, a dialog
+ * that fills in the variables of a template and shows the exact reply the
+ * template engine renders, without the LLM.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Eye } from "lucide-react";
+import type { RenderedTemplate, Template, TemplateVariableType } from "@shared/schema";
+import { apiRequest, getApiErrorDetail } from "@/lib/queryClient";
+
+/**
+ * The props for the TemplatePreview component.
+ */
+interface TemplatePreviewProps {
+  /**
+   * The template to preview, or null when the dialog is closed.
+   */
+  template: Template | null;
+  /**
+   * Called when the dialog is closed.
+   */
+  onClose: () => void;
+}
+
+const inputTypes: Record<TemplateVariableType, string> = {
+  text: "text",
+  date: "date",
+  money: "number",
+  url: "url",
+};
+
+/**
+ * The TemplatePreview component renders a template with values typed in by
+ * the user.
+ * @param {TemplatePreviewProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered TemplatePreview component.
+ */
+export default function TemplatePreview({ template, onClose }: TemplatePreviewProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const renderMutation = useMutation({
+    mutationFn: async (variables: Record<string, string>): Promise<RenderedTemplate> => {
+      const response = await apiRequest("POST", `/api/templates/${template!.id}/render`, { variables });
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    setValues({});
+    renderMutation.reset();
+    if (template) {
+      renderMutation.mutate({});
+    }
+  }, [template?.id]);
+
+  const variables = template?.variables ?? [];
+  const rendered = renderMutation.data;
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Preview: {template?.name}</DialogTitle>
+          <DialogDescription>
+            Fill in the variables to see the exact reply. Empty fields use their default.
+          </DialogDescription>
+        </DialogHeader>
+
+        {variables.length > 0 && (
+          <div className="grid grid-cols-2 gap-3" data-testid="preview-variables">
+            {variables.map((variable) => (
+              <div key={variable.name}>
+                <Label htmlFor={`preview-${variable.name}`} className="text-xs">
+                  {variable.name}
+                  <span className="ml-1 text-muted-foreground">({variable.type}{variable.required ? ", required" : ""})</span>
+                </Label>
+                <Input
+                  id={`preview-${variable.name}`}
+                  type={inputTypes[variable.type]}
+                  step={variable.type === "money" ? "0.01" : undefined}
+                  placeholder={variable.defaultValue}
+                  value={values[variable.name] ?? ""}
+                  onChange={(e) => setValues({ ...values, [variable.name]: e.target.value })}
+                  data-testid={`preview-input-${variable.name}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => renderMutation.mutate(values)}
+          disabled={renderMutation.isPending}
+          data-testid="button-render-preview"
+        >
+          <Eye className="h-4 w-4 mr-2" />
+          {renderMutation.isPending ? "Rendering..." : "Render"}
+        </Button>
+
+        <Separator />
+
+        {renderMutation.isError ? (
+          <p className="text-sm text-destructive" data-testid="preview-error">
+            {getApiErrorDetail(renderMutation.error)}
+          </p>
+        ) : rendered ? (
+          <div className="space-y-2" data-testid="preview-output">
+            {rendered.subject && (
+              <p className="text-sm font-medium">{rendered.subject}</p>
+            )}
+            <p className="text-sm whitespace-pre-wrap bg-muted rounded-md p-3">{rendered.content}</p>
+            {rendered.missing.length > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="preview-missing">
+                Missing values: {rendered.missing.join(", ")}
+              </p>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview This file defines the TemplateVariants component, a dialog
+ * that manages the A/B test variants of a template: their content and share
+ * of traffic, automatic promotion of a winner, and promotion by hand.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Crown, Plus, Trash2 } from "lucide-react";
+import type { Template, TemplateVariant } from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorDetail } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The props for the TemplateVariants component.
+ */
+interface TemplateVariantsProps {
+  /**
+   * The template whose variants are managed, or null when the dialog is closed.
+   */
+  template: Template | null;
+  /**
+   * Called when the dialog is closed.
+   */
+  onClose: () => void;
+}
+
+/**
+ * The TemplateVariants component manages the A/B test of a template.
+ * @param {TemplateVariantsProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered TemplateVariants component.
+ */
+export default function TemplateVariants({ template, onClose }: TemplateVariantsProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+  const [weight, setWeight] = useState("50");
+
+  const { data: variants } = useQuery<TemplateVariant[]>({
+    queryKey: ["/api/templates", template?.id, "variants"],
+    enabled: !!template,
+  });
+
+  const active = variants?.filter((variant) => variant.isActive) ?? [];
+  const controlWeight = Math.max(0, 100 - active.reduce((sum, variant) => sum + variant.weight, 0));
+
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ai/experiments"] });
+    toast({ title: "Success", description });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: getApiErrorDetail(error), variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/templates/${template!.id}/variants`, {
+        name,
+        content,
+        weight: Number(weight),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setName("");
+      setContent("");
+      onSuccess("Variant added")();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; weight?: number; isActive?: boolean }) => {
+      const response = await apiRequest("PUT", `/api/templates/${template!.id}/variants/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: onSuccess("Variant updated"),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/templates/${template!.id}/variants/${id}`);
+    },
+    onSuccess: onSuccess("Variant deleted"),
+    onError,
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/templates/${template!.id}/variants/${id}/promote`);
+      return response.json();
+    },
+    onSuccess: onSuccess("Variant promoted to the template content"),
+    onError,
+  });
+
+  const autoPromoteMutation = useMutation({
+    mutationFn: async (autoPromote: boolean) => {
+      const response = await apiRequest("PUT", `/api/templates/${template!.id}`, { autoPromote });
+      return response.json();
+    },
+    onSuccess: onSuccess("A/B test settings updated"),
+    onError,
+  });
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>A/B test: {template?.name}</DialogTitle>
+          <DialogDescription>
+            Replies from this template are split between its content (the control, {controlWeight}% of traffic) and the active variants below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="auto-promote">Promote the winner automatically</Label>
+            <p className="text-xs text-muted-foreground">
+              Once a variant beats the control significantly, it becomes the template content.
+            </p>
+          </div>
+          <Switch
+            id="auto-promote"
+            checked={template?.autoPromote ?? false}
+            onCheckedChange={(checked) => autoPromoteMutation.mutate(checked)}
+            data-testid="switch-auto-promote"
+          />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          {variants && variants.length > 0 ? variants.map((variant) => (
+            <div key={variant.id} className="p-3 border border-border rounded-lg" data-testid={`variant-${variant.id}`}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium">{variant.name}</span>
+                  {variant.promotedAt ? (
+                    <Badge>Promoted</Badge>
+                  ) : !variant.isActive && (
+                    <Badge variant="secondary">Paused</Badge>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    defaultValue={variant.weight}
+                    className="w-20 h-8"
+                    onBlur={(e) => {
+                      const value = Number(e.target.value);
+                      if (value !== variant.weight) {
+                        updateMutation.mutate({ id: variant.id, weight: value });
+                      }
+                    }}
+                    data-testid={`variant-weight-${variant.id}`}
+                  />
+                  <span className="text-xs text-muted-foreground">%</span>
+                  <Switch
+                    checked={variant.isActive ?? false}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: variant.id, isActive: checked })}
+                    data-testid={`variant-active-${variant.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => promoteMutation.mutate(variant.id)}
+                    disabled={promoteMutation.isPending}
+                    title="Promote to template content"
+                    data-testid={`promote-variant-${variant.id}`}
+                  >
+                    <Crown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(variant.id)}
+                    className="text-destructive hover:text-destructive"
+                    data-testid={`delete-variant-${variant.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{variant.content}</p>
+            </div>
+          )) : (
+            <p className="text-sm text-muted-foreground">No variants yet. Add one to start an A/B test.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3" data-testid="new-variant">
+          <h4 className="text-sm font-medium">New variant</h4>
+          <div className="grid grid-cols-3 gap-3">
+            <Input
+              placeholder="Name, e.g. Shorter intro"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="col-span-2"
+              data-testid="input-variant-name"
+            />
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                data-testid="input-variant-weight"
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+            </div>
+          </div>
+          <Textarea
+            placeholder="Variant content, with the same placeholders as the template..."
+            className="min-h-24"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            data-testid="textarea-variant-content"
+          />
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setContent(template?.content ?? "")}
+              data-testid="button-copy-template-content"
+            >
+              Start from template
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || !content.trim() || createMutation.isPending}
+              data-testid="button-add-variant"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Variant
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
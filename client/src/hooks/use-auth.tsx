@@ -0,0 +1,128 @@
+/**
+ * @fileoverview This file contains the authentication context and the
+ * `useAuth` hook, which expose the logged-in user and the login, signup and
+ * logout mutations to the rest of the application.
+ */
+
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The credentials used to log in or sign up.
+ */
+type Credentials = {
+  username: string;
+  password: string;
+};
+
+/**
+ * The value exposed by the authentication context.
+ */
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  signupMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+/**
+ * Provides the authentication state to its children.
+ * @param {object} props - The props for the component.
+ * @param {ReactNode} props.children - The children to render.
+ * @returns {JSX.Element} The rendered provider.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/user"], loggedInUser);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/auth/signup", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (newUser) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/user"], newUser);
+    },
+    onError: (error) => {
+      toast({
+        title: "Sign up failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/user"], null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        signupMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+/**
+ * A custom React hook that returns the authentication state.
+ * @returns {AuthContextType} The authentication state and mutations.
+ * @throws {Error} If used outside of an `AuthProvider`.
+ */
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview This file contains a custom React hook that delays updates
+ * of a value until it stopped changing for a while.
+ */
+
+import { useEffect, useState } from "react";
+
+/**
+ * A custom React hook that returns the given value once it has not changed
+ * for the given delay.
+ * @param {T} value - The value to debounce.
+ * @param {number} delay - The delay in milliseconds.
+ * @returns {T} The debounced value.
+ */
+export function useDebounce<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview This file contains a custom React hook that listens to the
+ * server's live event stream and keeps the cached data of the open pages
+ * fresh, alerting the user about urgent inquiries, undeliverable replies and
+ * failing integrations.
+ */
+
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import type { LiveEvent, LiveEventType } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+
+/**
+ * The queries each kind of event makes stale. Keys are prefixes, so a key
+ * also covers the filtered and paged queries under it.
+ */
+const staleQueries: Record<LiveEventType, string[]> = {
+  "inquiry-created": ["/api/inquiries", "/api/conversations", "/api/analytics/summary"],
+  "draft-created": ["/api/inquiries", "/api/conversations", "/api/responses", "/api/responses/pending"],
+  "response-sent": [
+    "/api/inquiries",
+    "/api/conversations",
+    "/api/responses",
+    "/api/responses/pending",
+    "/api/analytics/summary",
+    "/api/templates",
+    "/api/activity",
+  ],
+  "delivery-failed": ["/api/inquiries", "/api/conversations", "/api/responses"],
+  "integration-error": ["/api/integrations"],
+};
+
+/**
+ * A custom React hook that subscribes to the live events of the logged-in
+ * user while the component using it is mounted. The browser reconnects by
+ * itself after a dropped connection; everything is refetched then, since
+ * events sent in between are lost.
+ */
+export function useLiveEvents() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+    let wasOpen = false;
+
+    source.onopen = () => {
+      if (wasOpen) {
+        queryClient.invalidateQueries();
+      }
+      wasOpen = true;
+    };
+
+    source.onmessage = (message) => {
+      let event: LiveEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      for (const key of staleQueries[event.type] ?? []) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+
+      if (event.type === "inquiry-created" && event.alert) {
+        toast({
+          title: "Urgent inquiry",
+          description: `${event.subject || "No subject"}${event.sender ? ` from ${event.sender}` : ""}`,
+          variant: "destructive",
+          action: (
+            <ToastAction altText="Open the inquiry" onClick={() => setLocation(`/inbox?inquiry=${event.inquiryId}`)}>
+              Open
+            </ToastAction>
+          ),
+        });
+      }
+
+      if (event.type === "delivery-failed" && !event.willRetry) {
+        toast({
+          title: "Reply could not be delivered",
+          description: event.message,
+          variant: "destructive",
+          action: (
+            <ToastAction altText="Open the inquiry" onClick={() => setLocation(`/inbox?inquiry=${event.inquiryId}`)}>
+              Open
+            </ToastAction>
+          ),
+        });
+      }
+
+      if (event.type === "integration-error") {
+        toast({
+          title: `${event.platform} integration failed`,
+          description: event.message,
+          variant: "destructive",
+        });
+      }
+    };
+
+    return () => source.close();
+  }, [toast, setLocation]);
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview This file defines the ProtectedRoute component, which only
+ * renders its component for logged-in users and redirects everyone else to
+ * the login page.
+ */
+
+import { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * The props for the ProtectedRoute component.
+ */
+interface ProtectedRouteProps {
+  /**
+   * The path to match.
+   */
+  path: string;
+  /**
+   * The component to render when the user is logged in.
+   */
+  component: ComponentType;
+}
+
+/**
+ * A route that requires an authenticated user.
+ * @param {ProtectedRouteProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered route.
+ */
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <Route path={path}>
+        <div className="flex items-center justify-center min-h-screen" data-testid="auth-loading">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </Route>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Route path={path}>
+        <Redirect to="/auth" />
+      </Route>
+    );
+  }
+
+  return (
+    <Route path={path}>
+      <Component />
+    </Route>
+  );
+}
@@ -41,8 +41,78 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * Extracts a human-readable message from an error thrown by `apiRequest`.
+ * The server responds with `{ message }` bodies, which end up in the error
+ * message as `<status>: <body>`.
+ * @param {unknown} error - The error to read.
+ * @returns {string} The message sent by the server, or the raw error message.
+ */
+export function getApiErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Unknown error";
+  }
+
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.message || body;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Extracts the reason of a failed request, such as why a template could not
+ * be rendered. The server sends it as `{ message, error }`; validation errors
+ * are JSON themselves and fall back to the message.
+ * @param {unknown} error - The error to read.
+ * @returns {string} The reason sent by the server, or the message.
+ */
+export function getApiErrorDetail(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Unknown error";
+  }
+
+  try {
+    const parsed = JSON.parse(error.message.replace(/^\d{3}: /, ""));
+    if (typeof parsed.error === "string" && !parsed.error.trim().startsWith("[")) {
+      return parsed.error;
+    }
+  } catch {
+    // not a JSON body
+  }
+  return getApiErrorMessage(error);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 
+/**
+ * Builds the URL for a query key. String parts are joined into the path and a
+ * trailing object becomes the query string, skipping empty values, so keys
+ * like `["/api/inquiries", { page: 2 }]` can be invalidated by their prefix.
+ * @param {readonly unknown[]} queryKey - The query key.
+ * @returns {string} The URL to fetch.
+ */
+export function getQueryUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  const hasParams = typeof last === "object" && last !== null;
+  const path = (hasParams ? queryKey.slice(0, -1) : queryKey).join("/");
+  if (!hasParams) {
+    return path;
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(last as Record<string, unknown>)) {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 /**
  * Creates a query function for react-query.
  * @param {object} options - The options for the query function.
@@ -54,7 +124,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(getQueryUrl(queryKey), {
       credentials: "include",
     });
 
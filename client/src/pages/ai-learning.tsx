@@ -9,7 +9,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Brain, TrendingUp, Zap, Target } from "lucide-react";
+import { Brain, TrendingUp, Zap, Target, FlaskConical } from "lucide-react";
+import type { ExperimentReport } from "@shared/schema";
+import ExportDialog from "@/components/export/export-dialog";
 
 /**
  * The AI Learning page component.
@@ -24,6 +26,12 @@ export default function AILearning() {
     queryKey: ["/api/templates"],
   });
 
+  const { data: experiments } = useQuery<ExperimentReport[]>({
+    queryKey: ["/api/ai/experiments"],
+  });
+
+  const formatPercent = (value: number | null) => value === null ? "—" : `${Math.round(value * 100)}%`;
+
   const learningMetrics = [
     {
       title: "Classification Accuracy",
@@ -59,6 +67,10 @@ export default function AILearning() {
       />
       
       <main className="flex-1 overflow-y-auto p-6" data-testid="ai-learning-main">
+        <div className="flex justify-end mb-4">
+          <ExportDialog defaultDataset="responses" />
+        </div>
+
         {/* Learning Metrics */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           {learningMetrics.map((metric) => {
@@ -184,6 +196,79 @@ export default function AILearning() {
           </Card>
         </div>
 
+        {/* A/B Tests */}
+        <Card className="mb-8" data-testid="experiments">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FlaskConical className="h-5 w-5" />
+              <span>A/B Tests</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {experiments && experiments.length > 0 ? (
+              <div className="space-y-6">
+                {experiments.map((experiment) => (
+                  <div key={experiment.templateId} data-testid={`experiment-${experiment.templateId}`}>
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-sm font-medium text-foreground">{experiment.templateName}</h4>
+                      <Badge variant="outline">
+                        {experiment.autoPromote ? "Auto-promote on" : "Manual promotion"}
+                      </Badge>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-muted-foreground">
+                          <th className="py-1 font-normal">Arm</th>
+                          <th className="py-1 font-normal">Traffic</th>
+                          <th className="py-1 font-normal">Sent</th>
+                          <th className="py-1 font-normal">Outcomes</th>
+                          <th className="py-1 font-normal">Success</th>
+                          <th className="py-1 font-normal">Rating</th>
+                          <th className="py-1 font-normal">Lift</th>
+                          <th className="py-1 font-normal">p-value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {experiment.arms.map((arm) => (
+                          <tr key={arm.variantId ?? "control"} className="border-t border-border">
+                            <td className="py-2">
+                              <span className="font-medium">{arm.name}</span>
+                              {arm.variantId && arm.variantId === experiment.winnerId && (
+                                <Badge className="ml-2">Winner</Badge>
+                              )}
+                              {arm.significant && arm.variantId !== experiment.winnerId && (
+                                <Badge variant="secondary" className="ml-2">Significant</Badge>
+                              )}
+                            </td>
+                            <td className="py-2">{arm.weight}%</td>
+                            <td className="py-2">{arm.sent}</td>
+                            <td className="py-2">{arm.outcomes}</td>
+                            <td className="py-2">{formatPercent(arm.successRate)}</td>
+                            <td className="py-2">{arm.averageFeedback === null ? "—" : arm.averageFeedback.toFixed(1)}</td>
+                            <td className={`py-2 ${arm.lift !== null && arm.lift > 0 ? "text-chart-3" : arm.lift !== null && arm.lift < 0 ? "text-destructive" : ""}`}>
+                              {arm.lift === null ? "—" : `${arm.lift > 0 ? "+" : ""}${Math.round(arm.lift * 100)}%`}
+                            </td>
+                            <td className="py-2">{arm.pValue === null ? "—" : arm.pValue.toFixed(3)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {!experiment.winnerId && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        A winner needs a significant lift and at least {experiment.minOutcomes} outcomes per arm.
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No A/B tests running. Add variants to a template on the Templates page to start one.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Training Data */}
         <Card data-testid="training-data">
           <CardHeader>
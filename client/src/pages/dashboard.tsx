@@ -3,6 +3,7 @@
  * summary of the user's automation performance and insights.
  */
 
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
 import MetricsCards from "@/components/dashboard/metrics-cards";
@@ -11,6 +12,9 @@ import LearningProgress from "@/components/dashboard/learning-progress";
 import RecentActivity from "@/components/dashboard/recent-activity";
 import TopTemplates from "@/components/dashboard/top-templates";
 import IntegrationStatus from "@/components/dashboard/integration-status";
+import ExportDialog from "@/components/export/export-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AnalyticsSummary } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 /**
@@ -20,8 +24,10 @@ import { useToast } from "@/hooks/use-toast";
 export default function Dashboard() {
   const { toast } = useToast();
 
-  const { data: summary, isLoading: summaryLoading } = useQuery({
-    queryKey: ["/api/analytics/summary"],
+  const [days, setDays] = useState("7");
+
+  const { data: summary, isLoading: summaryLoading } = useQuery<AnalyticsSummary>({
+    queryKey: ["/api/analytics/summary", { days }],
   });
 
   const handleCreateTemplate = () => {
@@ -44,7 +50,20 @@ export default function Dashboard() {
       />
       
       <main className="flex-1 overflow-y-auto p-6" data-testid="dashboard-main">
-        <MetricsCards data={summary as any} isLoading={summaryLoading} />
+        <div className="flex justify-end space-x-2 mb-4">
+          <ExportDialog />
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-40" data-testid="summary-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <MetricsCards data={summary} isLoading={summaryLoading} />
         
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           <ResponseChart />
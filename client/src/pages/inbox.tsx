@@ -0,0 +1,371 @@
+/**
+ * @fileoverview This file defines the Inbox page, which lists incoming
+ * inquiries with server-side filtering, sorting and pagination, and opens an
+ * inquiry in a detail sheet. The conversations view groups the inquiries by
+ * thread instead.
+ */
+
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { format } from "date-fns";
+import Header from "@/components/layout/header";
+import InquiryDetail from "@/components/inbox/inquiry-detail";
+import ConversationList from "@/components/inbox/conversation-list";
+import ConversationThread from "@/components/inbox/conversation-thread";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Inbox as InboxIcon } from "lucide-react";
+import { inquiryPriorities, type InquiryPage } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+const categories = ["project", "pricing", "availability", "support", "general"];
+const sources = ["email", "slack", "telegram", "discord", "web"];
+
+/**
+ * The views of the inbox: single inquiries, or inquiries grouped by thread.
+ */
+type InboxView = "messages" | "conversations";
+
+/**
+ * The filters of the inbox, as kept in the page state. "all" means the filter
+ * is not applied.
+ */
+interface InboxFilters {
+  category: string;
+  priority: string;
+  source: string;
+  answered: string;
+  from: string;
+  to: string;
+}
+
+const defaultFilters: InboxFilters = {
+  category: ALL,
+  priority: ALL,
+  source: ALL,
+  answered: ALL,
+  from: "",
+  to: "",
+};
+
+/**
+ * Gets the value of a select filter for the query string.
+ * @param {string} value - The selected value.
+ * @returns {string | undefined} The value, or undefined if the filter is not applied.
+ */
+function selected(value: string): string | undefined {
+  return value === ALL ? undefined : value;
+}
+
+/**
+ * The Inbox page component.
+ * @returns {JSX.Element} The rendered Inbox page.
+ */
+export default function Inbox() {
+  const [filters, setFilters] = useState<InboxFilters>(defaultFilters);
+  const [page, setPage] = useState(1);
+  const [sortBy, setSortBy] = useState<"createdAt" | "priority">("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<InboxView>("messages");
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+
+  // search results link to /inbox?inquiry=<id>
+  useEffect(() => {
+    const inquiryId = new URLSearchParams(search).get("inquiry");
+    if (inquiryId) {
+      setSelectedId(inquiryId);
+    }
+  }, [search]);
+
+  const { data, isLoading } = useQuery<InquiryPage>({
+    queryKey: ["/api/inquiries", {
+      category: selected(filters.category),
+      priority: selected(filters.priority),
+      source: selected(filters.source),
+      answered: selected(filters.answered),
+      // date inputs are local days; the range includes the whole "to" day
+      from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+      to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+      page,
+      pageSize: PAGE_SIZE,
+      sortBy,
+      sortOrder,
+    }],
+    placeholderData: keepPreviousData,
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const updateFilter = (key: keyof InboxFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const toggleSort = (field: "createdAt" | "priority") => {
+    if (sortBy === field) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(field);
+      setSortOrder("desc");
+    }
+    setPage(1);
+  };
+
+  const SortIcon = sortOrder === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <>
+      <Header
+        title="Inbox"
+        description="Browse and answer incoming inquiries"
+      />
+
+      <main className="flex-1 overflow-y-auto p-6" data-testid="inbox-main">
+        <Tabs value={view} onValueChange={(value) => setView(value as InboxView)} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="messages" data-testid="tab-messages">Messages</TabsTrigger>
+            <TabsTrigger value="conversations" data-testid="tab-conversations">Conversations</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {view === "conversations" ? (
+          <ConversationList onSelect={setSelectedConversationId} />
+        ) : (
+          <>
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-3 items-end">
+                <div>
+                  <label className="text-xs text-muted-foreground">Category</label>
+                  <Select value={filters.category} onValueChange={(value) => updateFilter("category", value)}>
+                    <SelectTrigger data-testid="filter-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All categories</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Priority</label>
+                  <Select value={filters.priority} onValueChange={(value) => updateFilter("priority", value)}>
+                    <SelectTrigger data-testid="filter-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All priorities</SelectItem>
+                      {inquiryPriorities.map((priority) => (
+                        <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Source</label>
+                  <Select value={filters.source} onValueChange={(value) => updateFilter("source", value)}>
+                    <SelectTrigger data-testid="filter-source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All sources</SelectItem>
+                      {sources.map((source) => (
+                        <SelectItem key={source} value={source}>{source}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Status</label>
+                  <Select value={filters.answered} onValueChange={(value) => updateFilter("answered", value)}>
+                    <SelectTrigger data-testid="filter-answered">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Any status</SelectItem>
+                      <SelectItem value="true">Answered</SelectItem>
+                      <SelectItem value="false">Unanswered</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">From</label>
+                  <Input
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => updateFilter("from", e.target.value)}
+                    data-testid="filter-from"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">To</label>
+                  <Input
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => updateFilter("to", e.target.value)}
+                    data-testid="filter-to"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setFilters(defaultFilters);
+                    setPage(1);
+                  }}
+                  data-testid="button-clear-filters"
+                >
+                  Clear
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Inquiry list */}
+          <Card>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="p-6 space-y-3 animate-pulse">
+                  {[...Array(5)].map((_, i) => (
+                    <div key={i} className="h-10 bg-muted rounded"></div>
+                  ))}
+                </div>
+              ) : data && data.items.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Sender</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>
+                        <button className="flex items-center" onClick={() => toggleSort("priority")} data-testid="sort-priority">
+                          Priority
+                          {sortBy === "priority" && <SortIcon className="h-3 w-3 ml-1" />}
+                        </button>
+                      </TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>
+                        <button className="flex items-center" onClick={() => toggleSort("createdAt")} data-testid="sort-created-at">
+                          Received
+                          {sortBy === "createdAt" && <SortIcon className="h-3 w-3 ml-1" />}
+                        </button>
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.items.map((inquiry) => (
+                      <TableRow
+                        key={inquiry.id}
+                        className="cursor-pointer"
+                        onClick={() => setSelectedId(inquiry.id)}
+                        data-testid={`inquiry-row-${inquiry.id}`}
+                      >
+                        <TableCell className="font-medium max-w-xs truncate">{inquiry.subject || "No subject"}</TableCell>
+                        <TableCell className="text-muted-foreground">{inquiry.sender || "—"}</TableCell>
+                        <TableCell>
+                          {inquiry.category && <Badge variant="outline">{inquiry.category}</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={inquiry.priority === "urgent" || inquiry.priority === "high" ? "destructive" : "secondary"}>
+                            {inquiry.priority}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{inquiry.source}</TableCell>
+                        <TableCell>
+                          <Badge variant={inquiry.answered ? "default" : "secondary"}>
+                            {inquiry.answered ? "Answered" : "Open"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {inquiry.createdAt && format(new Date(inquiry.createdAt), "MMM d, HH:mm")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-12" data-testid="empty-inbox">
+                  <InboxIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">No inquiries found</h3>
+                  <p className="text-muted-foreground">
+                    Try changing the filters, or wait for new inquiries to arrive.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Pagination */}
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground" data-testid="inbox-total">
+                {data.total} {data.total === 1 ? "inquiry" : "inquiries"}
+              </p>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  data-testid="button-previous-page"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                  data-testid="button-next-page"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+          </>
+        )}
+      </main>
+
+      <InquiryDetail
+        inquiryId={selectedId}
+        onClose={() => {
+          setSelectedId(null);
+          if (search) {
+            setLocation("/inbox", { replace: true });
+          }
+        }}
+        onOpenConversation={(conversationId) => {
+          setSelectedId(null);
+          setSelectedConversationId(conversationId);
+        }}
+      />
+
+      <ConversationThread
+        conversationId={selectedConversationId}
+        onClose={() => setSelectedConversationId(null)}
+        onOpenInquiry={(inquiryId) => {
+          setSelectedConversationId(null);
+          setSelectedId(inquiryId);
+        }}
+      />
+    </>
+  );
+}
@@ -5,6 +5,7 @@
 
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
 import Header from "@/components/layout/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -15,6 +16,7 @@ import { Mail, MessageSquare, Phone, Send } from "lucide-react";
 import { Integration } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import ConfigureIntegration from "@/components/integrations/configure-integration";
 
 const platformIcons = {
   Gmail: Mail,
@@ -36,6 +38,7 @@ const platformColors = {
  */
 export default function Integrations() {
   const [connectingPlatform, setConnectingPlatform] = useState<string | null>(null);
+  const [configuringId, setConfiguringId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const { data: integrations, isLoading } = useQuery({
@@ -68,7 +71,6 @@ export default function Integrations() {
       const response = await apiRequest("POST", "/api/integrations", {
         platform,
         isActive: true,
-        credentials: { connected: true },
         settings: { autoReply: true },
       });
       return response.json();
@@ -163,7 +165,9 @@ export default function Integrations() {
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Last Sync:</span>
                           <span className="text-foreground">
-                            {integration.lastSync ? "2 hours ago" : "Never"}
+                            {integration.lastSync
+                              ? formatDistanceToNow(new Date(integration.lastSync), { addSuffix: true })
+                              : "Never"}
                           </span>
                         </div>
                         <div className="flex justify-between">
@@ -176,6 +180,7 @@ export default function Integrations() {
                         variant="outline" 
                         size="sm" 
                         className="w-full mt-4"
+                        onClick={() => setConfiguringId(integration.id)}
                         data-testid={`configure-${integration.platform.toLowerCase()}`}
                       >
                         Configure
@@ -221,6 +226,12 @@ export default function Integrations() {
           </div>
         </div>
 
+        {/* looked up by ID so the dialog shows the integration as last saved */}
+        <ConfigureIntegration
+          integration={((integrations as Integration[]) || []).find((i) => i.id === configuringId) ?? null}
+          onClose={() => setConfiguringId(null)}
+        />
+
         {/* Connection Dialog */}
         <Dialog open={!!connectingPlatform} onOpenChange={() => setConnectingPlatform(null)}>
           <DialogContent data-testid="connection-dialog">
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview This file defines the Review Queue page, which lists the
+ * AI-generated replies that were held back for manual approval.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import DraftReviewCard from "@/components/review/draft-review-card";
+import { Card, CardContent } from "@/components/ui/card";
+import { ClipboardCheck } from "lucide-react";
+import type { ResponseWithInquiry } from "@shared/schema";
+
+/**
+ * The Review Queue page component.
+ * @returns {JSX.Element} The rendered Review Queue page.
+ */
+export default function ReviewQueue() {
+  const { data: drafts, isLoading } = useQuery<ResponseWithInquiry[]>({
+    queryKey: ["/api/responses/pending"],
+  });
+
+  return (
+    <>
+      <Header
+        title="Review Queue"
+        description="Approve, edit or reject replies before they are sent"
+      />
+
+      <main className="flex-1 overflow-y-auto p-6" data-testid="review-queue-main">
+        {isLoading ? (
+          <div className="space-y-6">
+            {[...Array(2)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="h-4 bg-muted rounded w-1/3 mb-4"></div>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="h-40 bg-muted rounded"></div>
+                    <div className="h-40 bg-muted rounded"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : drafts && drafts.length > 0 ? (
+          <div className="space-y-6">
+            {drafts.map((draft) => (
+              <DraftReviewCard key={draft.id} draft={draft} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12" data-testid="empty-review-queue">
+            <ClipboardCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">Nothing to review</h3>
+            <p className="text-muted-foreground">
+              Replies held back for approval will show up here.
+            </p>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
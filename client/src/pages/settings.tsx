@@ -3,7 +3,7 @@
  * manage their account and automation preferences.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -20,37 +20,63 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { User, Brain, Bell, Shield, Zap, Clock, Target } from "lucide-react";
 import { z } from "zod";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  changePasswordSchema,
+  profileSchema,
+  aiSettingsSchema,
+  notificationSchema,
+  defaultSettings,
+  llmTasks,
+  type ProfileSettings,
+  type AISettings,
+  type NotificationSettings,
+} from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
-const profileSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.string().email("Invalid email address"),
-  timezone: z.string(),
-  businessHours: z.object({
-    start: z.string(),
-    end: z.string(),
-  }),
-});
-
-const aiSettingsSchema = z.object({
-  autoReplyEnabled: z.boolean(),
-  confidenceThreshold: z.number().min(0).max(100),
-  responseDelay: z.number().min(0),
-  learningMode: z.boolean(),
-  manualReviewRequired: z.boolean(),
-});
-
-const notificationSchema = z.object({
-  emailNotifications: z.boolean(),
-  urgentInquiries: z.boolean(),
-  dailyDigest: z.boolean(),
-  weeklyReports: z.boolean(),
-});
-
-type ProfileFormData = z.infer<typeof profileSchema>;
-type AISettingsFormData = z.infer<typeof aiSettingsSchema>;
-type NotificationFormData = z.infer<typeof notificationSchema>;
+const passwordFormSchema = changePasswordSchema
+  .extend({
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ProfileFormData = ProfileSettings;
+type AISettingsFormData = AISettings;
+type NotificationFormData = NotificationSettings;
+type PasswordFormData = z.infer<typeof passwordFormSchema>;
+
+const providerLabels: Record<AISettings["provider"], string> = {
+  default: "Server default",
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  "openai-compatible": "OpenAI-compatible (e.g. Ollama)",
+  mock: "Offline (rule-based)",
+};
+
+const classificationModeLabels: Record<AISettings["classificationMode"], string> = {
+  llm: "AI model, rules as fallback",
+  "rules-first": "Rules first, AI model when unsure",
+  "rules-only": "Rules only (offline)",
+};
+
+const taskLabels: Record<typeof llmTasks[number], string> = {
+  classify: "Classification",
+  generate: "Response generation",
+  sentiment: "Sentiment analysis",
+  improve: "Template improvement",
+};
+
+/**
+ * The settings returned by `GET /api/settings`.
+ */
+interface SettingsResponse {
+  profile: ProfileSettings;
+  ai: AISettings;
+  notifications: NotificationSettings;
+}
 
 /**
  * The Settings page component.
@@ -60,38 +86,41 @@ export default function Settings() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("profile");
 
+  const { data: settings } = useQuery<SettingsResponse>({
+    queryKey: ["/api/settings"],
+  });
+
   // Form instances
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
-    defaultValues: {
-      name: "Jane Smith",
-      email: "jane.smith@email.com",
-      timezone: "America/New_York",
-      businessHours: {
-        start: "09:00",
-        end: "17:00",
-      },
-    },
+    defaultValues: defaultSettings.profile,
   });
 
   const aiSettingsForm = useForm<AISettingsFormData>({
     resolver: zodResolver(aiSettingsSchema),
-    defaultValues: {
-      autoReplyEnabled: true,
-      confidenceThreshold: 85,
-      responseDelay: 30,
-      learningMode: true,
-      manualReviewRequired: false,
-    },
+    defaultValues: defaultSettings.ai,
   });
 
   const notificationForm = useForm<NotificationFormData>({
     resolver: zodResolver(notificationSchema),
+    defaultValues: defaultSettings.notifications,
+  });
+
+  // Load the saved values into the forms once they arrive
+  useEffect(() => {
+    if (settings) {
+      profileForm.reset(settings.profile);
+      aiSettingsForm.reset(settings.ai);
+      notificationForm.reset(settings.notifications);
+    }
+  }, [settings]);
+
+  const passwordForm = useForm<PasswordFormData>({
+    resolver: zodResolver(passwordFormSchema),
     defaultValues: {
-      emailNotifications: true,
-      urgentInquiries: true,
-      dailyDigest: true,
-      weeklyReports: false,
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
     },
   });
 
@@ -101,6 +130,7 @@ export default function Settings() {
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       toast({
         title: "Success",
         description: "Profile settings saved successfully",
@@ -121,6 +151,7 @@ export default function Settings() {
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       toast({
         title: "Success",
         description: "AI settings saved successfully",
@@ -141,6 +172,7 @@ export default function Settings() {
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       toast({
         title: "Success",
         description: "Notification settings saved successfully",
@@ -155,6 +187,26 @@ export default function Settings() {
     },
   });
 
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: PasswordFormData) => {
+      await apiRequest("PUT", "/api/auth/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      passwordForm.reset();
+      toast({
+        title: "Success",
+        description: "Password changed successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   const onProfileSubmit = (data: ProfileFormData) => {
     saveProfileMutation.mutate(data);
   };
@@ -167,6 +219,10 @@ export default function Settings() {
     saveNotificationMutation.mutate(data);
   };
 
+  const onPasswordSubmit = (data: PasswordFormData) => {
+    changePasswordMutation.mutate(data);
+  };
+
   const tabs = [
     { id: "profile", label: "Profile", icon: User },
     { id: "ai", label: "AI Settings", icon: Brain },
@@ -253,7 +309,7 @@ export default function Settings() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Timezone</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger data-testid="select-timezone">
                                 <SelectValue />
@@ -303,6 +359,26 @@ export default function Settings() {
                       />
                     </div>
 
+                    <FormField
+                      control={profileForm.control}
+                      name="signature"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email Signature</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              rows={3}
+                              placeholder="Added under every reply sent by email"
+                              {...field}
+                              value={field.value ?? ""}
+                              data-testid="input-signature"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <Button 
                       type="submit" 
                       disabled={saveProfileMutation.isPending}
@@ -447,6 +523,83 @@ export default function Settings() {
                             </FormItem>
                           )}
                         />
+
+                        <Separator />
+
+                        <FormField
+                          control={aiSettingsForm.control}
+                          name="classificationMode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Classification</FormLabel>
+                              <p className="text-sm text-muted-foreground mb-3">
+                                The rule-based classifier works offline and takes over whenever the AI model fails
+                              </p>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-classification-mode">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {Object.entries(classificationModeLabels).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={aiSettingsForm.control}
+                          name="provider"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>AI Provider</FormLabel>
+                              <p className="text-sm text-muted-foreground mb-3">
+                                The model backend used to classify inquiries and write replies
+                              </p>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-ai-provider">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {Object.entries(providerLabels).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <div className="grid grid-cols-2 gap-4">
+                          {llmTasks.map((task) => (
+                            <FormField
+                              key={task}
+                              control={aiSettingsForm.control}
+                              name={`models.${task}`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{taskLabels[task]} model</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      placeholder="Provider default"
+                                      {...field}
+                                      data-testid={`input-model-${task}`}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          ))}
+                        </div>
                       </div>
 
                       <Button 
@@ -612,6 +765,69 @@ export default function Settings() {
           {/* Security Settings */}
           {activeTab === "security" && (
             <div className="space-y-6">
+              <Card data-testid="password-settings">
+                <CardHeader>
+                  <CardTitle>Change Password</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Form {...passwordForm}>
+                    <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4">
+                      <FormField
+                        control={passwordForm.control}
+                        name="currentPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Current Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" autoComplete="current-password" {...field} data-testid="input-current-password" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={passwordForm.control}
+                          name="newPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>New Password</FormLabel>
+                              <FormControl>
+                                <Input type="password" autoComplete="new-password" {...field} data-testid="input-new-password" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={passwordForm.control}
+                          name="confirmPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Confirm New Password</FormLabel>
+                              <FormControl>
+                                <Input type="password" autoComplete="new-password" {...field} data-testid="input-confirm-password" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <Button
+                        type="submit"
+                        disabled={changePasswordMutation.isPending}
+                        data-testid="save-password"
+                      >
+                        {changePasswordMutation.isPending ? "Saving..." : "Change Password"}
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+
               <Card data-testid="security-settings">
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
@@ -3,18 +3,23 @@
  * manage their automated response templates.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import Header from "@/components/layout/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Edit, Trash2, Play, Pause } from "lucide-react";
+import { Edit, Eye, FlaskConical, History, Sparkles, Trash2, Play, Pause } from "lucide-react";
 import { Template } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import TemplateForm from "@/components/templates/template-form";
+import TemplatePreview from "@/components/templates/template-preview";
+import TemplateHistory from "@/components/templates/template-history";
+import TemplateVariants from "@/components/templates/template-variants";
+import TemplateImprove from "@/components/templates/template-improve";
 
 /**
  * The Templates page component.
@@ -23,7 +28,20 @@ import TemplateForm from "@/components/templates/template-form";
 export default function Templates() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
+  const [previewTemplate, setPreviewTemplate] = useState<Template | null>(null);
+  const [historyTemplateId, setHistoryTemplateId] = useState<string | null>(null);
+  const [variantsTemplateId, setVariantsTemplateId] = useState<string | null>(null);
+  const [improveTemplateId, setImproveTemplateId] = useState<string | null>(null);
   const { toast } = useToast();
+  const search = useSearch();
+
+  // the activity log links to /templates?template=<id>, which opens the template's history
+  useEffect(() => {
+    const templateId = new URLSearchParams(search).get("template");
+    if (templateId) {
+      setHistoryTemplateId(templateId);
+    }
+  }, [search]);
 
   const { data: templates, isLoading } = useQuery({
     queryKey: ["/api/templates"],
@@ -145,15 +163,36 @@ export default function Templates() {
                     {template.content}
                   </p>
                   
+                  {template.variables && template.variables.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-4" data-testid={`template-variables-${template.id}`}>
+                      {template.variables.map((variable) => (
+                        <Badge key={variable.name} variant="outline" className="text-xs font-normal">
+                          {variable.name}
+                          {variable.type !== "text" && <span className="ml-1 text-muted-foreground">{variable.type}</span>}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4 mb-4 text-xs text-muted-foreground">
                     <div>
                       <span className="font-medium">Success Rate:</span>
-                      <span className="ml-1 text-chart-3 font-semibold">{template.successRate}%</span>
+                      <span className="ml-1 text-chart-3 font-semibold">
+                        {template.successRate === null ? "—" : `${template.successRate}%`}
+                      </span>
                     </div>
                     <div>
                       <span className="font-medium">Times Used:</span>
                       <span className="ml-1">{template.timesUsed}</span>
                     </div>
+                    <div>
+                      <span className="font-medium">Avg Rating:</span>
+                      <span className="ml-1">{template.averageFeedback === null ? "—" : `${template.averageFeedback.toFixed(1)}/5`}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Version:</span>
+                      <span className="ml-1">v{template.version}</span>
+                    </div>
                   </div>
                   
                   <div className="flex space-x-2">
@@ -167,6 +206,39 @@ export default function Templates() {
                       <Edit className="h-3 w-3 mr-1" />
                       Edit
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewTemplate(template)}
+                      data-testid={`preview-template-${template.id}`}
+                    >
+                      <Eye className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVariantsTemplateId(template.id)}
+                      data-testid={`variants-template-${template.id}`}
+                    >
+                      <FlaskConical className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setImproveTemplateId(template.id)}
+                      title="Improve with AI"
+                      data-testid={`improve-template-${template.id}`}
+                    >
+                      <Sparkles className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setHistoryTemplateId(template.id)}
+                      data-testid={`history-template-${template.id}`}
+                    >
+                      <History className="h-3 w-3" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -209,6 +281,24 @@ export default function Templates() {
             />
           </DialogContent>
         </Dialog>
+
+        <TemplatePreview template={previewTemplate} onClose={() => setPreviewTemplate(null)} />
+
+        {/* templates are looked up by ID so these follow restores and promotions */}
+        <TemplateHistory
+          template={((templates as Template[]) || []).find((t) => t.id === historyTemplateId) ?? null}
+          onClose={() => setHistoryTemplateId(null)}
+        />
+
+        <TemplateVariants
+          template={((templates as Template[]) || []).find((t) => t.id === variantsTemplateId) ?? null}
+          onClose={() => setVariantsTemplateId(null)}
+        />
+
+        <TemplateImprove
+          template={((templates as Template[]) || []).find((t) => t.id === improveTemplateId) ?? null}
+          onClose={() => setImproveTemplateId(null)}
+        />
       </main>
     </>
   );
@@ -0,0 +1,245 @@
+/**
+ * @fileoverview This file sets up authentication for the application using
+ * passport with a local username/password strategy and express-session. It
+ * also registers the signup, login, logout and password change routes.
+ */
+
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import {
+  signupSchema,
+  loginSchema,
+  changePasswordSchema,
+  type User as SelectUser,
+  type PublicUser,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Hashes a password with a random salt using scrypt.
+ * @param {string} password - The plain text password.
+ * @returns {Promise<string>} A promise that resolves to the hash in the form `hash.salt`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compares a plain text password with a stored hash.
+ * @param {string} supplied - The plain text password.
+ * @param {string} stored - The stored hash in the form `hash.salt`.
+ * @returns {Promise<boolean>} A promise that resolves to true if the password matches.
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strips the password hash from a user before it is sent to the client.
+ * @param {SelectUser} user - The user record.
+ * @returns {PublicUser} The user without the password.
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Middleware that rejects requests without an authenticated session.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+}
+
+/**
+ * Resolves the session secret, requiring one to be configured in production.
+ * @returns {string} The session secret.
+ */
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // sessions won't survive a restart in development, which is fine
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Configures sessions and passport, and registers the authentication routes.
+ * @param {Express} app - The Express application instance.
+ */
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 1000 * 60 * 60 * 24 * 30, // 30 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  /**
+   * @route POST /api/auth/signup
+   * @description Creates a new user account and logs it in.
+   * @param {Request} req - The request object, containing the username and password in the body.
+   * @returns {Response} A JSON response with the newly created user.
+   */
+  app.post("/api/auth/signup", async (req, res, next) => {
+    try {
+      const { username, password } = signupSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to sign up", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route POST /api/auth/login
+   * @description Logs in with a username and password.
+   * @param {Request} req - The request object, containing the username and password in the body.
+   * @returns {Response} A JSON response with the logged-in user.
+   */
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Failed to log in", error: parsed.error.message });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  /**
+   * @route POST /api/auth/logout
+   * @description Logs out the current user and destroys the session.
+   * @returns {Response} A 204 No Content response on success.
+   */
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  /**
+   * @route GET /api/auth/user
+   * @description Fetches the currently logged-in user.
+   * @returns {Response} A JSON response with the user, or 401 if not logged in.
+   */
+  app.get("/api/auth/user", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  /**
+   * @route PUT /api/auth/password
+   * @description Changes the password of the currently logged-in user.
+   * @param {Request} req - The request object, containing the current and new password in the body.
+   * @returns {Response} A 204 No Content response on success.
+   */
+  app.put("/api/auth/password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = req.user!;
+
+      if (!(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      res.status(204).send();
+    } catch (error) {
+      res.status(400).json({ message: "Failed to change password", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview This file contains the ownership checks used by the routes.
+ * Each helper loads a record by ID and only returns it if it belongs to the
+ * given user, so routes can answer with a 404 for records of other users
+ * without revealing that they exist.
+ */
+
+import { storage } from "./storage";
+import type { Template, TemplateVariant, Inquiry, Conversation, Response, Integration } from "@shared/schema";
+
+/**
+ * Loads a template owned by the given user.
+ * @param {string} userId - The ID of the user.
+ * @param {string} id - The ID of the template.
+ * @returns {Promise<Template | undefined>} A promise that resolves to the template, or undefined if it does not exist or belongs to another user.
+ */
+export async function findOwnedTemplate(userId: string, id: string): Promise<Template | undefined> {
+  const template = await storage.getTemplate(id);
+  return template?.userId === userId ? template : undefined;
+}
+
+/**
+ * Loads a variant of a template owned by the given user. Variants have no
+ * owner of their own, so ownership is checked through their template.
+ * @param {string} userId - The ID of the user.
+ * @param {string} templateId - The ID of the template.
+ * @param {string} id - The ID of the variant.
+ * @returns {Promise<{ template: Template; variant: TemplateVariant } | undefined>} A promise that resolves to the template and the variant, or undefined if either does not exist, the variant belongs to another template, or the template belongs to another user.
+ */
+export async function findOwnedTemplateVariant(
+  userId: string,
+  templateId: string,
+  id: string
+): Promise<{ template: Template; variant: TemplateVariant } | undefined> {
+  const template = await findOwnedTemplate(userId, templateId);
+  const variant = template && await storage.getTemplateVariant(id);
+  return template && variant?.templateId === template.id ? { template, variant } : undefined;
+}
+
+/**
+ * Loads an inquiry owned by the given user.
+ * @param {string} userId - The ID of the user.
+ * @param {string} id - The ID of the inquiry.
+ * @returns {Promise<Inquiry | undefined>} A promise that resolves to the inquiry, or undefined if it does not exist or belongs to another user.
+ */
+export async function findOwnedInquiry(userId: string, id: string): Promise<Inquiry | undefined> {
+  const inquiry = await storage.getInquiry(id);
+  return inquiry?.userId === userId ? inquiry : undefined;
+}
+
+/**
+ * Loads a conversation owned by the given user.
+ * @param {string} userId - The ID of the user.
+ * @param {string} id - The ID of the conversation.
+ * @returns {Promise<Conversation | undefined>} A promise that resolves to the conversation, or undefined if it does not exist or belongs to another user.
+ */
+export async function findOwnedConversation(userId: string, id: string): Promise<Conversation | undefined> {
+  const conversation = await storage.getConversation(id);
+  return conversation?.userId === userId ? conversation : undefined;
+}
+
+/**
+ * Loads a response owned by the given user. Responses have no owner of their
+ * own, so ownership is checked through the inquiry they answer.
+ * @param {string} userId - The ID of the user.
+ * @param {string} id - The ID of the response.
+ * @returns {Promise<Response | undefined>} A promise that resolves to the response, or undefined if it does not exist or belongs to another user.
+ */
+export async function findOwnedResponse(userId: string, id: string): Promise<Response | undefined> {
+  const response = await storage.getResponse(id);
+  if (!response) {
+    return undefined;
+  }
+
+  const inquiry = await findOwnedInquiry(userId, response.inquiryId);
+  return inquiry ? response : undefined;
+}
+
+/**
+ * Loads an integration owned by the given user.
+ * @param {string} userId - The ID of the user.
+ * @param {string} id - The ID of the integration.
+ * @returns {Promise<Integration | undefined>} A promise that resolves to the integration, or undefined if it does not exist or belongs to another user.
+ */
+export async function findOwnedIntegration(userId: string, id: string): Promise<Integration | undefined> {
+  const integration = await storage.getIntegration(id);
+  return integration?.userId === userId ? integration : undefined;
+}
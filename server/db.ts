@@ -0,0 +1,28 @@
+/**
+ * @fileoverview This file sets up the connection to the PostgreSQL database
+ * using the Neon serverless driver and Drizzle ORM.
+ */
+
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Creates a connection pool and a Drizzle database instance for the given
+ * connection string.
+ * @param {string} connectionString - The PostgreSQL connection string.
+ * @returns {{ pool: Pool; db: Database }} The connection pool and the Drizzle database instance.
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
+
+/**
+ * Type for the Drizzle database instance used by the application.
+ */
+export type Database = ReturnType<typeof createDatabase>["db"];
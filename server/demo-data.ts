@@ -0,0 +1,88 @@
+/**
+ * @fileoverview This file contains the demo data used to populate a fresh
+ * storage backend, either on startup of the in-memory storage or through the
+ * explicit seed command for the database.
+ */
+
+import type { IStorage } from "./storage";
+import { hashPassword } from "./auth";
+import { defaultSettings } from "@shared/schema";
+
+/**
+ * The username of the demo user created by the seed.
+ */
+export const DEMO_USERNAME = "jane.smith";
+
+/**
+ * Populates the given storage with a demo user, templates and integrations.
+ * Analytics are not seeded; the aggregation job builds them from activity.
+ * Does nothing if the demo user already exists.
+ * @param {IStorage} storage - The storage to populate.
+ * @returns {Promise<boolean>} A promise that resolves to true if the data was created, false if it already existed.
+ */
+export async function seedDemoData(storage: IStorage): Promise<boolean> {
+  const existingUser = await storage.getUserByUsername(DEMO_USERNAME);
+  if (existingUser) {
+    return false;
+  }
+
+  // Create demo user
+  const demoUser = await storage.createUser({
+    username: DEMO_USERNAME,
+    password: await hashPassword("password123")
+  });
+
+  await storage.upsertUserSettings({
+    userId: demoUser.id,
+    ...defaultSettings,
+    profile: {
+      ...defaultSettings.profile,
+      name: "Jane Smith",
+      email: "jane.smith@email.com"
+    }
+  });
+
+  // Create demo templates
+  await storage.createTemplate({
+    userId: demoUser.id,
+    name: "Project Inquiry",
+    category: "project",
+    subject: "Re: Project Inquiry",
+    content: "Hi {{clientName = \"there\"}},\n\nThank you for your interest in my services. I'd be happy to discuss your {{projectType = \"project\"}} requirements in detail.{{#if timeline}} A timeline of {{timeline}} sounds workable.{{/if}}{{#if budget}} With a budget of {{budget:money}}, we can plan the scope together.{{else}} Could you please provide more information about your timeline and budget?{{/if}}"
+  });
+
+  await storage.createTemplate({
+    userId: demoUser.id,
+    name: "Pricing Request",
+    category: "pricing",
+    subject: "Re: Pricing Information",
+    content: "Hi {{clientName = \"there\"}},\n\nThank you for reaching out. I'd be happy to provide a quote for {{serviceType = \"your project\"}}.{{#if projectScope}} For {{projectScope}}, my rates depend on complexity and timeline.{{else}} My rates vary based on project complexity and timeline.{{/if}} Let's schedule a brief call to discuss your needs."
+  });
+
+  await storage.createTemplate({
+    userId: demoUser.id,
+    name: "Availability Check",
+    category: "availability",
+    subject: "Re: Availability Inquiry",
+    content: "Hi {{clientName = \"there\"}},\n\nThanks for your message. I currently have availability starting {{#if startDate}}{{startDate:date}}{{else}}next week{{/if}}.{{#if projectDuration}} A {{projectDuration}} engagement fits my schedule.{{/if}} I'd love to learn more about your project to see if we're a good fit. When would be convenient for a quick call?"
+  });
+
+  // Create demo integrations
+  await storage.createIntegration({
+    userId: demoUser.id,
+    platform: "Gmail",
+    isActive: true,
+    credentials: { email: "jane.smith@email.com" },
+    settings: { autoReply: true, categories: ["project", "pricing"] }
+  });
+
+  await storage.createIntegration({
+    userId: demoUser.id,
+    platform: "Slack",
+    isActive: true,
+    credentials: { workspace: "freelance-team" },
+    settings: { autoReply: false }
+  });
+
+  return true;
+}
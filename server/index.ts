@@ -6,10 +6,26 @@
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, MemStorage } from "./storage";
+import { seedDemoData } from "./demo-data";
+import { startAnalyticsScheduler } from "./services/analytics-aggregator";
+import { startEmailPolling } from "./services/email/imap-sync";
+import { startDeliveryWorker } from "./services/delivery";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    /** The body exactly as it was received, for webhooks that sign it. */
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 /**
@@ -50,7 +66,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // the in-memory storage starts empty on every boot, so give it the demo data
+  // the database gets from `npm run db:seed`
+  if (storage instanceof MemStorage) {
+    await seedDemoData(storage);
+  }
+
   const server = await registerRoutes(app);
+  startAnalyticsScheduler();
+  startEmailPolling();
+  startDeliveryWorker();
 
   /**
    * Error handling middleware.
@@ -0,0 +1,234 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestClient, signUp, startTestApp, type TestApp, type TestClient } from "./test-utils";
+import { storage } from "./storage";
+
+describe("data of other users", () => {
+  let app: TestApp;
+  let alice: TestClient;
+  let bob: TestClient;
+  let template: any;
+  let inquiry: any;
+  let response: any;
+  let integration: any;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    alice = await signUp(app, "alice");
+    bob = await signUp(app, "bob");
+
+    template = (await alice.request("POST", "/api/templates", {
+      name: "Pricing",
+      category: "pricing",
+      content: "Thanks for asking about our prices.",
+    })).body;
+    inquiry = (await alice.request("POST", "/api/inquiries", {
+      subject: "Prices",
+      content: "What do you charge for a logo?",
+      sender: "carol@example.com",
+    })).body;
+    response = (await alice.request("POST", "/api/responses", {
+      inquiryId: inquiry.id,
+      content: "Our logos start at 500 euros.",
+      status: "draft",
+    })).body;
+    integration = (await alice.request("POST", "/api/integrations", { platform: "Slack", isActive: true })).body;
+
+    expect([template.id, inquiry.id, response.id, integration.id].every(Boolean)).toBe(true);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("requires a session", async () => {
+    const anonymous = createTestClient(app);
+    expect((await anonymous.request("GET", "/api/inquiries")).status).toBe(401);
+    expect((await anonymous.request("GET", `/api/inquiries/${inquiry.id}`)).status).toBe(401);
+  });
+
+  it("hides inquiries", async () => {
+    expect((await bob.request("GET", `/api/inquiries/${inquiry.id}`)).status).toBe(404);
+    expect((await bob.request("POST", `/api/inquiries/${inquiry.id}/classify`)).status).toBe(404);
+    expect((await bob.request("GET", "/api/inquiries")).body.items).toEqual([]);
+  });
+
+  it("hides templates", async () => {
+    expect((await bob.request("PUT", `/api/templates/${template.id}`, { content: "Hijacked" })).status).toBe(404);
+    expect((await bob.request("DELETE", `/api/templates/${template.id}`)).status).toBe(404);
+    expect((await bob.request("GET", `/api/templates/${template.id}/versions`)).status).toBe(404);
+    expect((await bob.request("POST", `/api/templates/${template.id}/render`, { variables: {} })).status).toBe(404);
+    expect((await bob.request("GET", "/api/templates")).body).toEqual([]);
+  });
+
+  it("hides responses", async () => {
+    expect((await bob.request("PUT", `/api/responses/${response.id}`, { content: "Hijacked" })).status).toBe(404);
+    expect((await bob.request("POST", `/api/responses/${response.id}/approve`)).status).toBe(404);
+    expect((await bob.request("POST", `/api/responses/${response.id}/reject`)).status).toBe(404);
+    expect((await bob.request("PUT", `/api/responses/${response.id}/feedback`, { customerFeedback: 1 })).status).toBe(404);
+    expect((await bob.request("GET", "/api/responses")).body).toEqual([]);
+    expect((await bob.request("GET", "/api/responses/pending")).body).toEqual([]);
+  });
+
+  it("refuses replies to their inquiries", async () => {
+    const reply = await bob.request("POST", "/api/responses", { inquiryId: inquiry.id, content: "Hello", status: "draft" });
+    expect(reply.status).toBe(404);
+  });
+
+  it("hides integrations", async () => {
+    const update = await bob.request("PUT", `/api/integrations/${integration.id}`, { isActive: false });
+    expect(update.status).toBe(404);
+    expect((await bob.request("POST", `/api/integrations/${integration.id}/sync`)).status).toBe(404);
+    expect((await bob.request("POST", `/api/integrations/${integration.id}/test`)).status).toBe(404);
+    expect((await bob.request("GET", "/api/integrations")).body).toEqual([]);
+  });
+
+  it("ignores variant and outcome fields on replies written by hand", async () => {
+    const { status, body } = await alice.request("POST", "/api/responses", {
+      inquiryId: inquiry.id,
+      content: "Forged outcome",
+      status: "draft",
+      variantId: "forged-variant",
+      isAutomated: true,
+      wasModified: true,
+      success: true,
+      customerFeedback: 5,
+      reviewReason: "forged",
+    });
+    expect(status).toBe(201);
+    expect(body).toMatchObject({
+      variantId: null,
+      isAutomated: false,
+      wasModified: false,
+      success: null,
+      customerFeedback: null,
+      reviewReason: null,
+    });
+  });
+
+  it("leaves the owner's data unchanged", async () => {
+    const templates = (await alice.request("GET", "/api/templates")).body;
+    expect(templates.map((t: any) => t.content)).toEqual(["Thanks for asking about our prices."]);
+
+    const detail = (await alice.request("GET", `/api/inquiries/${inquiry.id}`)).body;
+    const draft = detail.responses.find((r: any) => r.id === response.id);
+    expect(draft).toMatchObject({ status: "draft", content: "Our logos start at 500 euros." });
+
+    const integrations = (await alice.request("GET", "/api/integrations")).body;
+    expect(integrations).toHaveLength(1);
+    expect(integrations[0].isActive).toBe(true);
+  });
+});
+
+describe("integration validation", () => {
+  let app: TestApp;
+  let dave: TestClient;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    dave = await signUp(app, "dave");
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("refuses unknown platforms and credentials of the wrong shape", async () => {
+    expect((await dave.request("POST", "/api/integrations", { platform: "Fax" })).status).toBe(400);
+
+    const slack = await dave.request("POST", "/api/integrations", {
+      platform: "Slack",
+      credentials: { signingSecret: "secret", botToken: "not-a-bot-token" },
+    });
+    expect(slack.status).toBe(400);
+
+    const gmail = await dave.request("POST", "/api/integrations", {
+      platform: "Gmail",
+      credentials: { host: "imap.gmail.com" },
+    });
+    expect(gmail.status).toBe(400);
+
+    expect((await dave.request("GET", "/api/integrations")).body).toEqual([]);
+  });
+
+  it("creates integrations with settings for their platform", async () => {
+    const { status, body } = await dave.request("POST", "/api/integrations", { platform: "Gmail", isActive: true });
+    expect(status).toBe(201);
+    expect(body.settings).toMatchObject({ autoReply: true, mailbox: "INBOX" });
+
+    const telegram = await dave.request("POST", "/api/integrations", {
+      platform: "Telegram",
+      credentials: { botToken: "123456:ABC-DEF" },
+    });
+    expect(telegram.status).toBe(201);
+    expect(telegram.body.settings).toEqual({ autoReply: true });
+  });
+
+  it("keeps the platform of an integration", async () => {
+    const created = (await dave.request("POST", "/api/integrations", { platform: "Discord" })).body;
+    const update = await dave.request("PUT", `/api/integrations/${created.id}`, { platform: "Gmail", isActive: true });
+    expect(update.status).toBe(200);
+    expect(update.body).toMatchObject({ platform: "Discord", isActive: true });
+  });
+});
+
+describe("analytics summary", () => {
+  let app: TestApp;
+  let erin: TestClient;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    erin = await signUp(app, "erin");
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await app.close();
+  });
+
+  it("summarizes a period", async () => {
+    const { status, body } = await erin.request("GET", "/api/analytics/summary?days=7");
+    expect(status).toBe(200);
+    expect(body.days).toBe(7);
+  });
+
+  it("refuses periods that start after they end", async () => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    expect((await erin.request("GET", `/api/analytics/summary?from=${tomorrow}`)).status).toBe(400);
+    expect((await erin.request("GET", "/api/analytics/summary?from=2024-03-10&to=2024-03-01")).status).toBe(400);
+  });
+
+  it("answers storage failures with a server error", async () => {
+    vi.spyOn(storage, "getAnalyticsBetween").mockRejectedValueOnce(new Error("connection lost"));
+    const { status, body } = await erin.request("GET", "/api/analytics/summary?days=7");
+    expect(status).toBe(500);
+    expect(body).toEqual({ message: "Failed to fetch analytics summary" });
+  });
+});
+
+describe("daily analytics", () => {
+  let app: TestApp;
+  let frank: TestClient;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    frank = await signUp(app, "frank");
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("counts a rating toward the day the reply was sent", async () => {
+    const { body: user } = await frank.request("GET", "/api/auth/user");
+    const sentAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    const inquiry = await storage.createInquiry({ userId: user.id, subject: null, content: "What do you charge?", source: "email", sender: null });
+    const response = await storage.createResponse({ inquiryId: inquiry.id, content: "500 euros.", status: "sent" });
+    await storage.updateResponse(response.id, { sentAt });
+
+    expect((await frank.request("PUT", `/api/responses/${response.id}/feedback`, { customerFeedback: 4 })).status).toBe(200);
+
+    const day = new Date(Date.UTC(sentAt.getUTCFullYear(), sentAt.getUTCMonth(), sentAt.getUTCDate()));
+    const [row] = await storage.getAnalyticsBetween(user.id, day, new Date(day.getTime() + 24 * 60 * 60 * 1000));
+    expect(row).toMatchObject({ automatedResponses: 1, customerSatisfaction: 80 });
+  });
+});
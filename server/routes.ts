@@ -6,19 +6,91 @@
 
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { ZodError } from "zod";
+import { log } from "./vite";
 import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import {
+  findOwnedTemplate,
+  findOwnedTemplateVariant,
+  findOwnedInquiry,
+  findOwnedConversation,
+  findOwnedResponse,
+  findOwnedIntegration
+} from "./authorization";
 import { 
   insertTemplateSchema, 
-  insertInquirySchema, 
-  insertResponseSchema,
-  insertIntegrationSchema 
+  templateEditSchema,
+  templateDiffQuerySchema,
+  templateRenderSchema,
+  versionedTemplateFields,
+  insertTemplateVariantSchema,
+  updateTemplateVariantSchema,
+  inquiryInputSchema,
+  inquiryQuerySchema,
+  conversationQuerySchema,
+  searchQuerySchema,
+  activityQuerySchema,
+  emailCredentialsSchema,
+  emailSettingsSchema,
+  slackCredentialsSchema,
+  telegramCredentialsSchema,
+  discordCredentialsSchema,
+  chatSettingsSchema,
+  createResponseSchema,
+  createIntegrationSchema,
+  updateIntegrationSchema,
+  responseFeedbackSchema,
+  editResponseSchema,
+  analyticsBackfillSchema,
+  analyticsSummaryQuerySchema,
+  exportDatasetSchema,
+  exportQuerySchema,
+  type ExportDataset,
+  type ExportQuery,
+  profileSchema,
+  aiSettingsSchema,
+  notificationSchema
 } from "@shared/schema";
 import { 
-  classifyInquiry, 
   generateResponse, 
   analyzeSentiment, 
   improveTemplate 
 } from "./services/openai";
+import { extractVariables, renderTemplate } from "@shared/template-engine";
+import { diffWords, hasChanges } from "@shared/diff";
+import { getSettings, updateSettings } from "./services/settings";
+import { getLLMForUser } from "./services/llm";
+import { classifyForUser } from "./services/classifier";
+import { processInquiry, reclassifyInquiry } from "./services/inquiry-pipeline";
+import { threadUnassignedInquiries } from "./services/conversations";
+import { deliverResponse, retryDelivery } from "./services/delivery";
+import { autoPromoteWinner, checkTrafficSplit, getExperimentReport, promoteVariant } from "./services/experiments";
+import { aggregateUserAnalytics, backfillAnalytics } from "./services/analytics-aggregator";
+import { AnalyticsPeriodError, getAnalyticsSummary } from "./services/analytics-summary";
+import { streamExport } from "./services/export";
+import {
+  recordIntegrationConnected,
+  recordTemplateChange,
+  recordTemplateCreated,
+  recordTemplateDeleted
+} from "./services/activity";
+import { publishIntegrationError, publishLiveEvent, subscribeToLiveEvents } from "./services/live-events";
+import { mergeCredentials, toPublicIntegration } from "./services/integrations";
+import { isEmailIntegration, syncEmailIntegration } from "./services/email/imap-sync";
+import { handleSlackEvent, isSlackIntegration, verifySlackSignature, type SlackPayload } from "./services/chat/slack";
+import { handleTelegramUpdate, isTelegramIntegration, verifyTelegramSecret, type TelegramUpdate } from "./services/chat/telegram";
+import {
+  answerDiscordInteraction,
+  handleDiscordInteraction,
+  isDiscordIntegration,
+  verifyDiscordSignature,
+  type DiscordInteraction,
+} from "./services/chat/discord";
+import { canTestConnection, testConnection } from "./services/chat/connection-test";
+
+/** How often an idle event stream sends a comment, so proxies keep it open. */
+const EVENT_STREAM_HEARTBEAT_MS = 25 * 1000;
 
 /**
  * Registers all the API routes for the application.
@@ -26,23 +98,142 @@ import {
  * @returns {Promise<Server>} A promise that resolves to an HTTP server instance.
  */
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Demo user ID for MVP
-  const DEMO_USER_ID = "jane.smith";
+  setupAuth(app);
+
+  // --- Webhooks ---
+  // Platforms call these without a session; each request is verified with the integration's own secret.
+
+  /**
+   * @route POST /api/webhooks/slack/:integrationId
+   * @description Receives events from the Slack Events API for a Slack integration. Requests must be signed with the
+   * integration's signing secret. Answers Slack's URL verification, and turns direct messages to the bot and mentions
+   * of it into inquiries after acknowledging them, since Slack expects an answer within three seconds.
+   * @param {Request} req - The request object, containing the integration ID in the params and the event in the body.
+   * @returns {Response} The challenge for a URL verification, otherwise an empty acknowledgement.
+   */
+  app.post("/api/webhooks/slack/:integrationId", async (req, res) => {
+    try {
+      const integration = await storage.getIntegration(req.params.integrationId);
+      if (!integration || !isSlackIntegration(integration)) {
+        return res.status(404).json({ message: "Integration not found" });
+      }
+
+      const credentials = slackCredentialsSchema.safeParse(integration.credentials ?? {});
+      if (!credentials.success) {
+        return res.status(409).json({ message: "Slack integration is not configured" });
+      }
+
+      const verified = verifySlackSignature(
+        credentials.data.signingSecret,
+        req.get("X-Slack-Request-Timestamp"),
+        req.get("X-Slack-Signature"),
+        req.rawBody
+      );
+      if (!verified) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      const payload = req.body as SlackPayload;
+      if (payload.type === "url_verification") {
+        return res.json({ challenge: payload.challenge });
+      }
+
+      res.status(200).end();
+      if (integration.isActive) {
+        handleSlackEvent(integration, payload).catch((error) => publishIntegrationError(integration, error));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to handle Slack event" });
+    }
+  });
+
+  /**
+   * @route POST /api/webhooks/telegram/:integrationId
+   * @description Receives updates from Telegram for a Telegram integration. The webhook is registered by the connection
+   * test, and every update must carry the secret it was registered with. Text messages become inquiries after the
+   * update was acknowledged.
+   * @param {Request} req - The request object, containing the integration ID in the params and the update in the body.
+   * @returns {Response} An empty acknowledgement.
+   */
+  app.post("/api/webhooks/telegram/:integrationId", async (req, res) => {
+    try {
+      const integration = await storage.getIntegration(req.params.integrationId);
+      if (!integration || !isTelegramIntegration(integration)) {
+        return res.status(404).json({ message: "Integration not found" });
+      }
+
+      const credentials = telegramCredentialsSchema.safeParse(integration.credentials ?? {});
+      if (!credentials.success || !credentials.data.webhookSecret) {
+        return res.status(409).json({ message: "Telegram webhook is not registered" });
+      }
+      if (!verifyTelegramSecret(credentials.data.webhookSecret, req.get("X-Telegram-Bot-Api-Secret-Token"))) {
+        return res.status(401).json({ message: "Invalid secret token" });
+      }
+
+      res.status(200).end();
+      if (integration.isActive) {
+        handleTelegramUpdate(integration, req.body as TelegramUpdate)
+          .catch((error) => publishIntegrationError(integration, error));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to handle Telegram update" });
+    }
+  });
+
+  /**
+   * @route POST /api/webhooks/discord/:integrationId
+   * @description Receives interactions from Discord for a Discord integration, set as the application's Interactions
+   * Endpoint URL. Requests must be signed with the application's key. Pings are answered, and questions asked with
+   * the `/ask` command are acknowledged in the channel and become inquiries.
+   * @param {Request} req - The request object, containing the integration ID in the params and the interaction in the body.
+   * @returns {Response} A JSON response with the interaction response.
+   */
+  app.post("/api/webhooks/discord/:integrationId", async (req, res) => {
+    try {
+      const integration = await storage.getIntegration(req.params.integrationId);
+      if (!integration || !isDiscordIntegration(integration)) {
+        return res.status(404).json({ message: "Integration not found" });
+      }
+
+      const credentials = discordCredentialsSchema.safeParse(integration.credentials ?? {});
+      if (!credentials.success) {
+        return res.status(409).json({ message: "Discord integration is not configured" });
+      }
+
+      const verified = verifyDiscordSignature(
+        credentials.data.publicKey,
+        req.get("X-Signature-Ed25519"),
+        req.get("X-Signature-Timestamp"),
+        req.rawBody
+      );
+      if (!verified) {
+        return res.status(401).json({ message: "Invalid request signature" });
+      }
+
+      const interaction = req.body as DiscordInteraction;
+      res.json(answerDiscordInteraction(interaction, !!integration.isActive));
+      if (integration.isActive) {
+        handleDiscordInteraction(integration, interaction)
+          .catch((error) => publishIntegrationError(integration, error));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to handle Discord interaction" });
+    }
+  });
+
+  // Every API route registered below requires a logged-in user
+  app.use("/api", requireAuth);
 
   // --- Templates routes ---
 
   /**
    * @route GET /api/templates
-   * @description Fetches all templates for the demo user.
+   * @description Fetches all templates for the current user.
    * @returns {Response} A JSON response with the list of templates.
    */
   app.get("/api/templates", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
+      const user = req.user!;
       const templates = await storage.getTemplates(user.id);
       res.json(templates);
     } catch (error) {
@@ -52,16 +243,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route POST /api/templates
-   * @description Creates a new template for the demo user.
+   * @description Creates a new template for the current user.
    * @param {Request} req - The request object, containing the template data in the body.
    * @returns {Response} A JSON response with the newly created template.
    */
   app.post("/api/templates", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const user = req.user!;
 
       const validatedData = insertTemplateSchema.parse({
         ...req.body,
@@ -69,6 +257,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const template = await storage.createTemplate(validatedData);
+      await recordTemplateCreated(template);
       res.status(201).json(template);
     } catch (error) {
       res.status(400).json({ message: "Failed to create template", error: error instanceof Error ? error.message : 'Unknown error' });
@@ -77,40 +266,290 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route PUT /api/templates/:id
-   * @description Updates an existing template.
+   * @description Updates a template owned by the current user. A change to its name, category, subject or content is stored as a new version, with the source ("manual" or "ai-improvement") given in the body.
    * @param {Request} req - The request object, containing the template ID in the params and the update data in the body.
    * @returns {Response} A JSON response with the updated template.
    */
   app.put("/api/templates/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const template = await storage.updateTemplate(id, req.body);
+      const existing = await findOwnedTemplate(req.user!.id, id);
       
-      if (!template) {
+      if (!existing) {
         return res.status(404).json({ message: "Template not found" });
       }
       
+      const { source, note, ...updates } = templateEditSchema.parse(req.body);
+      const revision = { authorId: req.user!.id, source, note };
+      const template = await storage.updateTemplate(id, updates, revision);
+      if (template) {
+        await recordTemplateChange(template, revision);
+      }
       res.json(template);
     } catch (error) {
       res.status(400).json({ message: "Failed to update template", error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
 
+  /**
+   * @route POST /api/templates/:id/render
+   * @description Renders the subject and content of a template with the given variable values, without the LLM. Dates are shown in the user's time zone unless another one is given.
+   * @param {Request} req - The request object, containing the template ID in the params and the variables and formatting options in the body.
+   * @returns {Response} A JSON response with the rendered subject and content, and the required variables that had no value.
+   */
+  app.post("/api/templates/:id/render", async (req, res) => {
+    try {
+      const template = await findOwnedTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const { variables, ...options } = templateRenderSchema.parse(req.body);
+      const settings = await getSettings(req.user!.id);
+      const formatting = { ...options, timeZone: options.timeZone ?? settings.profile.timezone };
+      const body = renderTemplate(template.content, variables, formatting);
+      const subject = template.subject ? renderTemplate(template.subject, variables, formatting) : null;
+
+      res.json({
+        subject: subject?.content ?? null,
+        content: body.content,
+        missing: Array.from(new Set([...(subject?.missing ?? []), ...body.missing])),
+      });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to render template", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route GET /api/templates/:id/versions
+   * @description Lists the versions of a template owned by the current user, newest first, with the username of their author.
+   * @param {Request} req - The request object, containing the template ID in the params.
+   * @returns {Response} A JSON response with the list of versions.
+   */
+  app.get("/api/templates/:id/versions", async (req, res) => {
+    try {
+      const template = await findOwnedTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const versions = await storage.getTemplateVersions(template.id);
+      const authorIds = Array.from(new Set(versions.map((version) => version.authorId)));
+      const authors = new Map<string, string | null>();
+      for (const authorId of authorIds) {
+        authors.set(authorId, (await storage.getUser(authorId))?.username ?? null);
+      }
+
+      res.json(versions.map((version) => ({ ...version, author: authors.get(version.authorId) ?? null })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch template versions" });
+    }
+  });
+
+  /**
+   * @route GET /api/templates/:id/versions/diff
+   * @description Compares two versions of a template owned by the current user, word by word.
+   * @param {Request} req - The request object, containing the template ID in the params and the `from` and `to` version numbers in the query string.
+   * @returns {Response} A JSON response with both versions and the changes of each changed field.
+   */
+  app.get("/api/templates/:id/versions/diff", async (req, res) => {
+    try {
+      const template = await findOwnedTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const query = templateDiffQuerySchema.parse(req.query);
+      const [from, to] = await Promise.all([
+        storage.getTemplateVersion(template.id, query.from),
+        storage.getTemplateVersion(template.id, query.to),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+
+      const changes = versionedTemplateFields
+        .map((field) => ({ field, parts: diffWords(from[field] ?? "", to[field] ?? "") }))
+        .filter(({ parts }) => hasChanges(parts));
+
+      res.json({ from, to, changes });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to compare template versions", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route POST /api/templates/:id/versions/:version/restore
+   * @description Restores an older version of a template owned by the current user. The restore is stored as a new version, so the history is kept.
+   * @param {Request} req - The request object, containing the template ID and the version number in the params.
+   * @returns {Response} A JSON response with the updated template.
+   */
+  app.post("/api/templates/:id/versions/:version/restore", async (req, res) => {
+    try {
+      const template = await findOwnedTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const version = await storage.getTemplateVersion(template.id, Number(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+
+      const revision = { authorId: req.user!.id, source: "restore" as const, note: `Restored version ${version.version}` };
+      const updated = await storage.updateTemplate(
+        template.id,
+        { name: version.name, category: version.category, subject: version.subject, content: version.content },
+        revision
+      );
+      if (updated) {
+        await recordTemplateChange(updated, revision);
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore template version" });
+    }
+  });
+
+  /**
+   * @route GET /api/templates/:id/variants
+   * @description Lists the A/B test variants of a template owned by the current user.
+   * @param {Request} req - The request object, containing the template ID in the params.
+   * @returns {Response} A JSON response with the list of variants.
+   */
+  app.get("/api/templates/:id/variants", async (req, res) => {
+    try {
+      const template = await findOwnedTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      res.json(await storage.getTemplateVariants(template.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch template variants" });
+    }
+  });
+
+  /**
+   * @route POST /api/templates/:id/variants
+   * @description Adds an A/B test variant to a template owned by the current user. The weight is the variant's share of traffic, in percent.
+   * @param {Request} req - The request object, containing the template ID in the params and the variant in the body.
+   * @returns {Response} A JSON response with the newly created variant.
+   */
+  app.post("/api/templates/:id/variants", async (req, res) => {
+    try {
+      const template = await findOwnedTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const validatedData = insertTemplateVariantSchema.parse({ ...req.body, templateId: template.id });
+      extractVariables(validatedData.content);
+      await checkTrafficSplit(template.id, { weight: validatedData.weight ?? 50, isActive: validatedData.isActive ?? true });
+
+      const variant = await storage.createTemplateVariant(validatedData);
+      res.status(201).json(variant);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create template variant", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route PUT /api/templates/:id/variants/:variantId
+   * @description Updates an A/B test variant of a template owned by the current user.
+   * @param {Request} req - The request object, containing the template and variant IDs in the params and the update data in the body.
+   * @returns {Response} A JSON response with the updated variant.
+   */
+  app.put("/api/templates/:id/variants/:variantId", async (req, res) => {
+    try {
+      const found = await findOwnedTemplateVariant(req.user!.id, req.params.id, req.params.variantId);
+
+      if (!found) {
+        return res.status(404).json({ message: "Template variant not found" });
+      }
+
+      const { template, variant: existing } = found;
+      const updates = updateTemplateVariantSchema.parse(req.body);
+      if (updates.content !== undefined) {
+        extractVariables(updates.content);
+      }
+      await checkTrafficSplit(template.id, {
+        id: existing.id,
+        weight: updates.weight ?? existing.weight,
+        isActive: updates.isActive ?? existing.isActive ?? true,
+      });
+
+      const variant = await storage.updateTemplateVariant(existing.id, updates);
+      res.json(variant);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update template variant", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route DELETE /api/templates/:id/variants/:variantId
+   * @description Deletes an A/B test variant of a template owned by the current user.
+   * @param {Request} req - The request object, containing the template and variant IDs in the params.
+   * @returns {Response} A 204 No Content response on success.
+   */
+  app.delete("/api/templates/:id/variants/:variantId", async (req, res) => {
+    try {
+      const found = await findOwnedTemplateVariant(req.user!.id, req.params.id, req.params.variantId);
+
+      if (!found) {
+        return res.status(404).json({ message: "Template variant not found" });
+      }
+
+      await storage.deleteTemplateVariant(found.variant.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete template variant" });
+    }
+  });
+
+  /**
+   * @route POST /api/templates/:id/variants/:variantId/promote
+   * @description Makes a variant the content of its template, as a new version, and ends the A/B test.
+   * @param {Request} req - The request object, containing the template and variant IDs in the params.
+   * @returns {Response} A JSON response with the updated template.
+   */
+  app.post("/api/templates/:id/variants/:variantId/promote", async (req, res) => {
+    try {
+      const found = await findOwnedTemplateVariant(req.user!.id, req.params.id, req.params.variantId);
+
+      if (!found) {
+        return res.status(404).json({ message: "Template variant not found" });
+      }
+
+      res.json(await promoteVariant(found.template, found.variant, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to promote template variant" });
+    }
+  });
+
   /**
    * @route DELETE /api/templates/:id
-   * @description Deletes a template.
+   * @description Deletes a template owned by the current user.
    * @param {Request} req - The request object, containing the template ID in the params.
    * @returns {Response} A 204 No Content response on success.
    */
   app.delete("/api/templates/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteTemplate(id);
+      const template = await findOwnedTemplate(req.user!.id, id);
       
-      if (!deleted) {
+      if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
       
+      await storage.deleteTemplate(id);
+      await recordTemplateDeleted(template);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete template" });
@@ -121,80 +560,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route GET /api/inquiries
-   * @description Fetches all inquiries for the demo user.
-   * @returns {Response} A JSON response with the list of inquiries.
+   * @description Fetches one page of the current user's inquiries, filtered by category, priority, source, date range
+   * and answered state, and sorted by date or priority.
+   * @param {Request} req - The request object, with the filters, `page`, `pageSize`, `sortBy` and `sortOrder` in the query string.
+   * @returns {Response} A JSON response with the inquiries on the page and the total number of matches.
    */
   app.get("/api/inquiries", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const user = req.user!;
+      const query = inquiryQuerySchema.parse(req.query);
+      const page = await storage.queryInquiries(user.id, query);
+      res.json(page);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to fetch inquiries", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route GET /api/inquiries/:id
+   * @description Fetches an inquiry with all responses to it.
+   * @param {string} id - The ID of the inquiry.
+   * @returns {Response} A JSON response with the inquiry and its responses.
+   */
+  app.get("/api/inquiries/:id", async (req, res) => {
+    try {
+      const user = req.user!;
+      const inquiry = await findOwnedInquiry(user.id, req.params.id);
+      if (!inquiry) {
+        return res.status(404).json({ message: "Inquiry not found" });
       }
-      
-      const inquiries = await storage.getInquiries(user.id);
-      res.json(inquiries);
+
+      const responses = await storage.getResponses(inquiry.id);
+      res.json({ ...inquiry, responses });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch inquiry" });
+    }
+  });
+
+  /**
+   * @route GET /api/conversations
+   * @description Fetches one page of the current user's conversations, the one with the latest message first.
+   * Inquiries stored before conversations existed are added to conversations first.
+   * @param {Request} req - The request object, with `page` and `pageSize` in the query string.
+   * @returns {Response} A JSON response with the conversations on the page and the total number.
+   */
+  app.get("/api/conversations", async (req, res) => {
+    try {
+      const user = req.user!;
+      const query = conversationQuerySchema.parse(req.query);
+      await threadUnassignedInquiries(user.id);
+      const page = await storage.queryConversations(user.id, query);
+      res.json(page);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch inquiries" });
+      res.status(400).json({ message: "Failed to fetch conversations", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route GET /api/conversations/:id
+   * @description Fetches a conversation with its inquiries, oldest first, and the responses to them.
+   * @param {string} id - The ID of the conversation.
+   * @returns {Response} A JSON response with the conversation and its messages.
+   */
+  app.get("/api/conversations/:id", async (req, res) => {
+    try {
+      const conversation = await findOwnedConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const inquiries = await storage.getInquiriesByConversation(conversation.id);
+      const withResponses = await Promise.all(inquiries.map(async (inquiry) => ({
+        ...inquiry,
+        responses: await storage.getResponses(inquiry.id),
+      })));
+      res.json({ ...conversation, inquiries: withResponses });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  /**
+   * @route POST /api/inquiries/:id/classify
+   * @description Classifies an inquiry again and stores the new category, priority and classification.
+   * @param {string} id - The ID of the inquiry.
+   * @returns {Response} A JSON response with the updated inquiry.
+   */
+  app.post("/api/inquiries/:id/classify", async (req, res) => {
+    try {
+      const user = req.user!;
+      const inquiry = await findOwnedInquiry(user.id, req.params.id);
+      if (!inquiry) {
+        return res.status(404).json({ message: "Inquiry not found" });
+      }
+
+      const updated = await reclassifyInquiry(inquiry);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to classify inquiry" });
     }
   });
 
   /**
    * @route POST /api/inquiries
    * @description Creates a new inquiry, classifies it using AI, and generates an automated response if applicable.
+   * The response is only sent right away when the user's AI settings allow it; otherwise it is kept as a draft.
    * @param {Request} req - The request object, containing the inquiry data in the body.
    * @returns {Response} A JSON response with the newly created inquiry.
    */
   app.post("/api/inquiries", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      const templates = await storage.getTemplates(user.id);
-      
-      // Classify the inquiry using AI
-      const classification = await classifyInquiry(
-        req.body.subject || "",
-        req.body.content,
-        templates
-      );
-
-      const validatedData = insertInquirySchema.parse({
-        ...req.body,
-        userId: user.id,
-        category: classification.category,
-        priority: classification.priority,
-        aiClassification: classification
-      });
-      
-      const inquiry = await storage.createInquiry(validatedData);
-
-      // Auto-generate response if template is suggested
-      if (classification.suggestedTemplateId) {
-        const template = await storage.getTemplate(classification.suggestedTemplateId);
-        if (template) {
-          const responseGeneration = await generateResponse(
-            inquiry.content,
-            template.content,
-            {}
-          );
-
-          await storage.createResponse({
-            inquiryId: inquiry.id,
-            templateId: template.id,
-            content: responseGeneration.content,
-            isAutomated: true,
-            wasModified: false
-          });
-
-          // Update template usage stats
-          await storage.updateTemplate(template.id, {
-            timesUsed: (template.timesUsed || 0) + 1
-          });
-        }
-      }
-      
+      const user = req.user!;
+      const input = inquiryInputSchema.parse(req.body);
+      const { inquiry } = await processInquiry(user.id, input);
       res.status(201).json(inquiry);
     } catch (error) {
       res.status(400).json({ message: "Failed to create inquiry", error: error instanceof Error ? error.message : 'Unknown error' });
@@ -205,16 +683,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route GET /api/responses
-   * @description Fetches all responses for the demo user.
+   * @description Fetches all responses for the current user.
    * @returns {Response} A JSON response with the list of responses.
    */
   app.get("/api/responses", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
+      const user = req.user!;
       const responses = await storage.getResponsesByUser(user.id);
       res.json(responses);
     } catch (error) {
@@ -222,42 +696,222 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * @route GET /api/responses/pending
+   * @description Fetches the draft responses of the current user that wait for review, each with its inquiry.
+   * @returns {Response} A JSON response with the list of drafts, oldest first.
+   */
+  app.get("/api/responses/pending", async (req, res) => {
+    try {
+      const user = req.user!;
+      const [responses, inquiries] = await Promise.all([
+        storage.getResponsesByUser(user.id),
+        storage.getInquiries(user.id)
+      ]);
+      const inquiriesById = new Map(inquiries.map(i => [i.id, i]));
+
+      const pending = responses
+        .filter(r => r.status === "draft" && inquiriesById.has(r.inquiryId))
+        .map(r => ({ ...r, inquiry: inquiriesById.get(r.inquiryId)! }))
+        .sort((a, b) => (a.inquiry.createdAt?.getTime() ?? 0) - (b.inquiry.createdAt?.getTime() ?? 0));
+
+      res.json(pending);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pending responses" });
+    }
+  });
+
   /**
    * @route POST /api/responses
-   * @description Creates a new response.
+   * @description Creates a reply written by the current user to one of their inquiries. Only the inquiry, template,
+   * content and status are read from the body; the variant and outcome fields are set here.
    * @param {Request} req - The request object, containing the response data in the body.
    * @returns {Response} A JSON response with the newly created response.
    */
   app.post("/api/responses", async (req, res) => {
     try {
-      const validatedData = insertResponseSchema.parse(req.body);
-      const response = await storage.createResponse(validatedData);
+      const user = req.user!;
+      const validatedData = createResponseSchema.parse(req.body);
+
+      const inquiry = await findOwnedInquiry(user.id, validatedData.inquiryId);
+      if (!inquiry) {
+        return res.status(404).json({ message: "Inquiry not found" });
+      }
+
+      const template = validatedData.templateId
+        ? await findOwnedTemplate(user.id, validatedData.templateId)
+        : undefined;
+      if (validatedData.templateId && !template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      // Replies written by hand go out right away unless explicitly saved as a draft
+      let response = await storage.createResponse({
+        ...validatedData,
+        templateVersion: template?.version ?? null,
+        variantId: null,
+        status: validatedData.status === "draft" ? "draft" : "approved",
+        reviewReason: null,
+        isAutomated: false,
+        wasModified: false,
+        customerFeedback: null,
+        success: null
+      });
+      if (response.status === "approved") {
+        response = await deliverResponse(response);
+      } else {
+        publishLiveEvent(user.id, { type: "draft-created", responseId: response.id, inquiryId: inquiry.id });
+      }
       res.status(201).json(response);
     } catch (error) {
       res.status(400).json({ message: "Failed to create response", error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
 
+  /**
+   * @route PUT /api/responses/:id
+   * @description Edits the content of a draft response and marks it as modified.
+   * @param {Request} req - The request object, containing the response ID in the params and the new content in the body.
+   * @returns {Response} A JSON response with the updated response.
+   */
+  app.put("/api/responses/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await findOwnedResponse(req.user!.id, id);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+
+      if (existing.status !== "draft") {
+        return res.status(409).json({ message: "Only draft responses can be edited" });
+      }
+
+      const { content } = editResponseSchema.parse(req.body);
+      const response = await storage.updateResponse(id, {
+        content,
+        wasModified: existing.wasModified || content !== existing.content
+      });
+      res.json(response);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update response", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route POST /api/responses/:id/approve
+   * @description Approves a draft response and hands it over for delivery.
+   * @param {Request} req - The request object, containing the response ID in the params.
+   * @returns {Response} A JSON response with the updated response.
+   */
+  app.post("/api/responses/:id/approve", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await findOwnedResponse(req.user!.id, id);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+
+      if (existing.status !== "draft") {
+        return res.status(409).json({ message: "Only draft responses can be approved" });
+      }
+
+      const approved = await storage.updateResponse(id, {
+        status: "approved",
+        reviewedAt: new Date()
+      });
+      const response = await deliverResponse(approved!);
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to approve response" });
+    }
+  });
+
+  /**
+   * @route POST /api/responses/:id/reject
+   * @description Rejects a draft response so it is never sent.
+   * @param {Request} req - The request object, containing the response ID in the params.
+   * @returns {Response} A JSON response with the updated response.
+   */
+  app.post("/api/responses/:id/reject", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await findOwnedResponse(req.user!.id, id);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+
+      if (existing.status !== "draft") {
+        return res.status(409).json({ message: "Only draft responses can be rejected" });
+      }
+
+      const response = await storage.updateResponse(id, {
+        status: "rejected",
+        reviewedAt: new Date()
+      });
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject response" });
+    }
+  });
+
+  /**
+   * @route POST /api/responses/:id/retry-delivery
+   * @description Sends a reply whose delivery failed for good once more, with a fresh set of attempts.
+   * @param {Request} req - The request object, containing the response ID in the params.
+   * @returns {Response} A JSON response with the updated response.
+   */
+  app.post("/api/responses/:id/retry-delivery", async (req, res) => {
+    try {
+      const existing = await findOwnedResponse(req.user!.id, req.params.id);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+
+      if (existing.deliveryStatus !== "failed") {
+        return res.status(409).json({ message: "Only failed deliveries can be retried" });
+      }
+
+      const response = await retryDelivery(existing);
+      res.json(response);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to retry delivery", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   /**
    * @route PUT /api/responses/:id/feedback
-   * @description Updates a response with customer feedback.
+   * @description Updates a response with customer feedback. If its template runs an A/B test with automatic promotion, a winning variant is promoted.
+   * The analytics of the day the response was sent are rebuilt, so the rating counts toward that day's satisfaction.
    * @param {Request} req - The request object, containing the response ID in the params and feedback data in the body.
    * @returns {Response} A JSON response with the updated response.
    */
   app.put("/api/responses/:id/feedback", async (req, res) => {
     try {
       const { id } = req.params;
-      const { customerFeedback, success } = req.body;
+      const existing = await findOwnedResponse(req.user!.id, id);
       
+      if (!existing) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      
+      const { customerFeedback, success } = responseFeedbackSchema.parse(req.body);
       const response = await storage.updateResponse(id, {
         customerFeedback,
         success
       });
-      
-      if (!response) {
-        return res.status(404).json({ message: "Response not found" });
+
+      if (existing.templateId) {
+        await storage.refreshTemplateStats(existing.templateId);
+        await autoPromoteWinner(existing.templateId);
+      }
+      // the rating counts toward the satisfaction of the day the reply was sent, however long ago
+      if (existing.sentAt) {
+        await aggregateUserAnalytics(req.user!.id, existing.sentAt, existing.sentAt);
       }
-      
       res.json(response);
     } catch (error) {
       res.status(400).json({ message: "Failed to update response feedback" });
@@ -268,17 +922,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route GET /api/analytics
-   * @description Fetches analytics data for the demo user.
+   * @description Fetches analytics data for the current user.
    * @param {Request} req - The request object, optionally containing the number of days for the analytics period in the query.
    * @returns {Response} A JSON response with the analytics data.
    */
   app.get("/api/analytics", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
+      const user = req.user!;
       const days = req.query.days ? parseInt(req.query.days as string) : 30;
       const analytics = await storage.getAnalytics(user.id, days);
       res.json(analytics);
@@ -287,56 +937,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * @route POST /api/analytics/backfill
+   * @description Rebuilds the current user's daily analytics from their inquiries and responses.
+   * @param {Request} req - The request object, optionally containing the `from` and `to` days in the body.
+   * @returns {Response} A JSON response with the rebuilt range and the number of days.
+   */
+  app.post("/api/analytics/backfill", async (req, res) => {
+    try {
+      const range = analyticsBackfillSchema.parse(req.body ?? {});
+      const result = await backfillAnalytics(req.user!.id, range);
+      res.json(result);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to backfill analytics", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   /**
    * @route GET /api/analytics/summary
-   * @description Fetches a summary of analytics data for the demo user.
+   * @description Summarizes the current user's analytics over a period and compares each metric with the period before it.
+   * @param {Request} req - The request object, optionally containing the first (`from`) and last (`to`) day of the period in the query.
    * @returns {Response} A JSON response with the analytics summary.
    */
   app.get("/api/analytics/summary", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
-      const analytics = await storage.getAnalytics(user.id, 7);
-      const templates = await storage.getTemplates(user.id);
-      const responses = await storage.getResponsesByUser(user.id);
-      
-      const summary = {
-        responseRate: analytics.length > 0 ? 
-          (analytics.reduce((sum, a) => sum + (a.automatedResponses || 0), 0) / 
-           analytics.reduce((sum, a) => sum + (a.totalInquiries || 0), 0) * 100) : 0,
-        timeSaved: analytics.reduce((sum, a) => sum + (a.timeSaved || 0), 0),
-        customerSatisfaction: analytics.length > 0 ?
-          analytics.reduce((sum, a) => sum + (a.customerSatisfaction || 0), 0) / analytics.length / 20 : 0,
-        activeTemplates: templates.filter(t => t.isActive).length,
-        weeklyInquiries: analytics.reduce((sum, a) => sum + (a.totalInquiries || 0), 0),
-        weeklyResponses: analytics.reduce((sum, a) => sum + (a.automatedResponses || 0), 0)
-      };
-      
+      const query = analyticsSummaryQuerySchema.parse(req.query);
+      const summary = await getAnalyticsSummary(req.user!.id, query);
       res.json(summary);
     } catch (error) {
+      if (error instanceof ZodError || error instanceof AnalyticsPeriodError) {
+        return res.status(400).json({ message: "Failed to fetch analytics summary", error: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch analytics summary" });
     }
   });
 
+  // --- Export routes ---
+
+  /**
+   * @route GET /api/export/:dataset
+   * @description Downloads the current user's analytics, inquiries or responses over a range of days, as CSV or JSON. The file is streamed a batch of records at a time.
+   * @param {Request} req - The request object, containing the data set in the params and the `format`, `from` and `to` in the query.
+   * @returns {Response} The export file.
+   */
+  app.get("/api/export/:dataset", async (req, res) => {
+    let dataset: ExportDataset;
+    let query: ExportQuery;
+    try {
+      dataset = exportDatasetSchema.parse(req.params.dataset);
+      query = exportQuerySchema.parse(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: "Invalid export request", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    try {
+      await streamExport(res, req.user!.id, dataset, query);
+    } catch (error) {
+      log(`Failed to export ${dataset}: ${error instanceof Error ? error.message : String(error)}`, "export");
+      // once the file has started, the only way to signal the failure is to cut it off
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to export data" });
+      }
+    }
+  });
+
   // --- Integrations routes ---
 
   /**
    * @route GET /api/integrations
-   * @description Fetches all integrations for the demo user.
+   * @description Fetches all integrations for the current user. Secret credentials are left out.
    * @returns {Response} A JSON response with the list of integrations.
    */
   app.get("/api/integrations", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
+      const user = req.user!;
       const integrations = await storage.getIntegrations(user.id);
-      res.json(integrations);
+      res.json(integrations.map(toPublicIntegration));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch integrations" });
     }
@@ -344,24 +1022,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route POST /api/integrations
-   * @description Creates a new integration for the demo user.
+   * @description Creates a new integration for the current user. The credentials and settings are checked for the
+   * platform; credentials may be left out and saved later with `PUT /api/integrations/:id`.
    * @param {Request} req - The request object, containing the integration data in the body.
    * @returns {Response} A JSON response with the newly created integration.
    */
   app.post("/api/integrations", async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const user = req.user!;
 
-      const validatedData = insertIntegrationSchema.parse({
-        ...req.body,
-        userId: user.id
-      });
+      const validatedData = createIntegrationSchema.parse(req.body);
       
-      const integration = await storage.createIntegration(validatedData);
-      res.status(201).json(integration);
+      const integration = await storage.createIntegration({ ...validatedData, userId: user.id });
+      if (integration.isActive) {
+        await recordIntegrationConnected(integration);
+      }
+      res.status(201).json(toPublicIntegration(integration));
     } catch (error) {
       res.status(400).json({ message: "Failed to create integration", error: error instanceof Error ? error.message : 'Unknown error' });
     }
@@ -369,47 +1045,263 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   /**
    * @route PUT /api/integrations/:id
-   * @description Updates an existing integration.
+   * @description Updates an integration owned by the current user. Credentials are merged into the stored ones, and
+   * secrets left out of the update are kept.
    * @param {Request} req - The request object, containing the integration ID in the params and the update data in the body.
    * @returns {Response} A JSON response with the updated integration.
    */
   app.put("/api/integrations/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const integration = await storage.updateIntegration(id, req.body);
+      const existing = await findOwnedIntegration(req.user!.id, id);
       
-      if (!integration) {
+      if (!existing) {
         return res.status(404).json({ message: "Integration not found" });
       }
       
-      res.json(integration);
+      const updates = updateIntegrationSchema.parse(req.body);
+      if (updates.credentials !== undefined) {
+        updates.credentials = mergeCredentials(existing.credentials, updates.credentials);
+      }
+      if (isEmailIntegration(existing)) {
+        // only complete IMAP details are saved, so the poller never works with half a configuration
+        if (updates.credentials !== undefined) emailCredentialsSchema.parse(updates.credentials);
+        if (updates.settings !== undefined) emailSettingsSchema.parse(updates.settings);
+      }
+      if (isSlackIntegration(existing)) {
+        if (updates.credentials !== undefined) slackCredentialsSchema.parse(updates.credentials);
+        if (updates.settings !== undefined) chatSettingsSchema.parse(updates.settings);
+      }
+      if (isTelegramIntegration(existing)) {
+        if (updates.credentials !== undefined) telegramCredentialsSchema.parse(updates.credentials);
+        if (updates.settings !== undefined) chatSettingsSchema.parse(updates.settings);
+      }
+      if (isDiscordIntegration(existing)) {
+        if (updates.credentials !== undefined) discordCredentialsSchema.parse(updates.credentials);
+        if (updates.settings !== undefined) chatSettingsSchema.parse(updates.settings);
+      }
+      const integration = await storage.updateIntegration(id, updates);
+      if (integration?.isActive && !existing.isActive) {
+        await recordIntegrationConnected(integration);
+      }
+      res.json(integration && toPublicIntegration(integration));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update integration", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route POST /api/integrations/:id/sync
+   * @description Reads the new mail of an email integration owned by the current user right away, instead of waiting
+   * for the poller. New messages become inquiries through the same pipeline as `POST /api/inquiries`.
+   * @param {Request} req - The request object, containing the integration ID in the params.
+   * @returns {Response} A JSON response with the numbers of imported, duplicate and skipped messages.
+   */
+  app.post("/api/integrations/:id/sync", async (req, res) => {
+    try {
+      const integration = await findOwnedIntegration(req.user!.id, req.params.id);
+
+      if (!integration) {
+        return res.status(404).json({ message: "Integration not found" });
+      }
+
+      if (!isEmailIntegration(integration)) {
+        return res.status(400).json({ message: "Only email integrations can be synced" });
+      }
+
+      const result = await syncEmailIntegration(integration);
+      res.json(result);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to sync integration", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route POST /api/integrations/:id/test
+   * @description Tests the saved credentials of a chat integration owned by the current user. For Telegram this also
+   * registers the webhook, and for Discord the `/ask` command, so the platform starts sending messages here.
+   * @param {Request} req - The request object, containing the integration ID in the params.
+   * @returns {Response} A JSON response with a description of the connection.
+   */
+  app.post("/api/integrations/:id/test", async (req, res) => {
+    try {
+      const integration = await findOwnedIntegration(req.user!.id, req.params.id);
+
+      if (!integration) {
+        return res.status(404).json({ message: "Integration not found" });
+      }
+
+      if (!canTestConnection(integration)) {
+        return res.status(400).json({ message: "Only chat integrations have a connection test" });
+      }
+
+      const message = await testConnection(integration, `${req.protocol}://${req.get("host")}`);
+      res.json({ message });
+    } catch (error) {
+      res.status(400).json({ message: "Connection test failed", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // --- Settings routes ---
+
+  /**
+   * @route GET /api/settings
+   * @description Fetches the profile, AI and notification settings of the current user.
+   * @returns {Response} A JSON response with the settings.
+   */
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await getSettings(req.user!.id);
+      res.json(settings);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update integration" });
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  /**
+   * @route PUT /api/settings/profile
+   * @description Saves the profile settings of the current user.
+   * @param {Request} req - The request object, containing the profile settings in the body.
+   * @returns {Response} A JSON response with the saved profile settings.
+   */
+  app.put("/api/settings/profile", async (req, res) => {
+    try {
+      const profile = profileSchema.parse(req.body);
+      const saved = await updateSettings(req.user!.id, "profile", profile);
+      res.json(saved);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to save profile settings", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route PUT /api/settings/ai
+   * @description Saves the AI automation settings of the current user.
+   * @param {Request} req - The request object, containing the AI settings in the body.
+   * @returns {Response} A JSON response with the saved AI settings.
+   */
+  app.put("/api/settings/ai", async (req, res) => {
+    try {
+      const ai = aiSettingsSchema.parse(req.body);
+      const saved = await updateSettings(req.user!.id, "ai", ai);
+      res.json(saved);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to save AI settings", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * @route PUT /api/settings/notifications
+   * @description Saves the notification settings of the current user.
+   * @param {Request} req - The request object, containing the notification settings in the body.
+   * @returns {Response} A JSON response with the saved notification settings.
+   */
+  app.put("/api/settings/notifications", async (req, res) => {
+    try {
+      const notifications = notificationSchema.parse(req.body);
+      const saved = await updateSettings(req.user!.id, "notifications", notifications);
+      res.json(saved);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to save notification settings", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // --- Activity routes ---
+
+  /**
+   * @route GET /api/activity
+   * @description Fetches one page of the current user's activity log, newest first.
+   * @param {Request} req - The request object, with `page` and `pageSize` in the query string.
+   * @returns {Response} A JSON response with the events on the page and the total number of events.
+   */
+  app.get("/api/activity", async (req, res) => {
+    try {
+      const query = activityQuerySchema.parse(req.query);
+      const page = await storage.getActivityEvents(req.user!.id, query);
+      res.json(page);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to fetch activity", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // --- Live events routes ---
+
+  /**
+   * @route GET /api/events
+   * @description Streams the current user's live events as Server-Sent Events: new inquiries, new drafts, sent
+   * responses and integration errors. The stream stays open until the client disconnects.
+   * @returns {Response} A `text/event-stream` response with one `data:` line of JSON per event.
+   */
+  app.get("/api/events", (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribeToLiveEvents(req.user!.id, (event) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_STREAM_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // --- Search routes ---
+
+  /**
+   * @route GET /api/search
+   * @description Searches the current user's inquiries, responses and templates using full-text search.
+   * @param {Request} req - The request object, with the search query in `q` and an optional `limit`.
+   * @returns {Response} A JSON response with the ranked hits and their highlighted snippets.
+   */
+  app.get("/api/search", async (req, res) => {
+    try {
+      const { q, limit } = searchQuerySchema.parse(req.query);
+      const results = await storage.search(req.user!.id, q, limit);
+      res.json(results);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to search", error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
 
   // --- AI Learning routes ---
 
+  /**
+   * @route GET /api/ai/experiments
+   * @description Reports the A/B tests of the current user's templates: the outcomes of each variant against the template's content, and their significance.
+   * @returns {Response} A JSON response with one report per template that has active variants.
+   */
+  app.get("/api/ai/experiments", async (req, res) => {
+    try {
+      const templates = await storage.getTemplates(req.user!.id);
+      const reports = await Promise.all(templates.map((template) => getExperimentReport(template)));
+      res.json(reports.filter((report) => report.arms.length > 1));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch experiments" });
+    }
+  });
+
   /**
    * @route POST /api/ai/classify
-   * @description Classifies an inquiry using AI.
+   * @description Classifies an inquiry with the LLM or the rule-based classifier, depending on the user's settings.
    * @param {Request} req - The request object, containing the inquiry subject and content in the body.
    * @returns {Response} A JSON response with the classification result.
    */
   app.post("/api/ai/classify", async (req, res) => {
     try {
-      const { subject, content } = req.body;
-      const user = await storage.getUserByUsername(DEMO_USER_ID);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
-      const templates = await storage.getTemplates(user.id);
-      const classification = await classifyInquiry(subject, content, templates);
+      const { subject, content } = inquiryInputSchema.pick({ subject: true, content: true }).parse(req.body);
+      const user = req.user!;
+      const classification = await classifyForUser(user.id, subject || "", content);
       
       res.json(classification);
     } catch (error) {
-      res.status(500).json({ message: "Failed to classify inquiry" });
+      res.status(400).json({ message: "Failed to classify inquiry", error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
 
@@ -422,13 +1314,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/ai/generate-response", async (req, res) => {
     try {
       const { inquiryContent, templateId, variables } = req.body;
-      const template = await storage.getTemplate(templateId);
+      const template = await findOwnedTemplate(req.user!.id, templateId);
       
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
       
-      const response = await generateResponse(inquiryContent, template.content, variables);
+      const llm = await getLLMForUser(req.user!.id);
+      const response = await generateResponse(inquiryContent, template.content, variables, llm);
       res.json(response);
     } catch (error) {
       res.status(500).json({ message: "Failed to generate response" });
@@ -444,22 +1337,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/ai/improve-template/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const template = await storage.getTemplate(id);
+      const template = await findOwnedTemplate(req.user!.id, id);
       
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
       
-      const responses = await storage.getResponsesByUser(template.userId);
-      const templateResponses = responses.filter(r => r.templateId === id);
-      
-      const feedbackData = templateResponses.map(r => ({
-        success: r.success || false,
-        customerFeedback: r.customerFeedback || undefined,
-        responseTime: 0 // Would calculate from actual data
-      }));
+      const [responses, inquiries] = await Promise.all([
+        storage.getResponsesByTemplate(id),
+        storage.getInquiries(template.userId),
+      ]);
+      const receivedAt = new Map(inquiries.map((inquiry) => [inquiry.id, inquiry.createdAt]));
+
+      // the response time is the number of seconds from the inquiry arriving to the reply being sent
+      const feedbackData = responses
+        .filter((r) => r.status === "sent")
+        .map((r) => {
+          const received = receivedAt.get(r.inquiryId);
+          return {
+            success: r.success || false,
+            customerFeedback: r.customerFeedback || undefined,
+            responseTime: received && r.sentAt
+              ? Math.max(0, Math.round((r.sentAt.getTime() - received.getTime()) / 1000))
+              : undefined,
+          };
+        });
       
-      const improvement = await improveTemplate(template.content, feedbackData);
+      const llm = await getLLMForUser(req.user!.id);
+      const improvement = await improveTemplate(template.content, feedbackData, llm);
       res.json(improvement);
     } catch (error) {
       res.status(500).json({ message: "Failed to improve template" });
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview This file contains an in-memory full-text index used by
+ * `MemStorage`. It mirrors what the database storage gets from Postgres
+ * full-text search: English stop words are dropped, words are reduced to a
+ * simple stem, every query word has to match, hits are ranked by term
+ * frequency, and snippets highlight the matched words.
+ */
+
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "@shared/search";
+import type { SearchResult, SearchResultType } from "@shared/schema";
+
+/**
+ * A record to be indexed.
+ */
+export interface SearchDocument {
+  type: SearchResultType;
+  id: string;
+  userId: string;
+  inquiryId: string | null;
+  /** Shown as the title of the hit and weighted higher than the body. */
+  title: string;
+  /** Searched and used for the snippet. */
+  body: string;
+}
+
+interface IndexedDocument extends SearchDocument {
+  terms: string[];
+  length: number;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "i", "in", "is", "it", "me", "my", "of", "on", "or", "our", "so", "that", "the",
+  "this", "to", "was", "we", "were", "will", "with", "you", "your",
+]);
+
+const TITLE_WEIGHT = 2;
+const SNIPPET_WORDS = 30;
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\u024F]+(?:'[A-Za-z\u00C0-\u024F]+)?/g;
+
+/**
+ * Reduces a word to a simple stem, so that "projects", "project's" and
+ * "project" match each other.
+ * @param {string} word - The lowercase word.
+ * @returns {string} The stem.
+ */
+function stem(word: string): string {
+  word = word.replace(/'s$/, "");
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Splits text into the stems that are indexed.
+ * @param {string} text - The text to split.
+ * @returns {string[]} The stems, in order, without stop words.
+ */
+export function tokenize(text: string): string[] {
+  return Array.from(text.toLowerCase().matchAll(WORD_PATTERN))
+    .map((match) => match[0])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Cuts a snippet around the first matched word and marks every matched word.
+ * @param {string} text - The text to cut the snippet from.
+ * @param {Set<string>} terms - The stems of the query.
+ * @returns {string} The snippet.
+ */
+function buildSnippet(text: string, terms: Set<string>): string {
+  const words = Array.from(text.matchAll(WORD_PATTERN));
+  if (words.length === 0) {
+    return "";
+  }
+
+  const isMatch = (word: string) => {
+    const lower = word.toLowerCase();
+    return !STOP_WORDS.has(lower) && terms.has(stem(lower));
+  };
+  const first = Math.max(0, words.findIndex((word) => isMatch(word[0])));
+  const start = Math.max(0, first - Math.floor(SNIPPET_WORDS / 4));
+  const window = words.slice(start, start + SNIPPET_WORDS);
+
+  let snippet = "";
+  let position = window[0].index!;
+  for (const word of window) {
+    snippet += text.slice(position, word.index);
+    snippet += isMatch(word[0]) ? `${HIGHLIGHT_START}${word[0]}${HIGHLIGHT_END}` : word[0];
+    position = word.index! + word[0].length;
+  }
+
+  return snippet;
+}
+
+/**
+ * An inverted index from stems to the documents that contain them.
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+
+  /**
+   * Adds a document to the index, replacing an earlier version of it.
+   * @param {SearchDocument} document - The document to index.
+   */
+  upsert(document: SearchDocument): void {
+    const key = `${document.type}:${document.id}`;
+    this.removeKey(key);
+
+    const frequencies = new Map<string, number>();
+    const titleTerms = tokenize(document.title);
+    const bodyTerms = tokenize(document.body);
+    for (const term of titleTerms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + TITLE_WEIGHT);
+    }
+    for (const term of bodyTerms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+
+    for (const [term, frequency] of Array.from(frequencies)) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(key, frequency);
+    }
+
+    this.documents.set(key, {
+      ...document,
+      terms: Array.from(frequencies.keys()),
+      length: titleTerms.length + bodyTerms.length,
+    });
+  }
+
+  /**
+   * Removes a document from the index.
+   * @param {SearchResultType} type - The type of the document.
+   * @param {string} id - The ID of the document.
+   */
+  remove(type: SearchResultType, id: string): void {
+    this.removeKey(`${type}:${id}`);
+  }
+
+  /**
+   * Finds the documents of a user that contain every word of the query.
+   * @param {string} userId - The ID of the user.
+   * @param {string} query - The search query.
+   * @param {number} limit - The maximum number of hits.
+   * @returns {SearchResult[]} The hits, best first.
+   */
+  search(userId: string, query: string, limit: number): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<string, number>();
+    for (let index = 0; index < terms.length; index++) {
+      const term = terms[index];
+      const postings = this.postings.get(term);
+      if (!postings) {
+        return [];
+      }
+
+      const idf = Math.log(1 + this.documents.size / postings.size);
+      for (const [key, frequency] of Array.from(postings)) {
+        // keep only documents that matched every earlier term
+        if (index > 0 && !scores.has(key)) continue;
+        scores.set(key, (scores.get(key) ?? 0) + frequency * idf);
+      }
+      for (const key of Array.from(scores.keys())) {
+        if (!postings.has(key)) scores.delete(key);
+      }
+    }
+
+    const termSet = new Set(terms);
+    return Array.from(scores)
+      .map(([key, score]) => ({ document: this.documents.get(key)!, score }))
+      .filter(({ document }) => document.userId === userId)
+      .map(({ document, score }) => ({
+        type: document.type,
+        id: document.id,
+        inquiryId: document.inquiryId,
+        title: document.title,
+        snippet: buildSnippet(document.body, termSet),
+        rank: score / (1 + Math.log(1 + document.length)),
+      }))
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+
+  private removeKey(key: string): void {
+    const document = this.documents.get(key);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.terms) {
+      const postings = this.postings.get(term);
+      postings?.delete(key);
+      if (postings?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(key);
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * @fileoverview This file is the entry point of the `db:seed` command. It
+ * populates the configured storage backend with the demo data.
+ */
+
+import { storage } from "./storage";
+import { seedDemoData } from "./demo-data";
+
+(async () => {
+  try {
+    const created = await seedDemoData(storage);
+    console.log(created ? "Demo data created" : "Demo data already present, skipping");
+    process.exit(0);
+  } catch (error) {
+    console.error("Failed to seed demo data:", error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview This file contains the activity log. The server records an
+ * event here whenever something worth showing on the dashboard happens: a
+ * reply is sent, a template changes, an integration connects or syncs, or the
+ * AI improves a template. Recording is best effort; a failure is logged and
+ * never fails the action that caused it.
+ */
+
+import { storage } from "../storage";
+import type {
+  ActivityEvent,
+  Inquiry,
+  InsertActivityEvent,
+  Integration,
+  Response,
+  Template,
+  TemplateRevision,
+} from "@shared/schema";
+
+/**
+ * Records an activity event.
+ * @param {InsertActivityEvent} event - The event.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event, or undefined if it could not be recorded.
+ */
+export async function recordActivity(event: InsertActivityEvent): Promise<ActivityEvent | undefined> {
+  try {
+    return await storage.createActivityEvent(event);
+  } catch (error) {
+    console.error(`Failed to record ${event.type} activity for user ${event.userId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Records a sent reply. Replies the pipeline sent without review are
+ * auto-replies; everything a person wrote or approved is a manual reply.
+ * @param {Response} response - The sent reply.
+ * @param {Inquiry} inquiry - The inquiry it answers.
+ * @param {Template} [template] - The template it was made from, if any.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event.
+ */
+export function recordReply(response: Response, inquiry: Inquiry, template?: Template): Promise<ActivityEvent | undefined> {
+  const automatic = !!response.isAutomated && !response.reviewedAt;
+  const recipient = inquiry.sender || "a customer";
+  const subject = inquiry.subject ? `"${inquiry.subject}"` : "an inquiry without a subject";
+
+  return recordActivity({
+    userId: inquiry.userId,
+    type: automatic ? "auto-reply" : "manual-reply",
+    title: automatic ? `Auto-replied to ${recipient}` : `Replied to ${recipient}`,
+    description: template ? `Re: ${subject}, using template "${template.name}"` : `Re: ${subject}`,
+    inquiryId: inquiry.id,
+    templateId: template?.id ?? null,
+    metadata: { responseId: response.id, ...(response.wasModified && { edited: true }) },
+  });
+}
+
+/**
+ * Records a new template.
+ * @param {Template} template - The template.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event.
+ */
+export function recordTemplateCreated(template: Template): Promise<ActivityEvent | undefined> {
+  return recordActivity({
+    userId: template.userId,
+    type: "template-created",
+    title: `Template "${template.name}" created`,
+    description: template.category ? `In ${template.category}` : "Ready to use in replies",
+    templateId: template.id,
+    metadata: { version: template.version },
+  });
+}
+
+/**
+ * Records a deleted template. The event keeps the template's name, since the
+ * template itself is gone.
+ * @param {Template} template - The template, as it was before it was deleted.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event.
+ */
+export function recordTemplateDeleted(template: Template): Promise<ActivityEvent | undefined> {
+  return recordActivity({
+    userId: template.userId,
+    type: "template-deleted",
+    title: `Template "${template.name}" deleted`,
+    description: `Used ${template.timesUsed ?? 0} ${template.timesUsed === 1 ? "time" : "times"}`,
+    templateId: template.id,
+    metadata: { name: template.name },
+  });
+}
+
+/**
+ * Records a new version or other change of a template. Versions suggested by
+ * the AI are recorded as AI improvements.
+ * @param {Template} template - The template after the change.
+ * @param {TemplateRevision} revision - Who made the change and why.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event.
+ */
+export function recordTemplateChange(template: Template, revision: TemplateRevision): Promise<ActivityEvent | undefined> {
+  const improved = revision.source === "ai-improvement";
+  const fallback: Record<TemplateRevision["source"], string> = {
+    "manual": "Edited by hand",
+    "ai-improvement": "Applied the AI's suggestions",
+    "restore": "Restored an earlier version",
+    "variant": "Promoted an A/B test variant",
+  };
+
+  return recordActivity({
+    userId: template.userId,
+    type: improved ? "ai-improvement" : "template-updated",
+    title: improved ? `Template "${template.name}" improved with AI` : `Template "${template.name}" updated`,
+    description: `${revision.note || fallback[revision.source]} • version ${template.version}`,
+    templateId: template.id,
+    metadata: { version: template.version, source: revision.source },
+  });
+}
+
+/**
+ * Records that an integration was connected.
+ * @param {Integration} integration - The integration.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event.
+ */
+export function recordIntegrationConnected(integration: Integration): Promise<ActivityEvent | undefined> {
+  return recordActivity({
+    userId: integration.userId,
+    type: "integration-connected",
+    title: `${platformName(integration.platform)} integration connected`,
+    description: "New messages will arrive in the inbox",
+    integrationId: integration.id,
+    metadata: { platform: integration.platform },
+  });
+}
+
+/**
+ * Records a sync of an integration that brought in new inquiries.
+ * @param {Integration} integration - The integration.
+ * @param {number} imported - The number of inquiries the sync brought in.
+ * @returns {Promise<ActivityEvent | undefined>} A promise that resolves to the recorded event.
+ */
+export function recordIntegrationSynced(integration: Integration, imported: number): Promise<ActivityEvent | undefined> {
+  return recordActivity({
+    userId: integration.userId,
+    type: "integration-synced",
+    title: `${platformName(integration.platform)} synced`,
+    description: `${imported} new ${imported === 1 ? "inquiry" : "inquiries"} imported`,
+    integrationId: integration.id,
+    metadata: { platform: integration.platform, imported },
+  });
+}
+
+/**
+ * Gets the display name of an integration platform.
+ * @param {string} platform - The platform, as stored.
+ * @returns {string} The platform with a capital first letter.
+ */
+function platformName(platform: string): string {
+  return platform.charAt(0).toUpperCase() + platform.slice(1);
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview This file contains the analytics aggregation job. It rolls up
+ * the inquiries and responses of each user into one analytics row per day,
+ * dated to the start of the day in UTC. Rows are rebuilt from scratch on
+ * every run, so running the job twice for the same days gives the same rows.
+ * The scheduler refreshes yesterday and today every hour; older history is
+ * rebuilt on demand with `backfillAnalytics`.
+ */
+
+import { storage } from "../storage";
+import type { AnalyticsReply, DailyAnalytics, Inquiry } from "@shared/schema";
+
+/** The length of a day, in milliseconds. */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How often the scheduler runs. */
+const SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** The most days a single backfill may rebuild. */
+export const MAX_BACKFILL_DAYS = 730;
+
+/**
+ * The estimated minutes a person needs to write a reply themselves, saved
+ * by each automated reply that is sent as generated.
+ */
+export const MINUTES_SAVED_PER_REPLY = 15;
+
+/** The estimated minutes saved by an automated reply that was edited before sending. */
+export const MINUTES_SAVED_PER_EDITED_REPLY = 8;
+
+/**
+ * Gets the start of the UTC day of a date.
+ * @param {Date} date - The date.
+ * @returns {Date} Midnight UTC of that day.
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Gets the key of the UTC day of a date, used to bucket events by day.
+ * @param {Date} date - The date.
+ * @returns {string} The day, as YYYY-MM-DD.
+ */
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds the analytics row of one day from the events of that day.
+ * @param {string} userId - The ID of the user.
+ * @param {Date} date - The start of the day.
+ * @param {Inquiry[]} received - The inquiries that arrived that day.
+ * @param {AnalyticsReply[]} sent - The replies sent that day.
+ * @returns {DailyAnalytics} The row.
+ */
+function buildDay(userId: string, date: Date, received: Inquiry[], sent: AnalyticsReply[]): DailyAnalytics {
+  const automated = sent.filter(({ response }) => response.isAutomated);
+
+  // the response time of an inquiry is the time to its first reply, in seconds
+  const responseTimes = sent
+    .filter((reply) => reply.firstReply && reply.receivedAt)
+    .map(({ response, receivedAt }) => (response.sentAt!.getTime() - receivedAt!.getTime()) / 1000)
+    .map((seconds) => Math.max(0, seconds));
+
+  // satisfaction is the average rating of the day's replies, as a percentage of 5 stars
+  const ratings = sent
+    .map(({ response }) => response.customerFeedback)
+    .filter((rating): rating is number => rating !== null && rating !== undefined);
+
+  const timeSaved = automated.reduce(
+    (sum, { response }) => sum + (response.wasModified ? MINUTES_SAVED_PER_EDITED_REPLY : MINUTES_SAVED_PER_REPLY),
+    0
+  );
+
+  return {
+    userId,
+    date,
+    totalInquiries: received.length,
+    automatedResponses: automated.length,
+    manualResponses: sent.length - automated.length,
+    averageResponseTime: responseTimes.length > 0
+      ? Math.round(responseTimes.reduce((sum, seconds) => sum + seconds, 0) / responseTimes.length)
+      : null,
+    customerSatisfaction: ratings.length > 0
+      ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length / 5) * 100)
+      : null,
+    timeSaved,
+  };
+}
+
+/**
+ * Rebuilds the daily analytics rows of a user for a range of days. Every day
+ * in the range gets a row, including days without any activity. Only the
+ * inquiries and replies of those days are read.
+ * @param {string} userId - The ID of the user.
+ * @param {Date} from - A moment on the first day to rebuild.
+ * @param {Date} to - A moment on the last day to rebuild.
+ * @returns {Promise<number>} A promise that resolves to the number of rows written.
+ */
+export async function aggregateUserAnalytics(userId: string, from: Date, to: Date): Promise<number> {
+  const first = startOfUtcDay(from);
+  const last = startOfUtcDay(to);
+  const end = new Date(last.getTime() + DAY_MS);
+
+  const [inquiries, replies] = await Promise.all([
+    storage.getInquiriesBetween(userId, first, end),
+    storage.getRepliesForAnalytics(userId, first, end),
+  ]);
+
+  const receivedByDay = new Map<string, Inquiry[]>();
+  for (const inquiry of inquiries) {
+    const key = dayKey(inquiry.createdAt!);
+    receivedByDay.set(key, [...(receivedByDay.get(key) ?? []), inquiry]);
+  }
+  const sentByDay = new Map<string, AnalyticsReply[]>();
+  for (const reply of replies) {
+    const key = dayKey(reply.response.sentAt!);
+    sentByDay.set(key, [...(sentByDay.get(key) ?? []), reply]);
+  }
+
+  let written = 0;
+  for (let day = first.getTime(); day < end.getTime(); day += DAY_MS) {
+    const date = new Date(day);
+    const key = dayKey(date);
+    await storage.upsertAnalytics(buildDay(userId, date, receivedByDay.get(key) ?? [], sentByDay.get(key) ?? []));
+    written++;
+  }
+  return written;
+}
+
+/**
+ * Rebuilds the daily analytics of a user over a range of days. Without a
+ * start, the range begins on the day of the user's first inquiry.
+ * @param {string} userId - The ID of the user.
+ * @param {{ from?: Date; to?: Date }} [range] - The days to rebuild. Defaults to the whole history through today.
+ * @returns {Promise<{ from: Date; to: Date; days: number }>} A promise that resolves to the rebuilt range.
+ * @throws {Error} If the range is longer than `MAX_BACKFILL_DAYS`.
+ */
+export async function backfillAnalytics(
+  userId: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<{ from: Date; to: Date; days: number }> {
+  const to = startOfUtcDay(range.to ?? new Date());
+  let from = range.from ? startOfUtcDay(range.from) : undefined;
+  if (!from) {
+    const inquiries = await storage.getInquiries(userId);
+    const earliest = inquiries
+      .map((inquiry) => inquiry.createdAt?.getTime())
+      .filter((time): time is number => time !== undefined)
+      .reduce((min, time) => Math.min(min, time), to.getTime());
+    from = startOfUtcDay(new Date(earliest));
+  }
+
+  const span = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  if (span > MAX_BACKFILL_DAYS) {
+    throw new Error(`A backfill can rebuild at most ${MAX_BACKFILL_DAYS} days, this range has ${span}`);
+  }
+
+  const days = await aggregateUserAnalytics(userId, from, to);
+  return { from, to, days };
+}
+
+/**
+ * Refreshes yesterday's and today's analytics of every user. Yesterday is
+ * included so that replies and feedback arriving around midnight are counted.
+ * @returns {Promise<void>} A promise that resolves when all users are done.
+ */
+export async function runAnalyticsAggregation(): Promise<void> {
+  const now = new Date();
+  const yesterday = new Date(now.getTime() - DAY_MS);
+  const users = await storage.getUsers();
+  for (const user of users) {
+    try {
+      await aggregateUserAnalytics(user.id, yesterday, now);
+    } catch (error) {
+      console.error(`Failed to aggregate analytics for user ${user.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Starts the hourly analytics aggregation, with a first run right away. A
+ * run is skipped while the previous one is still going.
+ * @returns {() => void} A function that stops the scheduler.
+ */
+export function startAnalyticsScheduler(): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runAnalyticsAggregation();
+    } catch (error) {
+      console.error("Analytics aggregation failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, SCHEDULE_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview This file builds the analytics summary shown on the
+ * dashboard. It sums up the daily analytics rows of a period and compares
+ * every metric with the period of the same length just before it.
+ */
+
+import { storage } from "../storage";
+import { aggregateUserAnalytics, startOfUtcDay, DAY_MS } from "./analytics-aggregator";
+import type { Analytics, AnalyticsSummary, AnalyticsSummaryQuery, SummaryMetric, Template } from "@shared/schema";
+
+/** The length of the default period, in days. */
+const DEFAULT_DAYS = 7;
+
+/** The longest period the summary covers, in days. */
+export const MAX_SUMMARY_DAYS = 366;
+
+/**
+ * Raised when the requested period cannot be summed up, such as one that
+ * ends before it starts.
+ */
+export class AnalyticsPeriodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalyticsPeriodError";
+  }
+}
+
+/**
+ * The totals of one period.
+ */
+type PeriodTotals = Record<keyof AnalyticsSummary["metrics"], number | null>;
+
+/**
+ * Sums up the analytics rows and templates of one period.
+ * @param {Analytics[]} rows - The daily analytics of the period.
+ * @param {Template[]} templates - The user's templates.
+ * @param {Date} end - The end of the period, excluded.
+ * @returns {PeriodTotals} The metrics of the period.
+ */
+function totalsOf(rows: Analytics[], templates: Template[], end: Date): PeriodTotals {
+  const sum = (pick: (row: Analytics) => number | null) => rows.reduce((total, row) => total + (pick(row) ?? 0), 0);
+
+  const inquiries = sum((row) => row.totalInquiries);
+  const automated = sum((row) => row.automatedResponses);
+  const responses = automated + sum((row) => row.manualResponses);
+
+  // days without ratings or replies have no score, so they are left out of the averages
+  const rated = rows.filter((row) => row.customerSatisfaction !== null);
+  const timed = rows.filter((row) => row.averageResponseTime !== null);
+  const timedReplies = timed.reduce((total, row) => total + (row.automatedResponses ?? 0) + (row.manualResponses ?? 0), 0);
+
+  // without any rows, the period was never aggregated, which is not the same as a quiet period
+  const counted = (value: number) => (rows.length > 0 ? value : null);
+
+  return {
+    responseRate: inquiries > 0 ? Math.round((automated / inquiries) * 1000) / 10 : null,
+    timeSaved: counted(Math.round((sum((row) => row.timeSaved) / 60) * 10) / 10),
+    customerSatisfaction: rated.length > 0
+      ? Math.round(rated.reduce((total, row) => total + row.customerSatisfaction!, 0) / rated.length)
+      : null,
+    // weighted by the replies of each day, so busy days count for more
+    averageResponseTime: timedReplies > 0
+      ? Math.round(
+          timed.reduce(
+            (total, row) => total + row.averageResponseTime! * ((row.automatedResponses ?? 0) + (row.manualResponses ?? 0)),
+            0
+          ) / timedReplies
+        )
+      : null,
+    activeTemplates: templates.filter((template) => template.isActive && (!template.createdAt || template.createdAt < end)).length,
+    inquiries: counted(inquiries),
+    responses: counted(responses),
+  };
+}
+
+/**
+ * Pairs a metric with its previous value.
+ * @param {number | null} value - The value over the period.
+ * @param {number | null} previous - The value over the previous period.
+ * @returns {SummaryMetric} The metric.
+ */
+function compare(value: number | null, previous: number | null): SummaryMetric {
+  return {
+    value,
+    previous,
+    change: value !== null && previous !== null ? Math.round((value - previous) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Builds the analytics summary of a user for a period. Today's row is
+ * refreshed first when the period includes today, so the summary does not
+ * wait for the next scheduled aggregation.
+ * @param {string} userId - The ID of the user.
+ * @param {AnalyticsSummaryQuery} query - The first and last day of the period, or its length.
+ * @returns {Promise<AnalyticsSummary>} A promise that resolves to the summary.
+ * @throws {AnalyticsPeriodError} If the period starts after it ends, or is longer than `MAX_SUMMARY_DAYS`.
+ */
+export async function getAnalyticsSummary(userId: string, query: AnalyticsSummaryQuery): Promise<AnalyticsSummary> {
+  const today = startOfUtcDay(new Date());
+  const last = startOfUtcDay(query.to ?? today);
+  const first = startOfUtcDay(query.from ?? new Date(last.getTime() - ((query.days ?? DEFAULT_DAYS) - 1) * DAY_MS));
+
+  if (first > last) {
+    throw new AnalyticsPeriodError("The period must not start after it ends");
+  }
+  const days = Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1;
+  if (days > MAX_SUMMARY_DAYS) {
+    throw new AnalyticsPeriodError(`The summary covers at most ${MAX_SUMMARY_DAYS} days, this period has ${days}`);
+  }
+
+  const end = new Date(last.getTime() + DAY_MS);
+  const previousFirst = new Date(first.getTime() - days * DAY_MS);
+
+  if (first <= today && today < end) {
+    await aggregateUserAnalytics(userId, today, today);
+  }
+
+  const [rows, previousRows, templates] = await Promise.all([
+    storage.getAnalyticsBetween(userId, first, end),
+    storage.getAnalyticsBetween(userId, previousFirst, first),
+    storage.getTemplates(userId),
+  ]);
+
+  const current = totalsOf(rows, templates, end);
+  const previous = totalsOf(previousRows, templates, first);
+
+  return {
+    from: first.toISOString().slice(0, 10),
+    to: last.toISOString().slice(0, 10),
+    days,
+    metrics: {
+      responseRate: compare(current.responseRate, previous.responseRate),
+      timeSaved: compare(current.timeSaved, previous.timeSaved),
+      customerSatisfaction: compare(current.customerSatisfaction, previous.customerSatisfaction),
+      averageResponseTime: compare(current.averageResponseTime, previous.averageResponseTime),
+      activeTemplates: compare(current.activeTemplates, previous.activeTemplates),
+      inquiries: compare(current.inquiries, previous.inquiries),
+      responses: compare(current.responses, previous.responses),
+    },
+  };
+}
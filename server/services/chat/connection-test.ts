@@ -0,0 +1,42 @@
+/**
+ * @fileoverview This file contains the connection test of the chat
+ * integrations, run from the Configure dialog. Besides checking the
+ * credentials, a test sets up the platform to send messages here where that
+ * is done through its API: the Telegram webhook and the Discord command.
+ */
+
+import { testSlackConnection } from "./slack";
+import { testTelegramConnection } from "./telegram";
+import { testDiscordConnection } from "./discord";
+import type { Integration } from "@shared/schema";
+
+/** The connection tests, by platform. */
+const connectionTests = new Map<string, (integration: Integration, baseUrl: string) => Promise<string>>([
+  ["Slack", testSlackConnection],
+  ["Telegram", testTelegramConnection],
+  ["Discord", testDiscordConnection],
+]);
+
+/**
+ * Checks whether the connection of an integration can be tested.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True for chat integrations.
+ */
+export function canTestConnection(integration: Integration): boolean {
+  return connectionTests.has(integration.platform);
+}
+
+/**
+ * Tests the connection of a chat integration.
+ * @param {Integration} integration - The integration.
+ * @param {string} baseUrl - The public address of this server, for webhooks.
+ * @returns {Promise<string>} A promise that resolves to a description of the connection.
+ * @throws {Error} If the integration is no chat integration, or the test fails.
+ */
+export async function testConnection(integration: Integration, baseUrl: string): Promise<string> {
+  const test = connectionTests.get(integration.platform);
+  if (!test) {
+    throw new Error(`${integration.platform} integrations have no connection test`);
+  }
+  return test(integration, baseUrl);
+}
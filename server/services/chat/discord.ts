@@ -0,0 +1,315 @@
+/**
+ * @fileoverview This file connects Discord bots through interactions. Testing
+ * the connection registers an `/ask` slash command for the application;
+ * Discord posts every use of it to `POST /api/webhooks/discord/:integrationId`,
+ * signed with the application's key. Each question becomes an inquiry with
+ * source "discord" and is acknowledged in the channel right away; the reply
+ * is posted there later with the bot token, mentioning the person who asked.
+ *
+ * The API address can be changed with `DISCORD_API_URL`, so a local server
+ * can stand in for Discord when replaying recorded interactions.
+ */
+
+import { createPublicKey, verify } from "crypto";
+import { storage } from "../../storage";
+import { processInquiry } from "../inquiry-pipeline";
+import { sendInParts } from "./text";
+import { chatSettingsSchema, discordCredentialsSchema, type Inquiry, type Integration, type Response } from "@shared/schema";
+
+/** How long to wait for the Discord API before giving up. */
+const API_TIMEOUT_MS = 15 * 1000;
+
+/** The most characters Discord allows in one message. */
+const MAX_MESSAGE_LENGTH = 2000;
+
+/** The name of the slash command questions are asked with. */
+export const ASK_COMMAND = "ask";
+
+/** The DER header that turns a raw Ed25519 public key into one Node can read. */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/** Interaction types, from the Discord API. */
+const PING = 1;
+const APPLICATION_COMMAND = 2;
+
+/** Interaction response types, from the Discord API. */
+const PONG = 1;
+const CHANNEL_MESSAGE = 4;
+
+/** The flag that shows a message only to the person who used the command. */
+const EPHEMERAL = 1 << 6;
+
+/** The interactions being imported right now, so one is never imported twice. */
+const receiving = new Set<string>();
+
+/**
+ * The parts of a Discord user this integration reads.
+ */
+interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+/**
+ * The body of an interaction from Discord.
+ */
+export interface DiscordInteraction {
+  id: string;
+  type: number;
+  channel_id?: string;
+  member?: { user: DiscordUser };
+  user?: DiscordUser;
+  data?: {
+    name: string;
+    options?: Array<{ name: string; value: unknown }>;
+  };
+}
+
+/**
+ * The answer Discord expects to an interaction.
+ */
+export interface DiscordInteractionResponse {
+  type: number;
+  data?: { content: string; flags?: number; allowed_mentions?: { parse: string[] } };
+}
+
+/**
+ * The outcome of handling a Discord interaction.
+ */
+export type DiscordInteractionResult =
+  | { handled: true; inquiry: Inquiry }
+  | { handled: false; reason: string };
+
+/**
+ * Gets the address of the Discord API.
+ * @returns {string} The base URL, without a trailing slash.
+ */
+function discordApiUrl(): string {
+  return (process.env.DISCORD_API_URL || "https://discord.com/api/v10").replace(/\/+$/, "");
+}
+
+/**
+ * Checks whether an integration is a Discord integration.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True for Discord.
+ */
+export function isDiscordIntegration(integration: Integration): boolean {
+  return integration.platform === "Discord";
+}
+
+/**
+ * Checks whether a Discord integration has the credentials to post replies.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True if replies can be posted.
+ */
+export function canPostToDiscord(integration: Integration): boolean {
+  return discordCredentialsSchema.safeParse(integration.credentials ?? {}).success;
+}
+
+/**
+ * Verifies that an interaction was signed by Discord with the application's key.
+ * @param {string} publicKey - The public key of the application, in hex.
+ * @param {string | undefined} signature - The X-Signature-Ed25519 header.
+ * @param {string | undefined} timestamp - The X-Signature-Timestamp header.
+ * @param {Buffer | undefined} rawBody - The body exactly as it was received.
+ * @returns {boolean} True if the signature is valid.
+ */
+export function verifyDiscordSignature(
+  publicKey: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  rawBody: Buffer | undefined
+): boolean {
+  if (!signature || !timestamp || !rawBody) return false;
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, "hex")]),
+      format: "der",
+      type: "spki",
+    });
+    return verify(null, Buffer.concat([Buffer.from(timestamp), rawBody]), key, Buffer.from(signature, "hex"));
+  } catch {
+    // a malformed key or signature is as good as a wrong one
+    return false;
+  }
+}
+
+/**
+ * Calls the Discord API with the bot token.
+ * @param {Integration} integration - The Discord integration.
+ * @param {string} method - The HTTP method.
+ * @param {string} path - The path of the resource, such as "/users/@me".
+ * @param {Record<string, unknown>} [body] - The body to send.
+ * @returns {Promise<any>} A promise that resolves to Discord's answer.
+ * @throws {Error} If the integration has no bot token, or Discord refuses the call.
+ */
+async function callDiscord(integration: Integration, method: string, path: string, body?: Record<string, unknown>): Promise<any> {
+  const { botToken } = discordCredentialsSchema.parse(integration.credentials ?? {});
+  const response = await fetch(`${discordApiUrl()}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bot ${botToken}`,
+      ...(body && { "Content-Type": "application/json" }),
+    },
+    body: body && JSON.stringify(body),
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
+  const result = await response.json().catch(() => undefined) as Record<string, any> | undefined;
+  if (!response.ok) {
+    throw new Error(`Discord refused ${method} ${path}: ${result?.message ?? `HTTP ${response.status}`}`);
+  }
+  return result;
+}
+
+/**
+ * Tests the bot token and registers the `/ask` command for the application.
+ * @param {Integration} integration - The Discord integration.
+ * @returns {Promise<string>} A promise that resolves to a description of the connection.
+ * @throws {Error} If the token is wrong, belongs to another application, or the command cannot be registered.
+ */
+export async function testDiscordConnection(integration: Integration): Promise<string> {
+  const { applicationId } = discordCredentialsSchema.parse(integration.credentials ?? {});
+  const application = await callDiscord(integration, "GET", "/applications/@me");
+  if (application.id !== applicationId) {
+    throw new Error(`The bot token belongs to the application ${application.name} (${application.id}), not ${applicationId}`);
+  }
+
+  // registering a command under an existing name replaces it, so this is safe to repeat
+  await callDiscord(integration, "POST", `/applications/${applicationId}/commands`, {
+    name: ASK_COMMAND,
+    description: "Ask a question",
+    options: [{ type: 3, name: "question", description: "Your question", required: true }],
+  });
+  return `Connected as ${application.name}. The /${ASK_COMMAND} command is registered.`;
+}
+
+/**
+ * Gets the person who used an interaction; in servers they come with their membership.
+ * @param {DiscordInteraction} interaction - The interaction.
+ * @returns {DiscordUser | undefined} The user.
+ */
+function userOf(interaction: DiscordInteraction): DiscordUser | undefined {
+  return interaction.member?.user ?? interaction.user;
+}
+
+/**
+ * Gets the question asked with the `/ask` command of an interaction.
+ * @param {DiscordInteraction} interaction - The interaction.
+ * @returns {string | undefined} The question, or undefined if the interaction is no question.
+ */
+function questionOf(interaction: DiscordInteraction): string | undefined {
+  if (interaction.type !== APPLICATION_COMMAND || interaction.data?.name !== ASK_COMMAND) return undefined;
+  const value = interaction.data.options?.find((option) => option.name === "question")?.value;
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Builds the immediate answer to an interaction, which Discord needs within
+ * three seconds: a pong to its pings, and an acknowledgement of questions.
+ * @param {DiscordInteraction} interaction - The interaction.
+ * @param {boolean} active - Whether the integration takes questions.
+ * @returns {DiscordInteractionResponse} The answer.
+ */
+export function answerDiscordInteraction(interaction: DiscordInteraction, active: boolean): DiscordInteractionResponse {
+  if (interaction.type === PING) {
+    return { type: PONG };
+  }
+
+  const question = questionOf(interaction);
+  if (!question) {
+    return { type: CHANNEL_MESSAGE, data: { content: `Use /${ASK_COMMAND} to ask a question.`, flags: EPHEMERAL } };
+  }
+  if (!active) {
+    return { type: CHANNEL_MESSAGE, data: { content: "Questions are not being taken right now.", flags: EPHEMERAL } };
+  }
+
+  const quoted = question.split("\n").map((line) => `> ${line}`).join("\n");
+  return {
+    type: CHANNEL_MESSAGE,
+    data: {
+      content: `${quoted}\nThanks for your question, a reply will follow here.`.slice(0, MAX_MESSAGE_LENGTH),
+      allowed_mentions: { parse: [] },
+    },
+  };
+}
+
+/**
+ * Turns a question asked with the `/ask` command into an inquiry and runs it
+ * through the pipeline.
+ * @param {Integration} integration - The Discord integration the interaction was sent to.
+ * @param {DiscordInteraction} interaction - The body of the request.
+ * @returns {Promise<DiscordInteractionResult>} A promise that resolves to the inquiry, or the reason the interaction was skipped.
+ */
+export async function handleDiscordInteraction(
+  integration: Integration,
+  interaction: DiscordInteraction
+): Promise<DiscordInteractionResult> {
+  const question = questionOf(interaction);
+  const user = userOf(interaction);
+  if (!question || !user || !interaction.channel_id) {
+    return { handled: false, reason: "Not a question" };
+  }
+  if (user.bot) {
+    return { handled: false, reason: "Sent by a bot" };
+  }
+
+  if (receiving.has(interaction.id) || await storage.getInquiryByExternalId(integration.userId, "discord", interaction.id)) {
+    return { handled: false, reason: "Already imported" };
+  }
+
+  receiving.add(interaction.id);
+  try {
+    const settings = chatSettingsSchema.parse(integration.settings ?? {});
+    const { inquiry } = await processInquiry(
+      integration.userId,
+      {
+        subject: null,
+        content: question,
+        source: "discord",
+        sender: `${user.global_name || user.username} <${user.id}>`,
+        integrationId: integration.id,
+        externalId: interaction.id,
+        metadata: {
+          replyTo: user.id,
+          channel: interaction.channel_id,
+          threadId: null,
+          inReplyTo: null,
+        },
+      },
+      { autoReply: settings.autoReply }
+    );
+
+    return { handled: true, inquiry };
+  } finally {
+    receiving.delete(interaction.id);
+  }
+}
+
+/**
+ * Posts a response to the Discord channel the question was asked in,
+ * mentioning the person who asked, in several messages if it is too long
+ * for one. A retry carries on after the messages that were already posted.
+ * @param {Integration} integration - The Discord integration.
+ * @param {Inquiry} inquiry - The inquiry being answered.
+ * @param {Response} response - The response to post.
+ * @returns {Promise<string>} A promise that resolves to the ID of the first message posted, as "channel:message".
+ * @throws {Error} If the inquiry has no channel to answer in, or Discord refuses the message.
+ */
+export async function postDiscordReply(integration: Integration, inquiry: Inquiry, response: Response): Promise<string> {
+  const channelId = inquiry.metadata?.channel;
+  if (!channelId) {
+    throw new Error("The inquiry has no Discord channel to reply in");
+  }
+
+  const userId = inquiry.metadata?.replyTo;
+  const text = userId ? `<@${userId}> ${response.content}` : response.content;
+  return sendInParts(response, text, MAX_MESSAGE_LENGTH, async (content) => {
+    const sent = await callDiscord(integration, "POST", `/channels/${channelId}/messages`, {
+      content,
+      allowed_mentions: { users: userId ? [userId] : [] },
+    });
+    return `${channelId}:${sent.id}`;
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview This file connects Slack workspaces through the Events API.
+ * Slack posts events to `POST /api/webhooks/slack/:integrationId`, signed
+ * with the app's signing secret. Direct messages to the bot and mentions of
+ * it become inquiries with source "slack"; replies are posted back with the
+ * bot token, in the thread of a mention.
+ *
+ * The API address can be changed with `SLACK_API_URL`, so a local server can
+ * stand in for Slack when replaying recorded events.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "../../storage";
+import { processInquiry } from "../inquiry-pipeline";
+import { chatSettingsSchema, slackCredentialsSchema, type Inquiry, type Integration, type Response } from "@shared/schema";
+
+/** How old a signed request may be before it is refused, against replayed requests. */
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+/** How long to wait for the Slack API before giving up. */
+const API_TIMEOUT_MS = 15 * 1000;
+
+/** The messages being imported right now, so an event Slack sends again meanwhile is not imported twice. */
+const receiving = new Set<string>();
+
+/**
+ * The parts of a Slack event this integration reads.
+ */
+interface SlackEvent {
+  type: string;
+  subtype?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  channel: string;
+  channel_type?: string;
+}
+
+/**
+ * The body of a request from the Events API.
+ */
+export interface SlackPayload {
+  type: "url_verification" | "event_callback" | string;
+  challenge?: string;
+  event_id?: string;
+  event?: SlackEvent;
+  authorizations?: Array<{ user_id?: string; is_bot?: boolean }>;
+}
+
+/**
+ * The outcome of handling a Slack event.
+ */
+export type SlackEventResult =
+  | { handled: true; inquiry: Inquiry }
+  | { handled: false; reason: string };
+
+/**
+ * Gets the address of the Slack Web API.
+ * @returns {string} The base URL, without a trailing slash.
+ */
+function slackApiUrl(): string {
+  return (process.env.SLACK_API_URL || "https://slack.com/api").replace(/\/+$/, "");
+}
+
+/**
+ * Checks whether an integration is a Slack integration.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True for Slack.
+ */
+export function isSlackIntegration(integration: Integration): boolean {
+  return integration.platform === "Slack";
+}
+
+/**
+ * Checks whether a Slack integration has the credentials to post replies.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True if replies can be posted.
+ */
+export function canPostToSlack(integration: Integration): boolean {
+  return slackCredentialsSchema.safeParse(integration.credentials ?? {}).success;
+}
+
+/**
+ * Verifies that a request was signed by Slack with the given signing secret
+ * and is recent.
+ * @param {string} signingSecret - The signing secret of the Slack app.
+ * @param {string | undefined} timestamp - The X-Slack-Request-Timestamp header.
+ * @param {string | undefined} signature - The X-Slack-Signature header.
+ * @param {Buffer | undefined} rawBody - The body exactly as it was received.
+ * @param {number} [now=Date.now()] - The current time, in milliseconds.
+ * @returns {boolean} True if the signature is valid.
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  rawBody: Buffer | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature || !rawBody) return false;
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now / 1000 - sentAt) > MAX_REQUEST_AGE_SECONDS) return false;
+
+  const expected = `v0=${createHmac("sha256", signingSecret).update(`v0:${timestamp}:`).update(rawBody).digest("hex")}`;
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, Buffer.from(expected));
+}
+
+/**
+ * Calls a method of the Slack Web API with the bot token.
+ * @param {Integration} integration - The Slack integration.
+ * @param {string} method - The API method, such as "chat.postMessage".
+ * @param {Record<string, unknown>} body - The arguments.
+ * @returns {Promise<Record<string, any>>} A promise that resolves to Slack's answer.
+ * @throws {Error} If the integration has no bot token, or Slack refuses the call.
+ */
+async function callSlack(integration: Integration, method: string, body: Record<string, unknown>): Promise<Record<string, any>> {
+  const { botToken } = slackCredentialsSchema.parse(integration.credentials ?? {});
+  const response = await fetch(`${slackApiUrl()}/${method}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${botToken}`,
+      "Content-Type": "application/json; charset=utf-8",
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Slack answered ${method} with HTTP ${response.status}`);
+  }
+  const result = await response.json() as Record<string, any>;
+  if (!result.ok) {
+    throw new Error(`Slack refused ${method}: ${result.error ?? "unknown error"}`);
+  }
+  return result;
+}
+
+/**
+ * Tests the bot token against the Slack API.
+ * @param {Integration} integration - The Slack integration.
+ * @returns {Promise<string>} A promise that resolves to a description of the connection.
+ * @throws {Error} If Slack refuses the token.
+ */
+export async function testSlackConnection(integration: Integration): Promise<string> {
+  const { team, user } = await callSlack(integration, "auth.test", {});
+  return `Connected to ${team} as ${user}. Events are verified with the signing secret.`;
+}
+
+/**
+ * Gets the display name of a Slack user, for the sender of an inquiry.
+ * @param {Integration} integration - The Slack integration.
+ * @param {string} userId - The ID of the Slack user.
+ * @returns {Promise<string | undefined>} A promise that resolves to the name, or undefined if it cannot be read.
+ */
+async function slackUserName(integration: Integration, userId: string): Promise<string | undefined> {
+  try {
+    const { user } = await callSlack(integration, "users.info", { user: userId });
+    return user?.profile?.display_name || user?.real_name || user?.name || undefined;
+  } catch {
+    // the app may lack the users:read scope; the ID still identifies the sender
+    return undefined;
+  }
+}
+
+/**
+ * Turns an event from the Events API into an inquiry and runs it through
+ * the pipeline. Only direct messages to the bot and mentions of it are
+ * inquiries; messages from bots, edits and events seen before are skipped.
+ * @param {Integration} integration - The Slack integration the event was sent to.
+ * @param {SlackPayload} payload - The body of the request.
+ * @returns {Promise<SlackEventResult>} A promise that resolves to the inquiry, or the reason the event was skipped.
+ */
+export async function handleSlackEvent(integration: Integration, payload: SlackPayload): Promise<SlackEventResult> {
+  const event = payload.event;
+  if (payload.type !== "event_callback" || !event) {
+    return { handled: false, reason: "Not an event" };
+  }
+
+  const mention = event.type === "app_mention";
+  const direct = event.type === "message" && event.channel_type === "im";
+  if (!mention && !direct) {
+    return { handled: false, reason: `Ignored event type ${event.type}` };
+  }
+
+  // answering bots, our own replies included, could start a reply loop
+  const botUserId = payload.authorizations?.find((authorization) => authorization.is_bot)?.user_id;
+  if (event.bot_id || event.subtype || !event.user || event.user === botUserId) {
+    return { handled: false, reason: "Sent by a bot, or not a new message" };
+  }
+
+  const content = (event.text ?? "").replace(/<@[A-Z0-9]+>/g, (tag) => tag === `<@${botUserId}>` ? "" : tag).trim();
+  if (!content) {
+    return { handled: false, reason: "No content" };
+  }
+
+  const externalId = `${event.channel}:${event.ts}`;
+  if (receiving.has(externalId) || await storage.getInquiryByExternalId(integration.userId, "slack", externalId)) {
+    return { handled: false, reason: "Already imported" };
+  }
+
+  receiving.add(externalId);
+  try {
+    const name = await slackUserName(integration, event.user);
+    const settings = chatSettingsSchema.parse(integration.settings ?? {});
+    const inThread = !!event.thread_ts && event.thread_ts !== event.ts;
+    const { inquiry } = await processInquiry(
+      integration.userId,
+      {
+        subject: null,
+        content,
+        source: "slack",
+        sender: name ? `${name} <${event.user}>` : event.user,
+        integrationId: integration.id,
+        externalId,
+        metadata: {
+          channel: event.channel,
+          // mentions are answered in their thread so the channel stays readable
+          threadId: mention ? event.thread_ts ?? event.ts : event.thread_ts ?? null,
+          inReplyTo: inThread ? `${event.channel}:${event.thread_ts}` : null,
+        },
+      },
+      { autoReply: settings.autoReply }
+    );
+
+    return { handled: true, inquiry };
+  } finally {
+    receiving.delete(externalId);
+  }
+}
+
+/**
+ * Posts a response to the Slack conversation of the inquiry it answers.
+ * @param {Integration} integration - The Slack integration.
+ * @param {Inquiry} inquiry - The inquiry being answered.
+ * @param {Response} response - The response to post.
+ * @returns {Promise<string>} A promise that resolves to the ID of the posted message, as "channel:ts".
+ * @throws {Error} If the inquiry has no channel to answer in, or Slack refuses the message.
+ */
+export async function postSlackReply(integration: Integration, inquiry: Inquiry, response: Response): Promise<string> {
+  const channel = inquiry.metadata?.channel;
+  if (!channel) {
+    throw new Error("The inquiry has no Slack channel to reply in");
+  }
+
+  const result = await callSlack(integration, "chat.postMessage", {
+    channel,
+    text: response.content,
+    ...(inquiry.metadata?.threadId && { thread_ts: inquiry.metadata.threadId }),
+  });
+  return `${result.channel ?? channel}:${result.ts}`;
+}
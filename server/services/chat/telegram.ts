@@ -0,0 +1,238 @@
+/**
+ * @fileoverview This file connects Telegram bots through webhook updates.
+ * Testing the connection registers `POST /api/webhooks/telegram/:integrationId`
+ * with Telegram, together with a secret Telegram sends back in a header of
+ * every update. Text messages to the bot become inquiries with source
+ * "telegram"; replies are sent with the bot token, answering the message in
+ * group chats.
+ *
+ * The API address can be changed with `TELEGRAM_API_URL`, so a local server
+ * can stand in for Telegram when replaying recorded updates.
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../../storage";
+import { processInquiry } from "../inquiry-pipeline";
+import { sendInParts } from "./text";
+import { chatSettingsSchema, telegramCredentialsSchema, type Inquiry, type Integration, type Response } from "@shared/schema";
+
+/** How long to wait for the Telegram Bot API before giving up. */
+const API_TIMEOUT_MS = 15 * 1000;
+
+/** The most characters Telegram allows in one message. */
+const MAX_MESSAGE_LENGTH = 4096;
+
+/** The messages being imported right now, so an update Telegram sends again meanwhile is not imported twice. */
+const receiving = new Set<string>();
+
+/**
+ * The parts of a Telegram message this integration reads.
+ */
+interface TelegramMessage {
+  message_id: number;
+  from?: {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    last_name?: string;
+    username?: string;
+  };
+  chat: { id: number; type: "private" | "group" | "supergroup" | "channel" };
+  text?: string;
+  reply_to_message?: { message_id: number };
+}
+
+/**
+ * The body of a webhook update from Telegram.
+ */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+/**
+ * The outcome of handling a Telegram update.
+ */
+export type TelegramUpdateResult =
+  | { handled: true; inquiry: Inquiry }
+  | { handled: false; reason: string };
+
+/**
+ * Gets the address of the Telegram Bot API.
+ * @returns {string} The base URL, without a trailing slash.
+ */
+function telegramApiUrl(): string {
+  return (process.env.TELEGRAM_API_URL || "https://api.telegram.org").replace(/\/+$/, "");
+}
+
+/**
+ * Checks whether an integration is a Telegram integration.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True for Telegram.
+ */
+export function isTelegramIntegration(integration: Integration): boolean {
+  return integration.platform === "Telegram";
+}
+
+/**
+ * Checks whether a Telegram integration has the credentials to send replies.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True if replies can be sent.
+ */
+export function canSendToTelegram(integration: Integration): boolean {
+  return telegramCredentialsSchema.safeParse(integration.credentials ?? {}).success;
+}
+
+/**
+ * Verifies the secret Telegram sends with every update of a registered webhook.
+ * @param {string} webhookSecret - The secret the webhook was registered with.
+ * @param {string | undefined} given - The X-Telegram-Bot-Api-Secret-Token header.
+ * @returns {boolean} True if the secrets match.
+ */
+export function verifyTelegramSecret(webhookSecret: string, given: string | undefined): boolean {
+  if (!given) return false;
+  const expected = Buffer.from(webhookSecret);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Calls a method of the Telegram Bot API with the bot token.
+ * @param {Integration} integration - The Telegram integration.
+ * @param {string} method - The API method, such as "sendMessage".
+ * @param {Record<string, unknown>} [body={}] - The arguments.
+ * @returns {Promise<any>} A promise that resolves to the result of the call.
+ * @throws {Error} If the integration has no bot token, or Telegram refuses the call.
+ */
+async function callTelegram(integration: Integration, method: string, body: Record<string, unknown> = {}): Promise<any> {
+  const { botToken } = telegramCredentialsSchema.parse(integration.credentials ?? {});
+  const response = await fetch(`${telegramApiUrl()}/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
+  const result = await response.json().catch(() => undefined) as Record<string, any> | undefined;
+  if (!result?.ok) {
+    throw new Error(`Telegram refused ${method}: ${result?.description ?? `HTTP ${response.status}`}`);
+  }
+  return result.result;
+}
+
+/**
+ * Tests the bot token and registers the webhook with Telegram, generating
+ * the secret it is verified with on the first run.
+ * @param {Integration} integration - The Telegram integration.
+ * @param {string} baseUrl - The public address of this server.
+ * @returns {Promise<string>} A promise that resolves to a description of the connection.
+ * @throws {Error} If the token is wrong, or Telegram refuses the webhook.
+ */
+export async function testTelegramConnection(integration: Integration, baseUrl: string): Promise<string> {
+  const bot = await callTelegram(integration, "getMe");
+  const credentials = telegramCredentialsSchema.parse(integration.credentials ?? {});
+  const webhookSecret = credentials.webhookSecret || randomBytes(24).toString("hex");
+
+  try {
+    await callTelegram(integration, "setWebhook", {
+      url: `${baseUrl}/api/webhooks/telegram/${integration.id}`,
+      secret_token: webhookSecret,
+      allowed_updates: ["message"],
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Connected as @${bot.username}, but the webhook was not registered. ${reason}`);
+  }
+
+  if (webhookSecret !== credentials.webhookSecret) {
+    await storage.updateIntegration(integration.id, {
+      credentials: { ...(integration.credentials as Record<string, unknown>), webhookSecret },
+    });
+  }
+  return `Connected as @${bot.username}. Telegram now sends new messages to this integration.`;
+}
+
+/**
+ * Turns a webhook update into an inquiry and runs it through the pipeline.
+ * Only text messages from people are inquiries; a command at the start of
+ * the text, such as the "/start" every private chat begins with, is dropped.
+ * @param {Integration} integration - The Telegram integration the update was sent to.
+ * @param {TelegramUpdate} update - The body of the request.
+ * @returns {Promise<TelegramUpdateResult>} A promise that resolves to the inquiry, or the reason the update was skipped.
+ */
+export async function handleTelegramUpdate(integration: Integration, update: TelegramUpdate): Promise<TelegramUpdateResult> {
+  const message = update.message;
+  if (!message?.text) {
+    return { handled: false, reason: "Not a text message" };
+  }
+  if (!message.from || message.from.is_bot) {
+    return { handled: false, reason: "Sent by a bot" };
+  }
+
+  const content = message.text.replace(/^\/\w+(@\w+)?\s*/, "").trim();
+  if (!content) {
+    return { handled: false, reason: "No content" };
+  }
+
+  const chatId = String(message.chat.id);
+  const externalId = `${chatId}:${message.message_id}`;
+  if (receiving.has(externalId) || await storage.getInquiryByExternalId(integration.userId, "telegram", externalId)) {
+    return { handled: false, reason: "Already imported" };
+  }
+
+  receiving.add(externalId);
+  try {
+    const { from } = message;
+    const name = [from.first_name, from.last_name].filter(Boolean).join(" ");
+    const settings = chatSettingsSchema.parse(integration.settings ?? {});
+    const { inquiry } = await processInquiry(
+      integration.userId,
+      {
+        subject: null,
+        content,
+        source: "telegram",
+        sender: `${name || from.username || "Telegram user"} <${from.id}>`,
+        integrationId: integration.id,
+        externalId,
+        metadata: {
+          channel: chatId,
+          // in groups the reply answers the message, so it is clear who it is for
+          threadId: message.chat.type === "private" ? null : String(message.message_id),
+          inReplyTo: message.reply_to_message ? `${chatId}:${message.reply_to_message.message_id}` : null,
+        },
+      },
+      { autoReply: settings.autoReply }
+    );
+
+    return { handled: true, inquiry };
+  } finally {
+    receiving.delete(externalId);
+  }
+}
+
+/**
+ * Sends a response to the Telegram chat of the inquiry it answers, in
+ * several messages if it is too long for one. A retry carries on after the
+ * messages that were already sent.
+ * @param {Integration} integration - The Telegram integration.
+ * @param {Inquiry} inquiry - The inquiry being answered.
+ * @param {Response} response - The response to send.
+ * @returns {Promise<string>} A promise that resolves to the ID of the first message sent, as "chat:message".
+ * @throws {Error} If the inquiry has no chat to answer in, or Telegram refuses the message.
+ */
+export async function sendTelegramReply(integration: Integration, inquiry: Inquiry, response: Response): Promise<string> {
+  const chatId = inquiry.metadata?.channel;
+  if (!chatId) {
+    throw new Error("The inquiry has no Telegram chat to reply in");
+  }
+
+  return sendInParts(response, response.content, MAX_MESSAGE_LENGTH, async (text, index) => {
+    const sent = await callTelegram(integration, "sendMessage", {
+      chat_id: chatId,
+      text,
+      ...(inquiry.metadata?.threadId && index === 0 && {
+        reply_parameters: { message_id: Number(inquiry.metadata.threadId), allow_sending_without_reply: true },
+      }),
+    });
+    return `${chatId}:${sent.message_id}`;
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../../storage";
+import { sendInParts, splitMessage } from "./text";
+
+describe("splitMessage", () => {
+  it("keeps short replies whole", () => {
+    expect(splitMessage("Thanks, see you soon.", 100)).toEqual(["Thanks, see you soon."]);
+  });
+
+  it("breaks between paragraphs before words", () => {
+    const text = `${"a".repeat(40)}\n\n${"b".repeat(30)} ${"c".repeat(30)}`;
+    expect(splitMessage(text, 64)).toEqual(["a".repeat(40), `${"b".repeat(30)} ${"c".repeat(30)}`]);
+  });
+
+  it("never returns a part over the limit", () => {
+    const parts = splitMessage("word ".repeat(500), 50);
+    expect(parts.every((part) => part.length <= 50)).toBe(true);
+    expect(parts.join(" ")).toBe("word ".repeat(500).trim());
+  });
+});
+
+describe("sendInParts", () => {
+  it("carries on after the parts an earlier attempt delivered", async () => {
+    const content = ["First part of the reply.", "Second part of the reply.", "Third part of the reply."].join("\n\n");
+    const response = await storage.createResponse({ inquiryId: "inquiry-1", content, status: "approved" });
+    const sent: string[] = [];
+    let failAt: number | undefined = 1;
+
+    const sendPart = async (part: string, index: number) => {
+      if (index === failAt) throw new Error("Network down");
+      sent.push(part);
+      return `chat:${100 + index}`;
+    };
+
+    await expect(sendInParts(response, content, 30, sendPart)).rejects.toThrow("Network down");
+    const afterFailure = (await storage.getResponse(response.id))!;
+    expect(afterFailure).toMatchObject({ deliveredParts: 1, messageId: "chat:100" });
+
+    failAt = undefined;
+    const messageId = await sendInParts(afterFailure, content, 30, sendPart);
+    expect(messageId).toBe("chat:100");
+    expect(sent).toEqual(["First part of the reply.", "Second part of the reply.", "Third part of the reply."]);
+    expect((await storage.getResponse(response.id))!.deliveredParts).toBe(3);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview This file contains helpers shared by the chat connectors for
+ * replies longer than a platform allows in one message. Such replies are
+ * sent in parts, and the parts that went out are counted on the response, so
+ * a retry after a failed part never sends the earlier ones again.
+ */
+
+import { storage } from "../../storage";
+import type { Response } from "@shared/schema";
+
+/**
+ * Splits a reply into messages no longer than a platform allows, preferring
+ * to break between paragraphs, then lines, then words.
+ * @param {string} text - The reply.
+ * @param {number} maxLength - The most characters in one message.
+ * @returns {string[]} The messages, in order.
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const cut = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" ")]
+      .find((index) => index > maxLength / 2) ?? maxLength;
+    parts.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Sends a reply in as many messages as it needs, starting after the parts an
+ * earlier attempt already delivered. Each delivered part is saved right away.
+ * @param {Response} response - The response being sent.
+ * @param {string} text - The text to send, which may add to the response's content, such as a mention.
+ * @param {number} maxLength - The most characters in one message.
+ * @param {(part: string, index: number) => Promise<string>} sendPart - Sends one part and resolves to the ID of its message.
+ * @returns {Promise<string>} A promise that resolves to the ID of the first message of the reply.
+ */
+export async function sendInParts(
+  response: Response,
+  text: string,
+  maxLength: number,
+  sendPart: (part: string, index: number) => Promise<string>
+): Promise<string> {
+  const parts = splitMessage(text, maxLength);
+  let firstMessageId = response.deliveredParts > 0 ? response.messageId : null;
+
+  for (let index = response.deliveredParts; index < parts.length; index++) {
+    const messageId = await sendPart(parts[index], index);
+    firstMessageId = firstMessageId ?? messageId;
+    await storage.updateResponse(response.id, { deliveredParts: index + 1, messageId: firstMessageId });
+  }
+  return firstMessageId ?? "";
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview This file decides how an inquiry is classified. Depending on
+ * the user's classification mode it asks the LLM, the rule-based classifier,
+ * or the rules first and the LLM only when the rules are unsure. When the
+ * LLM fails, the rules take over, so an inquiry is always routed.
+ */
+
+import { storage } from "../storage";
+import { getSettings } from "./settings";
+import { getLLMForUser } from "./llm";
+import { classifyInquiry } from "./openai";
+import { classifyWithRules, type LabelledExample } from "./rule-classifier";
+import type { ConversationTurn, Inquiry, InquiryClassification } from "@shared/schema";
+
+/** In "rules-first" mode, rule decisions at least this confident skip the LLM. */
+const RULES_FIRST_MIN_CONFIDENCE = 0.7;
+/** Past inquiries only serve as examples when they were classified at least this confidently. */
+const EXAMPLE_MIN_CONFIDENCE = 0.7;
+/** The number of recent inquiries used as examples. */
+const MAX_EXAMPLES = 500;
+
+/**
+ * Picks the user's past inquiries that can serve as labelled examples.
+ * @param {Inquiry[]} inquiries - The user's inquiries.
+ * @param {string} [excludeId] - An inquiry to leave out, such as the one being classified again.
+ * @returns {LabelledExample[]} The examples, newest first.
+ */
+function labelledExamples(inquiries: Inquiry[], excludeId?: string): LabelledExample[] {
+  return inquiries
+    .filter((inquiry) => {
+      const classification = inquiry.aiClassification as InquiryClassification | null;
+      return inquiry.id !== excludeId
+        && !!inquiry.category
+        && (classification?.confidence ?? 0) >= EXAMPLE_MIN_CONFIDENCE;
+    })
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+    .slice(0, MAX_EXAMPLES)
+    .map((inquiry) => ({
+      subject: inquiry.subject,
+      content: inquiry.content,
+      category: inquiry.category!,
+    }));
+}
+
+/**
+ * Classifies an inquiry for a user, following the user's classification mode.
+ * @param {string} userId - The ID of the user who received the inquiry.
+ * @param {string} subject - The subject of the inquiry.
+ * @param {string} content - The content of the inquiry.
+ * @param {string} [excludeInquiryId] - The ID of the inquiry when it is classified again, so it is not its own example.
+ * @param {ConversationTurn[]} [history=[]] - The earlier messages of the conversation, given to the LLM as context.
+ * @returns {Promise<InquiryClassification>} A promise that resolves to the classification, which records the engine that made it.
+ */
+export async function classifyForUser(
+  userId: string,
+  subject: string,
+  content: string,
+  excludeInquiryId?: string,
+  history: ConversationTurn[] = []
+): Promise<InquiryClassification> {
+  const [templates, settings, inquiries] = await Promise.all([
+    storage.getTemplates(userId),
+    getSettings(userId),
+    storage.getInquiries(userId),
+  ]);
+
+  const rules = classifyWithRules(subject, content, templates, labelledExamples(inquiries, excludeInquiryId));
+  const mode = settings.ai.classificationMode;
+
+  if (mode === "rules-only") {
+    return rules;
+  }
+
+  if (mode === "rules-first" && rules.confidence >= RULES_FIRST_MIN_CONFIDENCE) {
+    return rules;
+  }
+
+  try {
+    const llm = await getLLMForUser(userId);
+    return await classifyInquiry(subject, content, templates, llm, history);
+  } catch (error) {
+    console.error("Failed to classify inquiry with the LLM, using rules:", error);
+    return {
+      ...rules,
+      signals: [...(rules.signals ?? []), "LLM unavailable, classified by rules"],
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { findConversation, threadInquiry } from "./conversations";
+
+describe("threadInquiry", () => {
+  it("counts every message of a thread that arrive at the same time", async () => {
+    const user = await storage.createUser({ username: "threads", password: "not-a-real-hash" });
+    const message = { subject: null, source: "slack", sender: "Carol <U2147483697>" };
+
+    const first = await storage.createInquiry({ ...message, userId: user.id, content: "Hi, are you free next week?" });
+    const { conversationId } = await threadInquiry(first);
+    const conversation = (await storage.getConversation(conversationId!))!;
+
+    // two webhook deliveries that both found the conversation before either was threaded
+    const [second, third] = await Promise.all([
+      storage.createInquiry({ ...message, userId: user.id, content: "For a logo, I mean." }),
+      storage.createInquiry({ ...message, userId: user.id, content: "And a business card." }),
+    ]);
+    expect(await findConversation(user.id, second, new Date())).toMatchObject({ id: conversation.id });
+    await Promise.all([threadInquiry(second, conversation), threadInquiry(third, conversation)]);
+
+    expect((await storage.getConversation(conversation.id))!.inquiryCount).toBe(3);
+    expect(await storage.getInquiriesByConversation(conversation.id)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview This file groups inquiries into conversations. An email
+ * joins the conversation of the message its In-Reply-To or References
+ * headers point at, which may be an earlier inquiry or a reply that was sent
+ * to it. Messages without such headers join the latest recent conversation
+ * with the same sender on the same platform, as long as the subjects agree.
+ * The earlier messages of a conversation are given to the AI as context.
+ */
+
+import { storage } from "../storage";
+import type { Conversation, ConversationTurn, Inquiry, InquiryMetadata } from "@shared/schema";
+
+/** How long a conversation takes new messages without thread headers. */
+const CONVERSATION_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** The most earlier messages given to the AI. */
+const MAX_CONTEXT_TURNS = 10;
+
+/** The most characters of an earlier message given to the AI. */
+const MAX_CONTEXT_TURN_LENGTH = 2000;
+
+/**
+ * The fields of a message that decide which conversation it belongs to.
+ */
+export interface ThreadableMessage {
+  subject?: string | null;
+  source?: string | null;
+  sender?: string | null;
+  metadata?: InquiryMetadata | null;
+}
+
+/**
+ * Gets the participant of a conversation from the sender of a message: the
+ * address of "Name <address>", or the whole sender, lowercased.
+ * @param {string | null | undefined} sender - The sender.
+ * @returns {string | null} The participant, or null for anonymous messages.
+ */
+export function participantOf(sender: string | null | undefined): string | null {
+  const trimmed = sender?.trim();
+  if (!trimmed) return null;
+  const address = /<([^>]+)>\s*$/.exec(trimmed);
+  return (address ? address[1] : trimmed).trim().toLowerCase();
+}
+
+/**
+ * Normalizes a subject for comparison: reply and forward prefixes such as
+ * "Re:", "Fwd:" and "AW:" are removed, and case and spacing are ignored.
+ * @param {string | null | undefined} subject - The subject.
+ * @returns {string} The normalized subject, empty if there is none.
+ */
+export function normalizeSubject(subject: string | null | undefined): string {
+  let normalized = (subject ?? "").trim();
+  const prefix = /^(re|fw|fwd|aw|wg|sv|vs)(\[\d+\])?\s*:\s*/i;
+  while (prefix.test(normalized)) {
+    normalized = normalized.replace(prefix, "");
+  }
+  return normalized.replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Finds the conversation a new message belongs to.
+ * @param {string} userId - The ID of the user receiving the message.
+ * @param {ThreadableMessage} message - The message.
+ * @param {Date} [at=new Date()] - When the message arrived.
+ * @returns {Promise<Conversation | undefined>} A promise that resolves to the conversation, or undefined if the message starts a new one.
+ */
+export async function findConversation(
+  userId: string,
+  message: ThreadableMessage,
+  at: Date = new Date()
+): Promise<Conversation | undefined> {
+  const messageIds = [message.metadata?.inReplyTo, ...(message.metadata?.references ?? [])]
+    .filter((id): id is string => !!id);
+  if (messageIds.length > 0) {
+    const byHeaders = await storage.getConversationByMessageIds(userId, messageIds);
+    if (byHeaders) return byHeaders;
+  }
+
+  const participant = participantOf(message.sender);
+  if (!participant) return undefined;
+
+  // inquiries are stored as email unless they say otherwise
+  const recent = await storage.getRecentConversations(
+    userId,
+    message.source ?? "email",
+    participant,
+    new Date(at.getTime() - CONVERSATION_WINDOW_MS)
+  );
+  const subject = normalizeSubject(message.subject);
+  return recent.find((conversation) =>
+    !subject || !conversation.subject || normalizeSubject(conversation.subject) === subject
+  );
+}
+
+/**
+ * Adds a stored inquiry to a conversation, starting a new one if none is given.
+ * @param {Inquiry} inquiry - The inquiry.
+ * @param {Conversation} [conversation] - The conversation it belongs to, as found by `findConversation`.
+ * @returns {Promise<Inquiry>} A promise that resolves to the inquiry with its conversation set.
+ */
+export async function threadInquiry(inquiry: Inquiry, conversation?: Conversation): Promise<Inquiry> {
+  const at = inquiry.createdAt ?? new Date();
+  const target = conversation ?? await storage.createConversation({
+    userId: inquiry.userId,
+    subject: inquiry.subject,
+    source: inquiry.source,
+    participant: participantOf(inquiry.sender),
+    sender: inquiry.sender,
+    inquiryCount: 0,
+    lastMessageAt: at,
+  });
+
+  await storage.addInquiryToConversation(target.id, inquiry.sender, at);
+  const threaded = await storage.updateInquiry(inquiry.id, { conversationId: target.id });
+  return threaded ?? inquiry;
+}
+
+/**
+ * Gets the earlier messages of a conversation for the AI: the inquiries and
+ * the replies sent to them, oldest first, cut to the latest few.
+ * @param {string} conversationId - The ID of the conversation.
+ * @param {Inquiry} [current] - The inquiry being handled; it and everything after it are left out.
+ * @returns {Promise<ConversationTurn[]>} A promise that resolves to the earlier messages.
+ */
+export async function conversationHistory(conversationId: string, current?: Inquiry): Promise<ConversationTurn[]> {
+  const before = current?.createdAt?.getTime() ?? Infinity;
+  const turns: ConversationTurn[] = [];
+
+  for (const inquiry of await storage.getInquiriesByConversation(conversationId)) {
+    if (inquiry.id === current?.id || (inquiry.createdAt?.getTime() ?? 0) > before) continue;
+    turns.push({ from: "customer", content: inquiry.content, at: inquiry.createdAt });
+    for (const response of await storage.getResponses(inquiry.id)) {
+      if (response.status === "sent" && (response.sentAt?.getTime() ?? 0) <= before) {
+        turns.push({ from: "business", content: response.content, at: response.sentAt });
+      }
+    }
+  }
+
+  return turns
+    .sort((a, b) => (a.at?.getTime() ?? 0) - (b.at?.getTime() ?? 0))
+    .slice(-MAX_CONTEXT_TURNS)
+    .map((turn) => ({ ...turn, content: turn.content.slice(0, MAX_CONTEXT_TURN_LENGTH) }));
+}
+
+/**
+ * Adds a user's inquiries that belong to no conversation yet, such as those
+ * stored before conversations existed, to conversations, oldest first.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<number>} A promise that resolves to the number of inquiries threaded.
+ */
+export async function threadUnassignedInquiries(userId: string): Promise<number> {
+  const unassigned = await storage.getInquiriesWithoutConversation(userId);
+  for (const inquiry of unassigned) {
+    const conversation = await findConversation(userId, inquiry, inquiry.createdAt ?? new Date());
+    await threadInquiry(inquiry, conversation);
+  }
+  return unassigned.length;
+}
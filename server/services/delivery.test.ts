@@ -0,0 +1,232 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AddressInfo } from "net";
+import { SMTPServer } from "smtp-server";
+import type { Inquiry, Integration, LiveEvent, Response, User } from "@shared/schema";
+import { storage } from "../storage";
+import { subscribeToLiveEvents } from "./live-events";
+import { deliverResponse, runDueDeliveries } from "./delivery";
+
+/**
+ * An SMTP server on a free local port that keeps what it receives, and can
+ * be told to turn the next messages away with a temporary error.
+ */
+interface SmtpSink {
+  port: number;
+  messages: string[];
+  rejectNext: number;
+  close: () => Promise<void>;
+}
+
+async function startSmtpSink(): Promise<SmtpSink> {
+  const sink: SmtpSink = { port: 0, messages: [], rejectNext: 0, close: async () => {} };
+  const server = new SMTPServer({
+    authOptional: true,
+    allowInsecureAuth: true,
+    disabledCommands: ["STARTTLS"],
+    logger: false,
+    onAuth: (_auth, _session, callback) => callback(null, { user: "sink" }),
+    onData: (stream, _session, callback) => {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("end", () => {
+        if (sink.rejectNext > 0) {
+          sink.rejectNext--;
+          return callback(Object.assign(new Error("Mailbox busy, try again later"), { responseCode: 451 }));
+        }
+        sink.messages.push(Buffer.concat(chunks).toString());
+        callback();
+      });
+    },
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  sink.port = (server.server.address() as AddressInfo).port;
+  sink.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return sink;
+}
+
+/** Reads a header of a raw message, joining folded lines. */
+function header(message: string, name: string): string | undefined {
+  const head = message.split("\r\n\r\n")[0].replace(/\r\n[ \t]+/g, " ");
+  const line = head.split("\r\n").find((l) => l.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+  return line?.slice(name.length + 1).trim();
+}
+
+describe("email delivery", () => {
+  let sink: SmtpSink;
+  let user: User;
+  let integration: Integration;
+  let events: LiveEvent[];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+    user = await storage.createUser({ username: "mailer", password: "not-a-real-hash" });
+    integration = await storage.createIntegration({
+      userId: user.id,
+      platform: "Email",
+      isActive: true,
+      credentials: {
+        host: "127.0.0.1",
+        port: 993,
+        secure: true,
+        user: "studio@example.com",
+        password: "imap-password",
+        smtpHost: "127.0.0.1",
+        smtpPort: sink.port,
+        smtpSecure: false,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  beforeEach(() => {
+    sink.messages = [];
+    sink.rejectNext = 0;
+    events = [];
+    unsubscribe = subscribeToLiveEvents(user.id, (event) => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    vi.useRealTimers();
+  });
+
+  async function approvedReply(subject: string | null): Promise<{ inquiry: Inquiry; response: Response }> {
+    const inquiry = await storage.createInquiry({
+      userId: user.id,
+      subject,
+      content: "Could you send me a quote?",
+      source: "email",
+      sender: "Carol <carol@example.com>",
+      integrationId: integration.id,
+      externalId: `<${Math.random().toString(36).slice(2)}@mail.example.com>`,
+      metadata: { replyTo: "carol@example.com", references: ["<first@mail.example.com>"] },
+    });
+    const response = await storage.createResponse({
+      inquiryId: inquiry.id,
+      content: "Our logos start at 500 euros.",
+      status: "approved",
+    });
+    return { inquiry, response };
+  }
+
+  async function repliesRecorded(inquiry: Inquiry): Promise<number> {
+    const { items } = await storage.getActivityEvents(user.id, { page: 1, pageSize: 100 });
+    return items.filter((event) => event.inquiryId === inquiry.id).length;
+  }
+
+  it("answers in the thread of the original message", async () => {
+    const { inquiry, response } = await approvedReply("Logo prices");
+
+    const sent = await deliverResponse(response);
+    expect(sent).toMatchObject({ status: "sent", deliveryStatus: "delivered", deliveryAttempts: 1 });
+
+    expect(sink.messages).toHaveLength(1);
+    const [message] = sink.messages;
+    expect(header(message, "Subject")).toBe("Re: Logo prices");
+    expect(header(message, "To")).toBe("carol@example.com");
+    expect(header(message, "In-Reply-To")).toBe(inquiry.externalId);
+    expect(header(message, "References")).toBe(`<first@mail.example.com> ${inquiry.externalId}`);
+    expect(header(message, "Message-ID")).toBe(sent.messageId);
+  });
+
+  it("retries a temporary failure later and marks the reply as sent once", async () => {
+    const { inquiry, response } = await approvedReply("Re: Logo prices");
+    sink.rejectNext = 1;
+
+    const before = Date.now();
+    const queued = await deliverResponse(response);
+    expect(queued).toMatchObject({ status: "approved", deliveryStatus: "queued", deliveryAttempts: 1 });
+    expect(queued.deliveryError).toMatch(/try again later/);
+    const delay = queued.nextDeliveryAt!.getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(30 * 1000);
+    expect(delay).toBeLessThan(35 * 1000);
+    expect(sink.messages).toHaveLength(0);
+
+    // nothing is due before the delay has passed
+    await runDueDeliveries();
+    expect(sink.messages).toHaveLength(0);
+
+    vi.useFakeTimers({ toFake: ["Date"], now: queued.nextDeliveryAt!.getTime() + 1000 });
+    await runDueDeliveries();
+    await runDueDeliveries();
+
+    expect(sink.messages).toHaveLength(1);
+    expect(header(sink.messages[0], "Subject")).toBe("Re: Logo prices");
+    expect(await storage.getResponse(response.id)).toMatchObject({
+      status: "sent",
+      deliveryStatus: "delivered",
+      deliveryAttempts: 2,
+      deliveryError: null,
+      nextDeliveryAt: null,
+    });
+    expect(events.map((event) => event.type)).toEqual(["delivery-failed", "response-sent"]);
+    expect(await repliesRecorded(inquiry)).toBe(1);
+  });
+
+  it("sends a reply only once when it is delivered twice at the same time", async () => {
+    const { inquiry, response } = await approvedReply("Logo prices");
+
+    await Promise.all([deliverResponse(response), deliverResponse(response)]);
+
+    expect(sink.messages).toHaveLength(1);
+    expect(events.filter((event) => event.type === "response-sent")).toHaveLength(1);
+    expect(await repliesRecorded(inquiry)).toBe(1);
+  });
+
+  it("leaves a reply alone when the worker's copy of it is out of date", async () => {
+    const { inquiry, response } = await approvedReply("Logo prices");
+    sink.rejectNext = 1;
+    const failed = await deliverResponse(response);
+    expect(failed).toMatchObject({ deliveryStatus: "queued", deliveryAttempts: 1 });
+
+    // the worker read the reply as due, and it was sent before the worker got to it
+    const stale = { ...failed, nextDeliveryAt: new Date() };
+    await storage.updateResponse(response.id, { nextDeliveryAt: new Date() });
+    await runDueDeliveries();
+    expect(sink.messages).toHaveLength(1);
+
+    const spy = vi.spyOn(storage, "getDueDeliveries").mockResolvedValueOnce([stale]);
+    await runDueDeliveries();
+    spy.mockRestore();
+
+    expect(sink.messages).toHaveLength(1);
+    expect(await storage.getResponse(response.id)).toMatchObject({
+      status: "sent",
+      deliveryStatus: "delivered",
+      deliveryAttempts: 2,
+    });
+    expect(await repliesRecorded(inquiry)).toBe(1);
+  });
+
+  it("uses the template's subject, filled in with the reply's values", async () => {
+    const template = await storage.createTemplate({
+      userId: user.id,
+      name: "Pricing",
+      category: "pricing",
+      subject: "Your {{service}} quote",
+      content: "Our {{service}}s start at 500 euros.",
+    });
+    const replies: Array<[string | null, Record<string, string> | null]> = [
+      ["Logo prices", { service: "logo" }],
+      [null, { service: "business card" }],
+      ["Logo prices", null],
+    ];
+    for (const [subject, variables] of replies) {
+      const { response } = await approvedReply(subject);
+      await deliverResponse((await storage.updateResponse(response.id, { templateId: template.id, variables }))!);
+    }
+
+    expect(sink.messages.map((message) => header(message, "Subject"))).toEqual([
+      "Re: Your logo quote",
+      "Re: Your business card quote",
+      "Re: Logo prices",
+    ]);
+    // the subject changes, the thread does not
+    expect(sink.messages.every((message) => header(message, "In-Reply-To"))).toBe(true);
+  });
+});
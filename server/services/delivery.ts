@@ -0,0 +1,272 @@
+/**
+ * @fileoverview This file contains the delivery step for approved responses.
+ * Once a response is approved, either automatically by the inquiry pipeline
+ * or by a person in the review queue, it is handed to `deliverResponse`,
+ * which sends it and marks it as sent.
+ *
+ * Replies to inquiries that came in through an integration are sent back on
+ * the same channel: over SMTP for email integrations with an outgoing mail
+ * server, and as a message for Slack, Telegram and Discord. They are queued
+ * first and sent right away; a failed attempt is retried with a growing delay
+ * by the delivery worker, and the attempts and the last error are kept on the
+ * response. A response stays approved until it was actually delivered.
+ *
+ * Every attempt first claims the response in storage, so a reply is sent
+ * once even when the worker, a retry and an approval reach it at the same
+ * time, or in another process.
+ */
+
+import { storage } from "../storage";
+import { recordReply } from "./activity";
+import { publishLiveEvent } from "./live-events";
+import { getSettings } from "./settings";
+import { canSendEmail, sendEmailReply } from "./email/smtp";
+import { canPostToSlack, postSlackReply } from "./chat/slack";
+import { canSendToTelegram, sendTelegramReply } from "./chat/telegram";
+import { canPostToDiscord, postDiscordReply } from "./chat/discord";
+import type { Inquiry, Integration, Response } from "@shared/schema";
+
+/** How many times a reply is tried before it fails for good. */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** The delay before the first retry; each further retry waits four times longer. */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/** How often the delivery worker looks for replies that are due. */
+const DELIVERY_TICK_MS = 15 * 1000;
+
+/** The most replies the delivery worker sends per run. */
+const DELIVERY_BATCH_SIZE = 20;
+
+/**
+ * How long an attempt holds a reply. A reply whose attempt did not finish by
+ * then, as when the server stopped in the middle of it, is tried again.
+ */
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Sends replies on one platform.
+ */
+interface ReplySender {
+  /** Whether the integration is set up to send replies. */
+  canSend: (integration: Integration) => boolean;
+  /** Sends a reply and resolves to the ID of the sent message. */
+  send: (integration: Integration, inquiry: Inquiry, response: Response) => Promise<string>;
+}
+
+/**
+ * Sends a reply by email, with the user's name and signature.
+ * @param {Integration} integration - The email integration.
+ * @param {Inquiry} inquiry - The inquiry being answered.
+ * @param {Response} response - The response to send.
+ * @returns {Promise<string>} A promise that resolves to the Message-ID of the sent email.
+ */
+async function sendEmailResponse(integration: Integration, inquiry: Inquiry, response: Response): Promise<string> {
+  const { profile } = await getSettings(inquiry.userId);
+  const template = response.templateId ? await storage.getTemplate(response.templateId) : undefined;
+  return sendEmailReply(integration, inquiry, response, profile, template);
+}
+
+/** The senders of the platforms replies go out on, by platform. */
+const replySenders = new Map<string, ReplySender>([
+  ["Gmail", { canSend: canSendEmail, send: sendEmailResponse }],
+  ["Email", { canSend: canSendEmail, send: sendEmailResponse }],
+  ["Slack", { canSend: canPostToSlack, send: postSlackReply }],
+  ["Telegram", { canSend: canSendToTelegram, send: sendTelegramReply }],
+  ["Discord", { canSend: canPostToDiscord, send: postDiscordReply }],
+]);
+
+/**
+ * An integration replies are sent through, with the sender of its platform.
+ */
+interface Outbound {
+  integration: Integration;
+  sender: ReplySender;
+}
+
+/**
+ * Gets the integration a reply to an inquiry is sent through.
+ * @param {Inquiry} inquiry - The inquiry.
+ * @returns {Promise<Outbound | undefined>} A promise that resolves to the active integration the inquiry
+ * came in through and its sender, if it can send replies, or undefined if the reply is only recorded.
+ */
+async function outboundOf(inquiry: Inquiry): Promise<Outbound | undefined> {
+  if (!inquiry.integrationId) {
+    return undefined;
+  }
+  const integration = await storage.getIntegration(inquiry.integrationId);
+  const sender = integration && replySenders.get(integration.platform);
+  return integration?.isActive && sender?.canSend(integration) ? { integration, sender } : undefined;
+}
+
+/**
+ * Marks a delivered response as sent. A sent response counts as a use of its
+ * template, is recorded in the activity log and is pushed to the user's open
+ * tabs.
+ * @param {Response} response - The delivered response.
+ * @param {Inquiry | undefined} inquiry - The inquiry the response answers.
+ * @param {Partial<Response>} [delivery={}] - The delivery details to save with it.
+ * @returns {Promise<Response>} A promise that resolves to the sent response.
+ */
+async function markSent(response: Response, inquiry: Inquiry | undefined, delivery: Partial<Response> = {}): Promise<Response> {
+  const sent = await storage.updateResponse(response.id, {
+    ...delivery,
+    status: "sent",
+    sentAt: new Date(),
+  });
+  const template = response.templateId ? await storage.refreshTemplateStats(response.templateId) : undefined;
+
+  if (inquiry) {
+    await recordReply(sent ?? response, inquiry, template);
+    publishLiveEvent(inquiry.userId, {
+      type: "response-sent",
+      responseId: response.id,
+      inquiryId: inquiry.id,
+      templateId: response.templateId,
+      automated: !!response.isAutomated && !response.reviewedAt,
+    });
+  }
+
+  return sent ?? response;
+}
+
+/**
+ * Makes one attempt at sending a reply. The reply is claimed first and left
+ * alone if someone else claimed, sent or changed it since it was read. On
+ * failure, the next attempt is scheduled, or the reply fails for good once
+ * it ran out of attempts.
+ * @param {Response} response - The response, as it was read.
+ * @param {Inquiry} inquiry - The inquiry the response answers.
+ * @param {Outbound} outbound - The integration to send it through.
+ * @param {number} [attempts] - The number of this attempt, by default the one after the last.
+ * @returns {Promise<Response>} A promise that resolves to the updated response.
+ */
+async function attemptDelivery(
+  response: Response,
+  inquiry: Inquiry,
+  { integration, sender }: Outbound,
+  attempts = response.deliveryAttempts + 1
+): Promise<Response> {
+  const now = new Date();
+  const claimed = await storage.claimDelivery(response, attempts, now, new Date(now.getTime() + DELIVERY_LEASE_MS));
+  if (!claimed) {
+    return (await storage.getResponse(response.id)) ?? response;
+  }
+
+  try {
+    const messageId = await sender.send(integration, inquiry, claimed);
+    return await markSent(claimed, inquiry, {
+      deliveryStatus: "delivered",
+      deliveryAttempts: attempts,
+      deliveryError: null,
+      nextDeliveryAt: null,
+      messageId,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const willRetry = attempts < MAX_DELIVERY_ATTEMPTS;
+    console.error(`Delivery attempt ${attempts} of response ${response.id} failed:`, error);
+
+    const updated = await storage.updateResponse(response.id, {
+      deliveryStatus: willRetry ? "queued" : "failed",
+      deliveryAttempts: attempts,
+      deliveryError: message,
+      nextDeliveryAt: willRetry ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 4 ** (attempts - 1)) : null,
+    });
+    publishLiveEvent(inquiry.userId, {
+      type: "delivery-failed",
+      responseId: response.id,
+      inquiryId: inquiry.id,
+      message,
+      willRetry,
+    });
+    return updated ?? claimed;
+  }
+}
+
+/**
+ * Delivers an approved response. Replies to inquiries from an integration
+ * that can send are marked as sent once the platform accepted them; a failed
+ * first attempt leaves them queued for the delivery worker. Other replies are
+ * marked as sent right away.
+ * @param {Response} response - The approved response.
+ * @returns {Promise<Response>} A promise that resolves to the updated response.
+ * @throws {Error} If the response is not approved.
+ */
+export async function deliverResponse(response: Response): Promise<Response> {
+  if (response.status !== "approved") {
+    throw new Error(`Only approved responses can be delivered, this one is ${response.status}`);
+  }
+
+  const inquiry = await storage.getInquiry(response.inquiryId);
+  const outbound = inquiry && await outboundOf(inquiry);
+  if (!inquiry || !outbound) {
+    return markSent(response, inquiry);
+  }
+  return attemptDelivery(response, inquiry, outbound);
+}
+
+/**
+ * Tries a reply that failed for good once more, with a fresh set of attempts.
+ * @param {Response} response - The failed response.
+ * @returns {Promise<Response>} A promise that resolves to the updated response.
+ * @throws {Error} If the response did not fail, or can no longer be sent.
+ */
+export async function retryDelivery(response: Response): Promise<Response> {
+  if (response.deliveryStatus !== "failed") {
+    throw new Error("Only failed deliveries can be retried");
+  }
+
+  const inquiry = await storage.getInquiry(response.inquiryId);
+  const outbound = inquiry && await outboundOf(inquiry);
+  if (!inquiry || !outbound) {
+    throw new Error("The integration of this inquiry can no longer send replies");
+  }
+  return attemptDelivery(response, inquiry, outbound, 1);
+}
+
+/**
+ * Sends the queued replies whose next attempt is due, one after the other.
+ * Replies whose integration can no longer send fail right away.
+ * @returns {Promise<void>} A promise that resolves when all due replies were tried.
+ */
+export async function runDueDeliveries(): Promise<void> {
+  const due = await storage.getDueDeliveries(new Date(), DELIVERY_BATCH_SIZE);
+  for (const response of due) {
+    const inquiry = await storage.getInquiry(response.inquiryId);
+    const outbound = inquiry && await outboundOf(inquiry);
+    if (!inquiry || !outbound) {
+      await storage.updateResponse(response.id, {
+        deliveryStatus: "failed",
+        deliveryError: "The integration of this inquiry can no longer send replies",
+        nextDeliveryAt: null,
+      });
+      continue;
+    }
+    await attemptDelivery(response, inquiry, outbound);
+  }
+}
+
+/**
+ * Starts the delivery worker, which retries queued replies when they are due.
+ * A run is skipped while the previous one is still going.
+ * @returns {() => void} A function that stops the worker.
+ */
+export function startDeliveryWorker(): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueDeliveries();
+    } catch (error) {
+      console.error("Delivery worker failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, DELIVERY_TICK_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AddressInfo } from "net";
+import hoodiecrow from "hoodiecrow-imap";
+import { ImapFlow } from "imapflow";
+import type { Integration, User } from "@shared/schema";
+import { storage } from "../../storage";
+import { runEmailPolling, syncEmailIntegration } from "./imap-sync";
+
+const IMAP_USER = "testuser";
+const IMAP_PASSWORD = "testpass";
+
+/** Builds a raw email to Carol's studio. */
+function email(messageId: string, subject: string, body: string, extraHeaders: string[] = []): string {
+  const headers = [
+    "From: Carol <carol@example.com>",
+    "To: studio@example.com",
+    `Subject: ${subject}`,
+    `Message-ID: ${messageId}`,
+    `Date: ${new Date().toUTCString()}`,
+    ...extraHeaders,
+  ];
+  return [...headers, "", body].join("\r\n");
+}
+
+describe("email sync over IMAP", () => {
+  let server: any;
+  let port: number;
+  let connections = 0;
+  let user: User;
+  let integration: Integration;
+
+  /** Delivers a message to the inbox of the local server, as a mail server would. */
+  async function deliver(raw: string): Promise<void> {
+    const client = new ImapFlow({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      auth: { user: IMAP_USER, pass: IMAP_PASSWORD },
+      logger: false,
+    });
+    await client.connect();
+    await client.append("INBOX", raw);
+    await client.logout();
+  }
+
+  async function inquiriesOf(owner: User) {
+    return (await storage.getInquiries(owner.id)).filter((inquiry) => inquiry.source === "email");
+  }
+
+  beforeAll(async () => {
+    server = hoodiecrow({
+      plugins: ["ID", "ENABLE", "UNSELECT"],
+      storage: {
+        INBOX: {
+          messages: [
+            { raw: email("<quote-1@example.com>", "Logo prices", "Hi, what do you charge for a logo?"), internaldate: new Date() },
+            { raw: email("<away-1@example.com>", "Out of office", "I am away until Monday.", ["Auto-Submitted: auto-replied"]), internaldate: new Date() },
+          ],
+        },
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.server.address() as AddressInfo).port;
+    server.server.on("connection", () => connections++);
+
+    user = await storage.createUser({ username: "inbox", password: "not-a-real-hash" });
+    integration = await storage.createIntegration({
+      userId: user.id,
+      platform: "Email",
+      isActive: true,
+      credentials: { host: "127.0.0.1", port, secure: false, user: IMAP_USER, password: IMAP_PASSWORD },
+      settings: { autoReply: false },
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("imports new messages as inquiries and skips automatic ones", async () => {
+    const result = await syncEmailIntegration(integration);
+    expect(result).toEqual({ imported: 1, duplicates: 0, skipped: 1 });
+
+    const [inquiry] = await inquiriesOf(user);
+    expect(inquiry).toMatchObject({
+      subject: "Logo prices",
+      source: "email",
+      integrationId: integration.id,
+      externalId: "<quote-1@example.com>",
+    });
+    expect(inquiry.metadata?.replyTo).toBe("carol@example.com");
+
+    const synced = (await storage.getIntegration(integration.id))!;
+    expect(synced.lastSync).toBeTruthy();
+    expect(synced.syncState).toMatchObject({ lastUid: 2 });
+    expect(synced.settings).toEqual({ autoReply: false });
+  });
+
+  it("keeps settings changed while a sync was running", async () => {
+    const started = (await storage.getIntegration(integration.id))!;
+    await storage.updateIntegration(integration.id, { settings: { autoReply: false, pollIntervalMinutes: 10 } });
+    await deliver(email("<quote-0@example.com>", "Business cards", "Do you also design business cards?"));
+
+    expect(await syncEmailIntegration(started)).toEqual({ imported: 1, duplicates: 0, skipped: 0 });
+    const synced = (await storage.getIntegration(integration.id))!;
+    expect(synced.settings).toEqual({ autoReply: false, pollIntervalMinutes: 10 });
+    expect(synced.syncState).toMatchObject({ lastUid: 3 });
+  });
+
+  it("reads only the messages after the last one it saw", async () => {
+    await deliver(email("<quote-2@example.com>", "Availability", "Are you free next week for a project?"));
+
+    const result = await syncEmailIntegration((await storage.getIntegration(integration.id))!);
+    expect(result).toEqual({ imported: 1, duplicates: 0, skipped: 0 });
+    expect(await inquiriesOf(user)).toHaveLength(3);
+
+    const again = await syncEmailIntegration((await storage.getIntegration(integration.id))!);
+    expect(again).toEqual({ imported: 0, duplicates: 0, skipped: 0 });
+  });
+
+  it("never imports a Message-ID twice", async () => {
+    // the same message delivered again, as happens when it was sent to two of the user's addresses
+    await deliver(email("<quote-1@example.com>", "Logo prices", "Hi, what do you charge for a logo?"));
+    const result = await syncEmailIntegration((await storage.getIntegration(integration.id))!);
+    expect(result).toEqual({ imported: 0, duplicates: 1, skipped: 0 });
+
+    // a mailbox read from the start again, as after its UIDs were reset
+    const reset = (await storage.updateIntegration(integration.id, { syncState: null, lastSync: null }))!;
+    const reread = await syncEmailIntegration({ ...reset, createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000) });
+    expect(reread).toEqual({ imported: 0, duplicates: 4, skipped: 1 });
+    expect(await inquiriesOf(user)).toHaveLength(3);
+  });
+
+  it("leaves integrations with incomplete credentials alone", async () => {
+    const other = await storage.createUser({ username: "half-configured", password: "not-a-real-hash" });
+    const incomplete = await storage.createIntegration({
+      userId: other.id,
+      platform: "Gmail",
+      isActive: true,
+      credentials: { host: "127.0.0.1", user: IMAP_USER },
+    });
+    await storage.updateIntegration(integration.id, { lastSync: new Date() });
+    const before = connections;
+
+    await runEmailPolling();
+
+    expect(connections).toBe(before);
+    expect((await storage.getIntegration(incomplete.id))!.lastSync).toBeNull();
+    expect(await inquiriesOf(other)).toEqual([]);
+    await expect(syncEmailIntegration(incomplete)).rejects.toThrow(/password/);
+    expect(connections).toBe(before);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview This file contains the email ingestion. Active email
+ * integrations are polled over IMAP; every new message is parsed and run
+ * through the same classify-and-draft pipeline as `POST /api/inquiries`.
+ * Messages are imported once: the poller remembers the last UID it read, and
+ * the Message-ID of each message is checked against the stored inquiries, so
+ * a mailbox that was rebuilt or fetched twice never yields duplicates.
+ *
+ * The server, port and TLS mode come from the integration's credentials, so
+ * the poller can be pointed at a local IMAP server for testing.
+ */
+
+import { ImapFlow } from "imapflow";
+import { storage } from "../../storage";
+import { processInquiry } from "../inquiry-pipeline";
+import { recordIntegrationSynced } from "../activity";
+import { publishIntegrationError } from "../live-events";
+import { parseEmail } from "./mime";
+import { emailPlatforms, emailSettingsSchema, imapCredentialsSchema, type Integration } from "@shared/schema";
+
+/** How often the poller looks for integrations that are due. */
+const POLL_TICK_MS = 60 * 1000;
+
+/** How long to wait for the IMAP server before giving up. */
+const CONNECTION_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Where the poller stopped reading a mailbox. UIDs are only comparable while
+ * the mailbox keeps its UIDVALIDITY.
+ */
+interface ImapSyncState {
+  uidValidity: string;
+  lastUid: number;
+}
+
+/**
+ * The outcome of syncing an email integration.
+ */
+export interface EmailSyncResult {
+  /** The messages imported as new inquiries. */
+  imported: number;
+  /** The messages that had been imported before. */
+  duplicates: number;
+  /** The messages that were not imported, such as bounces and auto-replies. */
+  skipped: number;
+}
+
+/** The integrations being synced right now, so a slow sync is never started twice. */
+const syncing = new Set<string>();
+
+/**
+ * Checks whether an integration reads email.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True for Gmail and other email integrations.
+ */
+export function isEmailIntegration(integration: Integration): boolean {
+  return (emailPlatforms as readonly string[]).includes(integration.platform);
+}
+
+/**
+ * Turns an IMAP failure into an error the user can act on. The client
+ * reports most server replies as a bare "Command failed".
+ * @param {unknown} error - The failure.
+ * @returns {Error} The error, with the server's reply as its message when there is one.
+ */
+function describeImapError(error: unknown): Error {
+  const details = error as { authenticationFailed?: boolean; responseText?: string };
+  if (details?.authenticationFailed) {
+    return new Error("The IMAP server rejected the user or password");
+  }
+  if (details?.responseText) {
+    return new Error(`The IMAP server replied: ${details.responseText}`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Reads the new messages of an email integration's mailbox and imports them.
+ * Progress is saved even when a message fails, so the messages before it are
+ * not read again on the next run.
+ * @param {Integration} integration - The email integration.
+ * @returns {Promise<EmailSyncResult>} A promise that resolves to the counts of imported and skipped messages.
+ * @throws {Error} If the credentials are incomplete, the server cannot be reached or a message cannot be imported.
+ */
+async function readMailbox(integration: Integration): Promise<EmailSyncResult> {
+  const credentials = imapCredentialsSchema.parse(integration.credentials ?? {});
+  const settings = emailSettingsSchema.parse(integration.settings ?? {});
+  const state = integration.syncState as ImapSyncState | null;
+  const result: EmailSyncResult = { imported: 0, duplicates: 0, skipped: 0 };
+
+  const client = new ImapFlow({
+    host: credentials.host,
+    port: credentials.port,
+    secure: credentials.secure,
+    auth: { user: credentials.user, pass: credentials.password },
+    logger: false,
+    disableAutoIdle: true,
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+  });
+  // without a listener, a dropped connection would crash the process
+  client.on("error", (error) => console.error(`IMAP connection of integration ${integration.id} failed:`, error));
+
+  await client.connect().catch((error) => {
+    throw describeImapError(error);
+  });
+  try {
+    const lock = await client.getMailboxLock(settings.mailbox).catch((error) => {
+      throw describeImapError(error);
+    });
+    try {
+      if (!client.mailbox) {
+        throw new Error(`Mailbox ${settings.mailbox} could not be opened`);
+      }
+      const uidValidity = client.mailbox.uidValidity.toString();
+      const resumes = state?.uidValidity === uidValidity;
+
+      // a new mailbox, or one whose UIDs were reset, is read from the last sync on; the Message-IDs catch the overlap
+      const found = await client.search(
+        resumes ? { uid: `${state!.lastUid + 1}:*` } : { since: integration.lastSync ?? integration.createdAt ?? new Date() },
+        { uid: true }
+      );
+      const pending = (found || [])
+        .filter((uid) => !resumes || uid > state!.lastUid)
+        .sort((a, b) => a - b);
+      const uids = pending.slice(0, settings.maxMessagesPerSync);
+
+      let lastUid = resumes ? state!.lastUid : 0;
+      // only the cursor is written, so settings changed during the sync are kept
+      const saveProgress = () => storage.updateIntegration(integration.id, {
+        syncState: { uidValidity, lastUid } satisfies ImapSyncState,
+      });
+
+      const messages = uids.length > 0 ? await client.fetchAll(uids, { uid: true, source: true }, { uid: true }) : [];
+      messages.sort((a, b) => a.uid - b.uid);
+      try {
+        for (const message of messages) {
+          if (message.source) {
+            const parsed = await parseEmail(message.source);
+            if (parsed.skip) {
+              result.skipped++;
+            } else if (await storage.getInquiryByExternalId(integration.userId, "email", parsed.messageId)) {
+              result.duplicates++;
+            } else {
+              await processInquiry(
+                integration.userId,
+                { ...parsed.inquiry, integrationId: integration.id },
+                { autoReply: settings.autoReply }
+              );
+              result.imported++;
+            }
+          }
+          lastUid = Math.max(lastUid, message.uid);
+        }
+        // everything up to the next UID has been seen, so older mail is never read on the next run
+        if (pending.length === uids.length) {
+          lastUid = Math.max(lastUid, client.mailbox.uidNext - 1);
+        }
+      } finally {
+        await saveProgress();
+      }
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+
+  return result;
+}
+
+/**
+ * Syncs an email integration: imports its new messages, updates its last
+ * sync time and records the sync in the activity log when anything was
+ * imported. Failures are reported to the user's open tabs and rethrown.
+ * @param {Integration} integration - The email integration.
+ * @returns {Promise<EmailSyncResult>} A promise that resolves to the counts of imported and skipped messages.
+ * @throws {Error} If the integration is not an email integration, is already syncing, or the sync fails.
+ */
+export async function syncEmailIntegration(integration: Integration): Promise<EmailSyncResult> {
+  if (!isEmailIntegration(integration)) {
+    throw new Error(`${integration.platform} integrations do not read email`);
+  }
+  if (syncing.has(integration.id)) {
+    throw new Error("This integration is already syncing");
+  }
+
+  syncing.add(integration.id);
+  try {
+    const result = await readMailbox(integration);
+    const synced = await storage.updateIntegration(integration.id, { lastSync: new Date() });
+    if (result.imported > 0) {
+      await recordIntegrationSynced(synced ?? integration, result.imported);
+    }
+    return result;
+  } catch (error) {
+    publishIntegrationError(integration, error);
+    throw error;
+  } finally {
+    syncing.delete(integration.id);
+  }
+}
+
+/**
+ * Syncs every active email integration that is due, one after the other.
+ * Integrations without complete IMAP credentials are left alone.
+ * @returns {Promise<void>} A promise that resolves when all due integrations are done.
+ */
+export async function runEmailPolling(): Promise<void> {
+  const now = Date.now();
+  const integrations = await storage.getActiveIntegrations(emailPlatforms);
+  for (const integration of integrations) {
+    const settings = emailSettingsSchema.safeParse(integration.settings ?? {});
+    if (!imapCredentialsSchema.safeParse(integration.credentials ?? {}).success || !settings.success) {
+      continue;
+    }
+    const due = !integration.lastSync
+      || now - integration.lastSync.getTime() >= settings.data.pollIntervalMinutes * 60 * 1000;
+    if (due && !syncing.has(integration.id)) {
+      // failures are already reported by the sync; the next tick tries again
+      await syncEmailIntegration(integration).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Starts the email poller, with a first run right away. A run is skipped
+ * while the previous one is still going.
+ * @returns {() => void} A function that stops the poller.
+ */
+export function startEmailPolling(): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runEmailPolling();
+    } catch (error) {
+      console.error("Email polling failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, POLL_TICK_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
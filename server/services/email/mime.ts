@@ -0,0 +1,110 @@
+/**
+ * @fileoverview This file turns raw emails into inquiries. It parses the MIME
+ * message, picks the plain text body (converting HTML when there is none),
+ * cuts off the quoted earlier messages of the thread, and keeps the headers
+ * needed to reply in the same thread.
+ */
+
+import { createHash } from "crypto";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import type { InquiryInput } from "../inquiry-pipeline";
+
+/** The most characters of an email body kept in an inquiry. */
+const MAX_CONTENT_LENGTH = 20000;
+
+/**
+ * An email turned into an inquiry, or the reason it was skipped.
+ */
+export type ParsedEmail =
+  | { skip: false; messageId: string; inquiry: InquiryInput & { externalId: string } }
+  | { skip: true; messageId: string; reason: string };
+
+/**
+ * Gets the first address of an address header.
+ * @param {AddressObject | AddressObject[] | undefined} header - The parsed header.
+ * @returns {{ name: string; address: string } | undefined} The name and address, or undefined if there is none.
+ */
+function firstAddress(header: AddressObject | AddressObject[] | undefined): { name: string; address: string } | undefined {
+  const objects = Array.isArray(header) ? header : header ? [header] : [];
+  for (const object of objects) {
+    const found = object.value.find((entry) => entry.address);
+    if (found) return { name: found.name, address: found.address! };
+  }
+  return undefined;
+}
+
+/**
+ * Cuts the quoted history off a reply: everything from the first
+ * "On ... wrote:" line or "Original Message" separator, and trailing lines
+ * quoted with ">".
+ * @param {string} text - The plain text body.
+ * @returns {string} The new part of the message.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const cut = lines.findIndex((line) =>
+    /^On .+wrote:\s*$/.test(line.trim()) || /^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())
+  );
+  const kept = cut === -1 ? lines : lines.slice(0, cut);
+  while (kept.length > 0 && (kept[kept.length - 1].trim() === "" || kept[kept.length - 1].startsWith(">"))) {
+    kept.pop();
+  }
+  return kept.join("\n").trim();
+}
+
+/**
+ * Decides whether an email was sent by a machine, such as a bounce or an
+ * out-of-office reply. Answering those could start a reply loop.
+ * @param {ParsedMail} mail - The parsed email.
+ * @param {string | undefined} fromAddress - The sender's address.
+ * @returns {boolean} True if the email should not be answered.
+ */
+function isAutomated(mail: ParsedMail, fromAddress: string | undefined): boolean {
+  const autoSubmitted = String(mail.headers.get("auto-submitted") ?? "no").toLowerCase();
+  const precedence = String(mail.headers.get("precedence") ?? "").toLowerCase();
+  return autoSubmitted !== "no"
+    || ["bulk", "junk", "list", "auto_reply"].includes(precedence)
+    || /^(mailer-daemon|postmaster)@/i.test(fromAddress ?? "");
+}
+
+/**
+ * Parses a raw email into an inquiry.
+ * @param {Buffer} source - The raw message, as fetched from the server.
+ * @returns {Promise<ParsedEmail>} A promise that resolves to the inquiry, or the reason the email is skipped.
+ */
+export async function parseEmail(source: Buffer): Promise<ParsedEmail> {
+  const mail = await simpleParser(source, { skipImageLinks: true, skipTextToHtml: true });
+
+  // without a Message-ID, the content identifies the message, so fetching it again still finds the duplicate
+  const messageId = mail.messageId || `<${createHash("sha256").update(source).digest("hex")}@no-message-id>`;
+  const from = firstAddress(mail.from);
+  const replyTo = firstAddress(mail.replyTo) ?? from;
+
+  if (isAutomated(mail, from?.address)) {
+    return { skip: true, messageId, reason: "Sent automatically" };
+  }
+
+  const body = stripQuotedReply(mail.text ?? "");
+  const content = (body || mail.subject || "").slice(0, MAX_CONTENT_LENGTH);
+  if (!content) {
+    return { skip: true, messageId, reason: "No content" };
+  }
+
+  const references = typeof mail.references === "string" ? [mail.references] : mail.references ?? [];
+  return {
+    skip: false,
+    messageId,
+    inquiry: {
+      subject: mail.subject || null,
+      content,
+      source: "email",
+      sender: from ? (from.name ? `${from.name} <${from.address}>` : from.address) : null,
+      externalId: messageId,
+      metadata: {
+        replyTo: replyTo?.address,
+        inReplyTo: mail.inReplyTo ?? null,
+        references,
+      },
+    },
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview This file sends replies to email inquiries over SMTP. Each
+ * reply answers the original message: it goes to its Reply-To address and
+ * carries In-Reply-To and References headers, so mail clients show it in the
+ * same thread. The server, port and TLS mode come from the integration's
+ * credentials, so a local SMTP sink can stand in for the real server.
+ */
+
+import nodemailer from "nodemailer";
+import { renderTemplate } from "@shared/template-engine";
+import {
+  emailCredentialsSchema,
+  type Inquiry,
+  type Integration,
+  type ProfileSettings,
+  type Response,
+  type Template,
+} from "@shared/schema";
+
+/** How long to wait for the SMTP server before giving up. */
+const CONNECTION_TIMEOUT_MS = 30 * 1000;
+
+/** The SMTP servers filled in for platforms that have a well-known one. */
+const defaultSmtpHosts: Record<string, string> = {
+  Gmail: "smtp.gmail.com",
+};
+
+/**
+ * Gets the outgoing mail server of an integration.
+ * @param {Integration} integration - The integration.
+ * @returns {string | undefined} The SMTP host, or undefined if the integration cannot send mail.
+ */
+function smtpHostOf(integration: Integration): string | undefined {
+  const credentials = emailCredentialsSchema.safeParse(integration.credentials ?? {});
+  if (!credentials.success) return undefined;
+  return credentials.data.smtpHost || defaultSmtpHosts[integration.platform];
+}
+
+/**
+ * Checks whether an integration has an outgoing mail server to send replies with.
+ * @param {Integration} integration - The integration.
+ * @returns {boolean} True if replies can be sent over SMTP.
+ */
+export function canSendEmail(integration: Integration): boolean {
+  return !!smtpHostOf(integration);
+}
+
+/**
+ * Gets the subject of a reply: the template's subject, filled in with the
+ * values the reply was written with, or the original subject when the
+ * template has none or a value is missing. Either way it starts with "Re:";
+ * the In-Reply-To and References headers keep the reply in its thread.
+ * @param {Inquiry} inquiry - The inquiry being answered.
+ * @param {Response} response - The response being sent.
+ * @param {ProfileSettings} profile - The profile of the user, for the time zone of dates.
+ * @param {Template} [template] - The template the reply was made from.
+ * @returns {string} The subject.
+ */
+function replySubject(inquiry: Inquiry, response: Response, profile: ProfileSettings, template?: Template): string {
+  let subject = inquiry.subject?.trim() || "Your inquiry";
+  if (template?.subject) {
+    try {
+      const rendered = renderTemplate(template.subject, response.variables ?? {}, { timeZone: profile.timezone });
+      if (rendered.missing.length === 0 && rendered.content.trim()) {
+        subject = rendered.content.trim();
+      }
+    } catch {
+      // a value that does not fit its type falls back to the original subject
+    }
+  }
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+/**
+ * Adds the user's signature under a reply, after the standard "-- " separator.
+ * @param {string} content - The reply.
+ * @param {string} [signature] - The signature.
+ * @returns {string} The reply with its signature.
+ */
+function withSignature(content: string, signature?: string): string {
+  return signature?.trim() ? `${content.trimEnd()}\n\n-- \n${signature.trim()}` : content;
+}
+
+/**
+ * Sends a response as a reply to the email it answers.
+ * @param {Integration} integration - The email integration the inquiry came in through.
+ * @param {Inquiry} inquiry - The inquiry being answered.
+ * @param {Response} response - The response to send.
+ * @param {ProfileSettings} profile - The profile of the user, for the sender name and signature.
+ * @param {Template} [template] - The template the response was made from.
+ * @returns {Promise<string>} A promise that resolves to the Message-ID of the sent email.
+ * @throws {Error} If the integration cannot send mail, the inquiry has no address to reply to, or the server refuses the message.
+ */
+export async function sendEmailReply(
+  integration: Integration,
+  inquiry: Inquiry,
+  response: Response,
+  profile: ProfileSettings,
+  template?: Template
+): Promise<string> {
+  const credentials = emailCredentialsSchema.parse(integration.credentials ?? {});
+  const host = smtpHostOf(integration);
+  if (!host) {
+    throw new Error("No SMTP server is configured for this integration");
+  }
+
+  const to = inquiry.metadata?.replyTo;
+  if (!to) {
+    throw new Error("The inquiry has no address to reply to");
+  }
+
+  const user = credentials.smtpUser || credentials.user;
+  const address = credentials.fromAddress || (user.includes("@") ? user : profile.email);
+  const references = [...(inquiry.metadata?.references ?? []), inquiry.externalId].filter((id): id is string => !!id);
+
+  const transport = nodemailer.createTransport({
+    host,
+    port: credentials.smtpPort ?? 465,
+    secure: credentials.smtpSecure ?? true,
+    auth: { user, pass: credentials.smtpPassword || credentials.password },
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    greetingTimeout: CONNECTION_TIMEOUT_MS,
+  });
+
+  try {
+    const info = await transport.sendMail({
+      from: profile.name ? { name: profile.name, address } : address,
+      to,
+      subject: replySubject(inquiry, response, profile, template),
+      text: withSignature(response.content, profile.signature),
+      inReplyTo: inquiry.externalId ?? undefined,
+      references,
+    });
+    return info.messageId;
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview This file contains the A/B testing of template variants. The
+ * inquiry pipeline splits the replies of a template between its content (the
+ * control) and its active variants; the outcomes of those replies, taken from
+ * the success flag and the customer rating, are compared with a two-proportion
+ * z-test, and a variant that wins clearly can be promoted to be the template's
+ * content, by hand or automatically.
+ */
+
+import { storage } from "../storage";
+import { summarizeOutcomes } from "@shared/response-outcome";
+import { recordTemplateChange } from "./activity";
+import type { ExperimentArm, ExperimentReport, Template, TemplateRevision, TemplateVariant } from "@shared/schema";
+
+/** The outcomes each arm needs before a winner is declared. */
+export const MIN_OUTCOMES = 30;
+
+/** The significance level, split between the variants (Bonferroni correction). */
+const ALPHA = 0.05;
+
+/**
+ * Checks that the active variants of a template leave a share of traffic to
+ * the control.
+ * @param {string} templateId - The ID of the template.
+ * @param {{ id?: string; weight: number; isActive: boolean }} change - The variant being created or updated.
+ * @throws {Error} If the active variants would take more than 100% of the traffic.
+ */
+export async function checkTrafficSplit(templateId: string, change: { id?: string; weight: number; isActive: boolean }) {
+  const others = (await storage.getTemplateVariants(templateId))
+    .filter((variant) => variant.isActive && variant.id !== change.id);
+  const total = others.reduce((sum, variant) => sum + variant.weight, 0) + (change.isActive ? change.weight : 0);
+  if (total > 100) {
+    throw new Error(`The active variants would get ${total}% of the traffic; the maximum is 100%`);
+  }
+}
+
+/**
+ * Picks the variant a reply should use, according to the traffic split.
+ * @param {TemplateVariant[]} variants - The variants of the template.
+ * @param {() => number} [random=Math.random] - The random number source.
+ * @returns {TemplateVariant | undefined} The variant, or undefined for the control.
+ */
+export function pickVariant(
+  variants: TemplateVariant[],
+  random: () => number = Math.random
+): TemplateVariant | undefined {
+  const roll = random() * 100;
+  let cumulative = 0;
+  for (const variant of variants) {
+    if (!variant.isActive) continue;
+    cumulative += variant.weight;
+    if (roll < cumulative) {
+      return variant;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Approximates the cumulative distribution function of the standard normal
+ * distribution (Abramowitz and Stegun, formula 7.1.26).
+ * @param {number} z - The z-score.
+ * @returns {number} The probability of a value below z.
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Compares the success rates of two arms with a two-proportion z-test.
+ * @param {number} successesA - The successes of the first arm.
+ * @param {number} totalA - The outcomes of the first arm.
+ * @param {number} successesB - The successes of the second arm.
+ * @param {number} totalB - The outcomes of the second arm.
+ * @returns {number | null} The two-sided p-value, or null if either arm has no outcomes.
+ */
+export function twoProportionPValue(successesA: number, totalA: number, successesB: number, totalB: number): number | null {
+  if (totalA === 0 || totalB === 0) {
+    return null;
+  }
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) {
+    // both arms all succeeded or all failed
+    return 1;
+  }
+
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Builds the A/B test report of a template. The control only counts replies
+ * made from the current version of the template, so an edit or a promotion
+ * starts the comparison afresh.
+ * @param {Template} template - The template.
+ * @returns {Promise<ExperimentReport>} A promise that resolves to the report.
+ */
+export async function getExperimentReport(template: Template): Promise<ExperimentReport> {
+  const [variants, responses] = await Promise.all([
+    storage.getTemplateVariants(template.id),
+    storage.getResponsesByTemplate(template.id),
+  ]);
+  const active = variants.filter((variant) => variant.isActive);
+  const sent = responses.filter((response) => response.status === "sent");
+
+  const control = summarizeOutcomes(sent.filter((response) => !response.variantId && response.templateVersion === template.version));
+  const alpha = ALPHA / Math.max(1, active.length);
+
+  const arms: ExperimentArm[] = [{
+    variantId: null,
+    name: "Control",
+    weight: Math.max(0, 100 - active.reduce((sum, variant) => sum + variant.weight, 0)),
+    ...control,
+    lift: null,
+    pValue: null,
+    significant: false,
+  }];
+
+  for (const variant of active) {
+    const totals = summarizeOutcomes(sent.filter((response) => response.variantId === variant.id));
+    const pValue = twoProportionPValue(control.successes, control.outcomes, totals.successes, totals.outcomes);
+    arms.push({
+      variantId: variant.id,
+      name: variant.name,
+      weight: variant.weight,
+      ...totals,
+      lift: control.successRate && totals.successRate !== null
+        ? (totals.successRate - control.successRate) / control.successRate
+        : null,
+      pValue,
+      significant: pValue !== null && pValue < alpha,
+    });
+  }
+
+  // the best variant that beats the control significantly, with enough data on both sides
+  const winner = arms
+    .filter((arm) => arm.variantId && arm.significant && arm.outcomes >= MIN_OUTCOMES && control.outcomes >= MIN_OUTCOMES)
+    .filter((arm) => (arm.successRate ?? 0) > (control.successRate ?? 0))
+    .sort((a, b) => (b.successRate ?? 0) - (a.successRate ?? 0))[0];
+
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    autoPromote: template.autoPromote ?? false,
+    arms,
+    minOutcomes: MIN_OUTCOMES,
+    winnerId: winner?.variantId ?? null,
+  };
+}
+
+/**
+ * Makes a variant the content of its template. The promotion is stored as a
+ * new template version, and the test ends: all variants are switched off.
+ * @param {Template} template - The template.
+ * @param {TemplateVariant} variant - The variant to promote.
+ * @param {string} authorId - The ID of the user promoting the variant.
+ * @param {boolean} [automatic=false] - Whether the promotion was automatic.
+ * @returns {Promise<Template>} A promise that resolves to the updated template.
+ */
+export async function promoteVariant(
+  template: Template,
+  variant: TemplateVariant,
+  authorId: string,
+  automatic = false
+): Promise<Template> {
+  const revision: TemplateRevision = {
+    authorId,
+    source: "variant",
+    note: `Promoted variant "${variant.name}"${automatic ? " automatically" : ""}`,
+  };
+  const updated = await storage.updateTemplate(template.id, { content: variant.content }, revision);
+  if (updated) {
+    await recordTemplateChange(updated, revision);
+  }
+
+  const variants = await storage.getTemplateVariants(template.id);
+  for (const other of variants) {
+    await storage.updateTemplateVariant(other.id, {
+      isActive: false,
+      ...(other.id === variant.id && { promotedAt: new Date() }),
+    });
+  }
+
+  return updated ?? template;
+}
+
+/**
+ * Promotes the winning variant of a template if automatic promotion is on and
+ * a variant wins. Called whenever feedback arrives for a reply of the template.
+ * @param {string} templateId - The ID of the template.
+ * @returns {Promise<TemplateVariant | undefined>} A promise that resolves to the promoted variant, if any.
+ */
+export async function autoPromoteWinner(templateId: string): Promise<TemplateVariant | undefined> {
+  const template = await storage.getTemplate(templateId);
+  if (!template?.autoPromote) {
+    return undefined;
+  }
+
+  const report = await getExperimentReport(template);
+  if (!report.winnerId) {
+    return undefined;
+  }
+
+  const winner = await storage.getTemplateVariant(report.winnerId);
+  if (winner) {
+    await promoteVariant(template, winner, template.userId, true);
+  }
+  return winner;
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview This file contains the data exports. An export reads a data
+ * set of one user over a range of days a batch at a time and writes each
+ * batch to the HTTP response as CSV or JSON, so long histories are never
+ * held in memory as a whole.
+ */
+
+import type { Response as ExpressResponse } from "express";
+import { storage } from "../storage";
+import { aggregateUserAnalytics, DAY_MS, startOfUtcDay } from "./analytics-aggregator";
+import type { ExportDataset, ExportQuery, InquiryClassification, Template } from "@shared/schema";
+
+/** The number of records read from the storage at a time. */
+const BATCH_SIZE = 500;
+
+/** The length of the default range, in days. */
+const DEFAULT_DAYS = 30;
+
+/**
+ * A value in an exported record.
+ */
+type Cell = string | number | boolean | null;
+
+/**
+ * A data set that can be exported: its columns, and how to read a batch of
+ * its records.
+ */
+interface ExportSource {
+  columns: string[];
+  /**
+   * Reads a batch of records. A batch shorter than the limit is the last one.
+   */
+  fetchBatch(offset: number, limit: number): Promise<Record<string, Cell>[]>;
+}
+
+/**
+ * Formats a date for an export.
+ * @param {Date | null} date - The date.
+ * @returns {string | null} The date as ISO 8601, or null.
+ */
+function isoDate(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * Builds the source of a data set.
+ * @param {ExportDataset} dataset - The data set.
+ * @param {string} userId - The ID of the user.
+ * @param {Date} from - The start of the range, included.
+ * @param {Date} to - The end of the range, excluded.
+ * @returns {Promise<ExportSource>} A promise that resolves to the source.
+ */
+async function sourceOf(dataset: ExportDataset, userId: string, from: Date, to: Date): Promise<ExportSource> {
+  switch (dataset) {
+    case "analytics": {
+      // as in the summary, today's row is refreshed rather than left to the next scheduled run
+      const today = startOfUtcDay(new Date());
+      if (from <= today && today < to) {
+        await aggregateUserAnalytics(userId, today, today);
+      }
+      return {
+        columns: ["date", "totalInquiries", "automatedResponses", "manualResponses", "averageResponseTime", "customerSatisfaction", "timeSaved"],
+        // one row per day, so a range is read in one go
+        fetchBatch: async (offset) => offset > 0 ? [] : (await storage.getAnalyticsBetween(userId, from, to)).map((row) => ({
+          date: row.date ? row.date.toISOString().slice(0, 10) : null,
+          totalInquiries: row.totalInquiries,
+          automatedResponses: row.automatedResponses,
+          manualResponses: row.manualResponses,
+          averageResponseTime: row.averageResponseTime,
+          customerSatisfaction: row.customerSatisfaction,
+          timeSaved: row.timeSaved,
+        })),
+      };
+    }
+
+    case "inquiries": {
+      const templateNames = await templateNamesOf(userId);
+      return {
+        columns: ["id", "createdAt", "sender", "subject", "category", "priority", "source", "suggestedTemplate", "content"],
+        fetchBatch: async (offset, limit) => {
+          // the end of the inquiry query is included, so stop just before the range ends
+          const page = await storage.queryInquiries(userId, {
+            from,
+            to: new Date(to.getTime() - 1),
+            page: Math.floor(offset / limit) + 1,
+            pageSize: limit,
+            sortBy: "createdAt",
+            sortOrder: "asc",
+          });
+          return page.items.map((inquiry) => {
+            const classification = inquiry.aiClassification as InquiryClassification | null;
+            return {
+              id: inquiry.id,
+              createdAt: isoDate(inquiry.createdAt),
+              sender: inquiry.sender,
+              subject: inquiry.subject,
+              category: inquiry.category,
+              priority: inquiry.priority,
+              source: inquiry.source,
+              suggestedTemplate: classification?.suggestedTemplateId
+                ? templateNames.get(classification.suggestedTemplateId) ?? null
+                : null,
+              content: inquiry.content,
+            };
+          });
+        },
+      };
+    }
+
+    case "responses": {
+      const templateNames = await templateNamesOf(userId);
+      return {
+        columns: ["id", "inquiryId", "sentAt", "templateName", "templateVersion", "isAutomated", "wasModified", "customerFeedback", "success", "content"],
+        fetchBatch: async (offset, limit) =>
+          (await storage.getSentResponsesBetween(userId, from, to, offset, limit)).map((response) => ({
+            id: response.id,
+            inquiryId: response.inquiryId,
+            sentAt: isoDate(response.sentAt),
+            templateName: response.templateId ? templateNames.get(response.templateId) ?? null : null,
+            templateVersion: response.templateVersion,
+            isAutomated: response.isAutomated,
+            wasModified: response.wasModified,
+            customerFeedback: response.customerFeedback,
+            success: response.success,
+            content: response.content,
+          })),
+      };
+    }
+  }
+}
+
+/**
+ * Gets the names of a user's templates, to join them into exported records.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<Map<string, string>>} A promise that resolves to the names, by template ID.
+ */
+async function templateNamesOf(userId: string): Promise<Map<string, string>> {
+  const templates: Template[] = await storage.getTemplates(userId);
+  return new Map(templates.map((template) => [template.id, template.name]));
+}
+
+/**
+ * Formats a value as a CSV field. Fields that a spreadsheet would read as a
+ * formula are prefixed with a quote, so opening an export never runs one.
+ * @param {Cell} value - The value.
+ * @returns {string} The field.
+ */
+function csvField(value: Cell): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a chunk to the response, waiting for the client to catch up when
+ * the buffer is full.
+ * @param {ExpressResponse} res - The response.
+ * @param {string} chunk - The chunk.
+ * @returns {Promise<void>} A promise that resolves when more can be written.
+ */
+async function write(res: ExpressResponse, chunk: string): Promise<void> {
+  if (!res.write(chunk)) {
+    await new Promise<void>((resolve) => {
+      res.once("drain", resolve);
+      res.once("close", resolve);
+    });
+  }
+}
+
+/**
+ * Resolves the range of an export to UTC day boundaries.
+ * @param {ExportQuery} query - The query of the export.
+ * @returns {{ from: Date; to: Date }} The start, included, and the end, excluded.
+ */
+export function exportRange(query: ExportQuery): { from: Date; to: Date } {
+  const last = startOfUtcDay(query.to ?? new Date());
+  const first = startOfUtcDay(query.from ?? new Date(last.getTime() - (DEFAULT_DAYS - 1) * DAY_MS));
+  return { from: first, to: new Date(last.getTime() + DAY_MS) };
+}
+
+/**
+ * Streams a data set of a user to the response as a file download. Stops
+ * early if the client goes away.
+ * @param {ExpressResponse} res - The response.
+ * @param {string} userId - The ID of the user.
+ * @param {ExportDataset} dataset - The data set.
+ * @param {ExportQuery} query - The format and range.
+ * @returns {Promise<number>} A promise that resolves to the number of records written.
+ */
+export async function streamExport(
+  res: ExpressResponse,
+  userId: string,
+  dataset: ExportDataset,
+  query: ExportQuery
+): Promise<number> {
+  const { from, to } = exportRange(query);
+  const source = await sourceOf(dataset, userId, from, to);
+
+  const lastDay = new Date(to.getTime() - DAY_MS).toISOString().slice(0, 10);
+  const filename = `${dataset}-${from.toISOString().slice(0, 10)}-to-${lastDay}.${query.format}`;
+  res.setHeader("Content-Type", query.format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Cache-Control", "no-store");
+
+  await write(res, query.format === "csv" ? `${source.columns.join(",")}\r\n` : "[");
+
+  let written = 0;
+  for (let offset = 0; !res.destroyed; offset += BATCH_SIZE) {
+    const batch = await source.fetchBatch(offset, BATCH_SIZE);
+    if (batch.length > 0) {
+      const chunk = query.format === "csv"
+        ? batch.map((record) => source.columns.map((column) => csvField(record[column])).join(",") + "\r\n").join("")
+        : batch.map((record, index) => `${written + index > 0 ? "," : ""}\n${JSON.stringify(record)}`).join("");
+      await write(res, chunk);
+      written += batch.length;
+    }
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  if (query.format === "json") {
+    await write(res, written > 0 ? "\n]\n" : "]\n");
+  }
+  res.end();
+  return written;
+}
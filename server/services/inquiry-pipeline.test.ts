@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { defaultSettings, type Template, type User } from "@shared/schema";
+import { storage } from "../storage";
+import { resolveLLM } from "./llm";
+import { classifyInquiry, generateResponse } from "./openai";
+import { decideReply, processInquiry } from "./inquiry-pipeline";
+import { updateSettings } from "./settings";
+
+const PRICING_QUESTION = "Hi, how much do you charge? Could you send me a quote with your prices and rates?";
+
+describe("inquiry pipeline with the mock provider", () => {
+  let user: User;
+  let template: Template;
+
+  beforeAll(async () => {
+    user = await storage.createUser({ username: "pipeline", password: "not-a-real-hash" });
+    template = await storage.createTemplate({
+      userId: user.id,
+      name: "Pricing",
+      category: "pricing",
+      content: "Hi {{name}}, thanks for asking about our prices. A logo starts at 500 euros.",
+    });
+  });
+
+  it("runs on the mock provider", () => {
+    expect(resolveLLM().provider.name).toBe("mock");
+  });
+
+  it("classifies, generates and decides", async () => {
+    const llm = resolveLLM();
+    const classification = await classifyInquiry("Logo prices", PRICING_QUESTION, [template], llm);
+    expect(classification.category).toBe("pricing");
+    expect(classification.suggestedTemplateId).toBe(template.id);
+    expect(classification.confidence).toBeGreaterThan(0);
+    expect(classification.confidence).toBeLessThanOrEqual(1);
+
+    const generation = await generateResponse(PRICING_QUESTION, template.content, { name: "Carol" }, llm);
+    expect(generation.content).toContain("Hi Carol");
+    expect(generation.content).toContain("500 euros");
+
+    const lenient = decideReply({ ...defaultSettings.ai, confidenceThreshold: 0 }, classification.confidence, generation.confidence);
+    expect(lenient).toEqual({ autoSend: true });
+
+    const strict = decideReply({ ...defaultSettings.ai, confidenceThreshold: 100 }, classification.confidence, generation.confidence);
+    expect(strict.autoSend).toBe(false);
+    expect(strict.reason).toMatch(/below the 100% threshold/);
+  });
+
+  it("gives the same answers for the same input", async () => {
+    const llm = resolveLLM();
+    const first = await classifyInquiry("Logo prices", PRICING_QUESTION, [template], llm);
+    const second = await classifyInquiry("Logo prices", PRICING_QUESTION, [template], llm);
+    expect(second).toEqual(first);
+  });
+
+  it("keeps the reply as a draft when review is required", async () => {
+    await updateSettings(user.id, "ai", { ...defaultSettings.ai, manualReviewRequired: true });
+
+    const { inquiry, response } = await processInquiry(user.id, { subject: "Logo prices", content: PRICING_QUESTION });
+    expect(inquiry.category).toBe("pricing");
+    expect(response).toMatchObject({
+      templateId: template.id,
+      status: "draft",
+      isAutomated: true,
+      reviewReason: "Manual review is required for every reply",
+    });
+  });
+
+  it("sends the reply when the settings allow it", async () => {
+    await updateSettings(user.id, "ai", { ...defaultSettings.ai, confidenceThreshold: 0 });
+
+    const { response } = await processInquiry(user.id, { subject: "Logo prices again", content: PRICING_QUESTION });
+    expect(response).toMatchObject({ status: "sent", reviewReason: null });
+    expect(response?.sentAt).toBeTruthy();
+  });
+
+  it("holds replies back for integrations without auto-reply", async () => {
+    const { response } = await processInquiry(
+      user.id,
+      { subject: "Logo prices once more", content: PRICING_QUESTION },
+      { autoReply: false }
+    );
+    expect(response).toMatchObject({ status: "draft", reviewReason: "Auto-reply is off for this integration" });
+  });
+});
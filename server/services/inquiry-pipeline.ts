@@ -0,0 +1,216 @@
+/**
+ * @fileoverview This file contains the inquiry pipeline, which stores a new
+ * inquiry, classifies it, drafts a reply from the best matching template, and
+ * decides whether that reply may be sent automatically or has to wait for
+ * manual approval. Inquiries join their conversation first, so classification
+ * and drafting see the earlier messages of the thread.
+ */
+
+import { storage } from "../storage";
+import { findOwnedTemplate } from "../authorization";
+import { generateResponse } from "./openai";
+import { classifyForUser } from "./classifier";
+import { getSettings } from "./settings";
+import { resolveLLM } from "./llm";
+import { deliverResponse } from "./delivery";
+import { pickVariant } from "./experiments";
+import { publishLiveEvent } from "./live-events";
+import { conversationHistory, findConversation, threadInquiry } from "./conversations";
+import type { AISettings, Inquiry, InquiryMetadata, Response } from "@shared/schema";
+
+/**
+ * The fields of a new inquiry that come from the outside world.
+ */
+export interface InquiryInput {
+  subject?: string | null;
+  content: string;
+  source?: string | null;
+  sender?: string | null;
+  /** The integration the inquiry came in through, if any. */
+  integrationId?: string | null;
+  /** The ID of the message on its platform, used to import it only once. */
+  externalId?: string | null;
+  /** What is needed to answer on the same channel. */
+  metadata?: InquiryMetadata | null;
+}
+
+/**
+ * Options for running an inquiry through the pipeline.
+ */
+export interface PipelineOptions {
+  /**
+   * Whether the integration the inquiry came in through allows automatic
+   * replies. When false, replies always wait for review.
+   */
+  autoReply?: boolean;
+}
+
+/**
+ * The decision on whether a generated reply may be sent automatically.
+ */
+export interface ReplyDecision {
+  /** Whether the reply goes out automatically instead of waiting for approval. */
+  autoSend: boolean;
+  /** Why the reply was held back for review, if it was. */
+  reason?: string;
+}
+
+/**
+ * The outcome of running an inquiry through the pipeline.
+ */
+export interface PipelineResult {
+  /** The stored inquiry. */
+  inquiry: Inquiry;
+  /** The automated reply, if a template matched. */
+  response?: Response;
+}
+
+/**
+ * Decides whether a generated reply may be sent without review, based on the
+ * user's AI settings and the confidence of the classification and generation.
+ * @param {AISettings} settings - The AI settings of the user.
+ * @param {number} classificationConfidence - The confidence of the classification (0.0 to 1.0).
+ * @param {number} generationConfidence - The confidence of the generated reply (0.0 to 1.0).
+ * @returns {ReplyDecision} The decision.
+ */
+export function decideReply(
+  settings: AISettings,
+  classificationConfidence: number,
+  generationConfidence: number
+): ReplyDecision {
+  if (!settings.autoReplyEnabled) {
+    return { autoSend: false, reason: "Auto-reply is disabled" };
+  }
+
+  if (settings.manualReviewRequired) {
+    return { autoSend: false, reason: "Manual review is required for every reply" };
+  }
+
+  const threshold = settings.confidenceThreshold / 100;
+  const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+  if (classificationConfidence < threshold) {
+    return {
+      autoSend: false,
+      reason: `Classification confidence ${formatPercent(classificationConfidence)} is below the ${settings.confidenceThreshold}% threshold`,
+    };
+  }
+
+  if (generationConfidence < threshold) {
+    return {
+      autoSend: false,
+      reason: `Reply confidence ${formatPercent(generationConfidence)} is below the ${settings.confidenceThreshold}% threshold`,
+    };
+  }
+
+  return { autoSend: true };
+}
+
+/**
+ * Classifies a stored inquiry again, for example after templates changed, and
+ * saves the new category, priority and classification on it.
+ * @param {Inquiry} inquiry - The inquiry to classify.
+ * @returns {Promise<Inquiry>} A promise that resolves to the updated inquiry.
+ */
+export async function reclassifyInquiry(inquiry: Inquiry): Promise<Inquiry> {
+  const history = inquiry.conversationId ? await conversationHistory(inquiry.conversationId, inquiry) : [];
+  const classification = await classifyForUser(
+    inquiry.userId,
+    inquiry.subject || "",
+    inquiry.content,
+    inquiry.id,
+    history
+  );
+
+  const updated = await storage.updateInquiry(inquiry.id, {
+    category: classification.category,
+    priority: classification.priority,
+    aiClassification: classification,
+  });
+
+  return updated ?? inquiry;
+}
+
+/**
+ * Runs a new inquiry through the pipeline: it is classified, stored, and if a
+ * template matches, a reply is generated and either sent or held as a draft
+ * for the review queue.
+ * @param {string} userId - The ID of the user receiving the inquiry.
+ * @param {InquiryInput} input - The inquiry.
+ * @param {PipelineOptions} [options] - Options from the integration the inquiry came in through.
+ * @returns {Promise<PipelineResult>} A promise that resolves to the stored inquiry and reply.
+ */
+export async function processInquiry(
+  userId: string,
+  input: InquiryInput,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> {
+  const settings = await getSettings(userId);
+  const llm = resolveLLM(settings.ai);
+
+  // Earlier messages of the same thread give the AI context
+  const conversation = await findConversation(userId, input);
+  const history = conversation ? await conversationHistory(conversation.id) : [];
+
+  // Classify the inquiry with the LLM or the rules, depending on the settings
+  const classification = await classifyForUser(
+    userId,
+    input.subject || "",
+    input.content,
+    undefined,
+    history
+  );
+
+  const inquiry = await threadInquiry(await storage.createInquiry({
+    ...input,
+    userId,
+    category: classification.category,
+    priority: classification.priority,
+    aiClassification: classification,
+  }), conversation);
+  publishLiveEvent(userId, {
+    type: "inquiry-created",
+    inquiryId: inquiry.id,
+    subject: inquiry.subject,
+    sender: inquiry.sender,
+    priority: inquiry.priority,
+    alert: inquiry.priority === "urgent" && settings.notifications.urgentInquiries,
+  });
+
+  if (!classification.suggestedTemplateId) {
+    return { inquiry };
+  }
+
+  const template = await findOwnedTemplate(userId, classification.suggestedTemplateId);
+  if (!template) {
+    return { inquiry };
+  }
+
+  // Split traffic between the template and its A/B test variants
+  const variant = pickVariant(await storage.getTemplateVariants(template.id));
+  const generation = await generateResponse(inquiry.content, variant?.content ?? template.content, {}, llm, history);
+  const decision: ReplyDecision = options.autoReply === false
+    ? { autoSend: false, reason: "Auto-reply is off for this integration" }
+    : decideReply(settings.ai, classification.confidence, generation.confidence);
+
+  let response = await storage.createResponse({
+    inquiryId: inquiry.id,
+    templateId: template.id,
+    templateVersion: template.version,
+    variantId: variant?.id ?? null,
+    content: generation.content,
+    variables: generation.variables,
+    status: decision.autoSend ? "approved" : "draft",
+    reviewReason: decision.reason ?? null,
+    isAutomated: true,
+    wasModified: false,
+  });
+
+  if (response.status === "approved") {
+    response = await deliverResponse(response);
+  } else {
+    publishLiveEvent(userId, { type: "draft-created", responseId: response.id, inquiryId: inquiry.id });
+  }
+
+  return { inquiry, response };
+}
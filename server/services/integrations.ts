@@ -0,0 +1,54 @@
+/**
+ * @fileoverview This file contains the handling of integration credentials.
+ * Secrets such as passwords are stored with the integration but never sent
+ * back to the browser; an update that leaves a secret out keeps the stored
+ * one, so forms can be saved without asking for it again.
+ */
+
+import type { Integration } from "@shared/schema";
+
+/** The credential fields that are never sent to the browser. */
+export const SECRET_CREDENTIAL_FIELDS = ["password", "smtpPassword", "signingSecret", "botToken", "webhookSecret"];
+
+/**
+ * Gets the credentials of an integration as an object.
+ * @param {unknown} credentials - The stored credentials.
+ * @returns {Record<string, unknown>} The credentials, or an empty object if there are none.
+ */
+function asObject(credentials: unknown): Record<string, unknown> {
+  return credentials && typeof credentials === "object" && !Array.isArray(credentials)
+    ? (credentials as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Removes the secrets from an integration before it is sent to the browser.
+ * @param {Integration} integration - The integration.
+ * @returns {Integration} The integration without secret credentials.
+ */
+export function toPublicIntegration(integration: Integration): Integration {
+  const credentials = { ...asObject(integration.credentials) };
+  for (const field of SECRET_CREDENTIAL_FIELDS) {
+    delete credentials[field];
+  }
+  return { ...integration, credentials };
+}
+
+/**
+ * Merges updated credentials into the stored ones. Secrets left out or empty
+ * in the update keep their stored value.
+ * @param {unknown} stored - The stored credentials.
+ * @param {unknown} updates - The updated credentials.
+ * @returns {Record<string, unknown>} The merged credentials.
+ */
+export function mergeCredentials(stored: unknown, updates: unknown): Record<string, unknown> {
+  const merged = { ...asObject(stored), ...asObject(updates) };
+  for (const field of SECRET_CREDENTIAL_FIELDS) {
+    const value = asObject(updates)[field];
+    if (value === undefined || value === "") {
+      merged[field] = asObject(stored)[field];
+      if (merged[field] === undefined) delete merged[field];
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview This file contains the live event bus. Services publish what
+ * happens to a user's inquiries, replies and integrations here, and the
+ * `/api/events` stream forwards it to every open browser tab of that user.
+ * Events are only kept in memory and are lost if nobody is listening; the
+ * browser refetches its data after reconnecting, so nothing depends on them.
+ */
+
+import { EventEmitter } from "events";
+import type { Integration, LiveEvent } from "@shared/schema";
+
+const bus = new EventEmitter();
+// one listener per open tab, so the default limit of 10 is easily reached
+bus.setMaxListeners(0);
+
+/**
+ * Publishes an event to the open streams of a user.
+ * @param {string} userId - The ID of the user.
+ * @param {LiveEvent} event - The event.
+ */
+export function publishLiveEvent(userId: string, event: LiveEvent): void {
+  bus.emit(userId, event);
+}
+
+/**
+ * Listens to the events of a user.
+ * @param {string} userId - The ID of the user.
+ * @param {(event: LiveEvent) => void} listener - Called with every event.
+ * @returns {() => void} A function that stops listening.
+ */
+export function subscribeToLiveEvents(userId: string, listener: (event: LiveEvent) => void): () => void {
+  bus.on(userId, listener);
+  return () => {
+    bus.off(userId, listener);
+  };
+}
+
+/**
+ * Reports a failure of an integration, such as a sync or a delivery that
+ * could not reach the platform, to the server log and the user's open tabs.
+ * @param {Integration} integration - The integration.
+ * @param {unknown} error - The failure.
+ */
+export function publishIntegrationError(integration: Integration, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Integration ${integration.id} (${integration.platform}) failed:`, error);
+  publishLiveEvent(integration.userId, {
+    type: "integration-error",
+    integrationId: integration.id,
+    platform: integration.platform,
+    message,
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview This file contains the provider for the Anthropic Messages
+ * API.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+const MAX_TOKENS = 2048;
+
+/**
+ * Extracts the JSON object from a text answer. Claude may wrap the object in
+ * a code fence or a sentence, so everything outside the outermost braces is
+ * dropped.
+ * @param {string} text - The answer.
+ * @returns {Record<string, any>} The parsed object.
+ * @throws {Error} If the answer contains no JSON object.
+ */
+function parseJSONObject(text: string): Record<string, any> {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("The model did not answer with a JSON object");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * A provider that talks to the Anthropic Messages API.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel: string;
+  private client: Anthropic;
+
+  constructor(apiKey: string, defaultModel: string) {
+    this.defaultModel = defaultModel;
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async completeJSON(request: CompletionRequest): Promise<Record<string, any>> {
+    const message = await this.client.messages.create({
+      model: request.model,
+      max_tokens: MAX_TOKENS,
+      system: `${request.system}\nAnswer with a single JSON object and nothing else.`,
+      messages: [{ role: "user", content: request.prompt }],
+    });
+
+    const text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    return parseJSONObject(text);
+  }
+}
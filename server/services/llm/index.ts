@@ -0,0 +1,120 @@
+/**
+ * @fileoverview This file picks the LLM provider and models for the AI
+ * functions. The server default comes from the environment:
+ *
+ * - `LLM_PROVIDER`: "openai", "anthropic", "openai-compatible" or "mock".
+ *   When unset, OpenAI or Anthropic is used if its API key is set, and the
+ *   offline mock provider otherwise.
+ * - `OPENAI_API_KEY`, `ANTHROPIC_API_KEY`: the API keys.
+ * - `LLM_BASE_URL`, `LLM_API_KEY`: the endpoint of an OpenAI-compatible
+ *   server, by default a local Ollama instance.
+ * - `LLM_MODEL`, `LLM_MODEL_CLASSIFY`, `LLM_MODEL_GENERATE`,
+ *   `LLM_MODEL_SENTIMENT`, `LLM_MODEL_IMPROVE`: the models of the default
+ *   provider, for all tasks or per task.
+ *
+ * Users can pick another provider and per-task models in their AI settings.
+ */
+
+import { llmProviders, llmTasks, type AISettings } from "@shared/schema";
+import { getSettings } from "../settings";
+import { OpenAIProvider } from "./openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import { MockProvider } from "./mock-provider";
+import type { LLMContext, LLMProvider, LLMProviderName, LLMTask } from "./types";
+
+export type { LLMContext, LLMProvider, LLMProviderName, LLMTask } from "./types";
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Creates a provider from the environment.
+ * @param {LLMProviderName} name - The name of the provider.
+ * @returns {LLMProvider} The provider.
+ */
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openai":
+      // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+      return new OpenAIProvider({
+        name,
+        apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "",
+        defaultModel: "gpt-5",
+      });
+    case "anthropic":
+      return new AnthropicProvider(process.env.ANTHROPIC_API_KEY || "", "claude-sonnet-4-5");
+    case "openai-compatible":
+      return new OpenAIProvider({
+        name,
+        apiKey: process.env.LLM_API_KEY || "ollama",
+        baseURL: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        defaultModel: "llama3.1",
+      });
+    case "mock":
+      return new MockProvider();
+  }
+}
+
+/**
+ * Gets a provider, creating it on first use.
+ * @param {LLMProviderName} name - The name of the provider.
+ * @returns {LLMProvider} The provider.
+ */
+export function getProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Gets the name of the provider configured for the server.
+ * @returns {LLMProviderName} The name of the provider.
+ * @throws {Error} If `LLM_PROVIDER` names an unknown provider.
+ */
+export function getDefaultProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured) {
+    if (!(llmProviders as readonly string[]).includes(configured)) {
+      throw new Error(`Unknown LLM_PROVIDER "${configured}"`);
+    }
+    return configured as LLMProviderName;
+  }
+
+  if (process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR) return "openai";
+  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
+  return "mock";
+}
+
+/**
+ * Resolves the provider and the model of every task. Models set in the AI
+ * settings win; the environment models only apply to the server default
+ * provider, since they would not exist on another one.
+ * @param {AISettings} [settings] - The AI settings of a user, if any.
+ * @returns {LLMContext} The provider and models.
+ */
+export function resolveLLM(settings?: AISettings): LLMContext {
+  const useDefault = !settings || settings.provider === "default";
+  const provider = getProvider(useDefault ? getDefaultProviderName() : settings.provider as LLMProviderName);
+
+  const models = {} as Record<LLMTask, string>;
+  for (const task of llmTasks) {
+    const fromEnv = useDefault
+      ? process.env[`LLM_MODEL_${task.toUpperCase()}`] || process.env.LLM_MODEL
+      : undefined;
+    models[task] = settings?.models[task] || fromEnv || provider.defaultModel;
+  }
+
+  return { provider, models };
+}
+
+/**
+ * Resolves the provider and models chosen by a user.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<LLMContext>} A promise that resolves to the provider and models.
+ */
+export async function getLLMForUser(userId: string): Promise<LLMContext> {
+  const settings = await getSettings(userId);
+  return resolveLLM(settings.ai);
+}
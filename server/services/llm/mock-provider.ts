@@ -0,0 +1,90 @@
+/**
+ * @fileoverview This file contains a deterministic offline provider. It
+ * answers every task with simple rules instead of a model, so the inquiry
+ * pipeline can run without network access, for example in CI or local
+ * development without API keys. The same input always gives the same answer.
+ * Classification uses the rule-based classifier and replies are rendered by
+ * the template engine.
+ */
+
+import { renderTemplate, TemplateError } from "@shared/template-engine";
+import { classifyWithRules } from "../rule-classifier";
+import type { CompletionRequest, LLMProvider, TaskInput } from "./types";
+
+const POSITIVE_WORDS = ["thanks", "thank", "great", "perfect", "love", "excellent", "happy", "awesome"];
+const NEGATIVE_WORDS = ["bad", "poor", "unhappy", "disappointed", "terrible", "slow", "angry", "wrong"];
+
+/**
+ * Splits text into lowercase words.
+ * @param {string} text - The text.
+ * @returns {string[]} The words.
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+/**
+ * Counts how many of the given keywords occur in a list of words.
+ * @param {string[]} found - The words of the text.
+ * @param {string[]} keywords - The keywords to look for.
+ * @returns {number} The number of matching words.
+ */
+function countMatches(found: string[], keywords: string[]): number {
+  return found.filter((word) => keywords.includes(word)).length;
+}
+
+/**
+ * Answers a task with keyword rules.
+ * @param {TaskInput} input - The structured input of the task.
+ * @returns {Record<string, any>} The answer, in the shape the real models are asked for.
+ */
+function answer(input: TaskInput): Record<string, any> {
+  switch (input.task) {
+    case "classify": {
+      const { engine, signals, ...classification } = classifyWithRules(input.subject, input.content, input.templates);
+      return classification;
+    }
+
+    case "generate": {
+      try {
+        const rendered = renderTemplate(input.templateContent, input.variables);
+        return {
+          content: rendered.content,
+          confidence: rendered.missing.length === 0 ? 0.9 : 0.6,
+          variables: input.variables,
+        };
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        return { content: input.templateContent, confidence: 0.3, variables: input.variables };
+      }
+    }
+
+    case "sentiment": {
+      const found = words(input.text);
+      const score = countMatches(found, POSITIVE_WORDS) - countMatches(found, NEGATIVE_WORDS);
+      return {
+        rating: Math.max(1, Math.min(5, 3 + score)),
+        confidence: score === 0 ? 0.5 : 0.8,
+      };
+    }
+
+    case "improve":
+      return {
+        improvedContent: input.templateContent,
+        improvements: [],
+        confidence: 0.5,
+      };
+  }
+}
+
+/**
+ * A provider that answers without a model.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock" as const;
+  readonly defaultModel = "mock";
+
+  async completeJSON(request: CompletionRequest): Promise<Record<string, any>> {
+    return answer(request.input);
+  }
+}
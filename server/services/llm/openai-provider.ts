@@ -0,0 +1,46 @@
+/**
+ * @fileoverview This file contains the provider for the OpenAI API. It also
+ * serves OpenAI-compatible servers, such as a local Ollama instance, which
+ * only differ in base URL, key and models.
+ */
+
+import OpenAI from "openai";
+import type { CompletionRequest, LLMProvider, LLMProviderName } from "./types";
+
+/**
+ * The options for an OpenAI or OpenAI-compatible provider.
+ */
+export interface OpenAIProviderOptions {
+  name: Extract<LLMProviderName, "openai" | "openai-compatible">;
+  apiKey: string;
+  baseURL?: string;
+  defaultModel: string;
+}
+
+/**
+ * A provider that talks to the OpenAI chat completions API.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: OpenAIProviderOptions["name"];
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.defaultModel = options.defaultModel;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async completeJSON(request: CompletionRequest): Promise<Record<string, any>> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: request.prompt },
+      ],
+      response_format: { type: "json_object" },
+    });
+
+    return JSON.parse(response.choices[0].message.content || "{}");
+  }
+}
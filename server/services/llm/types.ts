@@ -0,0 +1,84 @@
+/**
+ * @fileoverview This file defines the types shared by the LLM providers. A
+ * provider turns a prompt into a JSON object; the AI functions in
+ * `services/openai.ts` build the prompts and validate the results.
+ */
+
+import type { ConversationTurn, LLMProviderName, LLMTask } from "@shared/schema";
+
+export type { LLMProviderName, LLMTask };
+
+/**
+ * The structured input of a task. Real providers only read the prompt; the
+ * mock provider works from this input, so it does not have to parse prompts.
+ */
+export type TaskInput =
+  | {
+      task: "classify";
+      subject: string;
+      content: string;
+      templates: Array<{ id: string; name: string; category: string; content: string }>;
+      /** The earlier messages of the conversation, oldest first. */
+      history: ConversationTurn[];
+    }
+  | {
+      task: "generate";
+      inquiryContent: string;
+      templateContent: string;
+      variables: Record<string, string>;
+      /** The earlier messages of the conversation, oldest first. */
+      history: ConversationTurn[];
+    }
+  | {
+      task: "sentiment";
+      text: string;
+    }
+  | {
+      task: "improve";
+      templateContent: string;
+      successRate: number;
+      averageRating: number;
+      /** In seconds, or null if no reply has a known response time. */
+      averageResponseTime: number | null;
+      totalUsage: number;
+    };
+
+/**
+ * A request for a JSON completion.
+ */
+export interface CompletionRequest {
+  /** The model to use. */
+  model: string;
+  /** The system prompt. */
+  system: string;
+  /** The user prompt, which asks for a JSON object. */
+  prompt: string;
+  /** The structured input the prompt was built from. */
+  input: TaskInput;
+}
+
+/**
+ * A large language model backend.
+ */
+export interface LLMProvider {
+  /** The name of the provider. */
+  readonly name: LLMProviderName;
+  /** The model used for tasks that have no model configured. */
+  readonly defaultModel: string;
+  /**
+   * Runs a completion and parses the answer as a JSON object.
+   * @param {CompletionRequest} request - The request.
+   * @returns {Promise<Record<string, any>>} A promise that resolves to the parsed object.
+   * @throws {Error} If the backend fails or does not answer with JSON.
+   */
+  completeJSON(request: CompletionRequest): Promise<Record<string, any>>;
+}
+
+/**
+ * The provider and models to use for the AI functions, resolved from the
+ * settings of a user or from the environment.
+ */
+export interface LLMContext {
+  provider: LLMProvider;
+  models: Record<LLMTask, string>;
+}
@@ -1,33 +1,15 @@
 /**
- * @fileoverview This file contains functions that interact with the OpenAI API
- * to perform various AI-related tasks, such as classifying inquiries,
- * generating responses, analyzing sentiment, and improving templates.
+ * @fileoverview This file contains the AI functions, such as classifying
+ * inquiries, generating responses, analyzing sentiment, and improving
+ * templates. Each function builds a prompt and runs it on the LLM provider
+ * given by the caller, or on the server default provider.
  */
 
-import OpenAI from "openai";
+import type { ConversationTurn, InquiryClassification, TemplateImprovement, TemplateVariable } from "@shared/schema";
+import { extractVariables, renderTemplate, TemplateError } from "@shared/template-engine";
+import { resolveLLM, type LLMContext } from "./llm";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
-
-/**
- * Represents the classification of a customer inquiry.
- */
-export interface InquiryClassification {
-  /** The category of the inquiry (e.g., "project", "pricing"). */
-  category: string;
-  /** The priority of the inquiry. */
-  priority: "low" | "normal" | "high" | "urgent";
-  /** A brief description of what the customer wants. */
-  intent: string;
-  /** The confidence score of the classification (0.0 to 1.0). */
-  confidence: number;
-  /** A list of variables that need to be filled in for a response. */
-  requiredVariables: string[];
-  /** The ID of a suggested template to use for a response, if any. */
-  suggestedTemplateId?: string;
-}
+export type { InquiryClassification };
 
 /**
  * Represents a generated response to a customer inquiry.
@@ -42,23 +24,27 @@ export interface ResponseGeneration {
 }
 
 /**
- * Classifies a customer inquiry using the OpenAI API.
+ * Classifies a customer inquiry with the LLM.
  * @param {string} subject - The subject of the inquiry.
  * @param {string} content - The content of the inquiry.
  * @param {Array<{ id: string; name: string; category: string; content: string }>} existingTemplates - A list of existing templates to help with classification.
+ * @param {LLMContext} [llm] - The provider and models to use. Defaults to the server configuration.
+ * @param {ConversationTurn[]} [history=[]] - The earlier messages of the conversation, oldest first.
  * @returns {Promise<InquiryClassification>} A promise that resolves to the classification of the inquiry.
+ * @throws {Error} If the provider fails. Callers fall back to the rule-based classifier, see `services/classifier.ts`.
  */
 export async function classifyInquiry(
   subject: string,
   content: string,
-  existingTemplates: Array<{ id: string; name: string; category: string; content: string }>
+  existingTemplates: Array<{ id: string; name: string; category: string; content: string }>,
+  llm: LLMContext = resolveLLM(),
+  history: ConversationTurn[] = []
 ): Promise<InquiryClassification> {
-  try {
-    const templateContext = existingTemplates.map(t => 
-      `ID: ${t.id}, Name: ${t.name}, Category: ${t.category}`
-    ).join('\n');
+  const templateContext = existingTemplates.map(t => 
+    `ID: ${t.id}, Name: ${t.name}, Category: ${t.category}`
+  ).join('\n');
 
-    const prompt = `Analyze this customer inquiry and classify it. Return a JSON response with the following structure:
+  const prompt = `Analyze this customer inquiry and classify it. Return a JSON response with the following structure:
 {
   "category": "project|pricing|availability|support|general",
   "priority": "low|normal|high|urgent",
@@ -71,96 +57,124 @@ export async function classifyInquiry(
 Available templates:
 ${templateContext}
 
-Customer inquiry:
+${describeHistory(history)}Customer inquiry:
 Subject: ${subject || "No subject"}
 Content: ${content}
 
 Consider urgency indicators like "urgent", "ASAP", deadline mentions, etc. for priority.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert at analyzing customer inquiries for freelance businesses. Classify inquiries accurately to help automate responses."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-    });
+  const result = await llm.provider.completeJSON({
+    model: llm.models.classify,
+    system: "You are an expert at analyzing customer inquiries for freelance businesses. Classify inquiries accurately to help automate responses.",
+    prompt,
+    input: { task: "classify", subject, content, templates: existingTemplates, history },
+  });
+  
+  return {
+    category: result.category || "general",
+    priority: result.priority || "normal",
+    intent: result.intent || "General inquiry",
+    confidence: Math.max(0, Math.min(1, result.confidence || 0.5)),
+    requiredVariables: result.requiredVariables || [],
+    suggestedTemplateId: result.suggestedTemplateId || undefined,
+    engine: "llm",
+    model: `${llm.provider.name}/${llm.models.classify}`
+  };
+}
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    
-    return {
-      category: result.category || "general",
-      priority: result.priority || "normal",
-      intent: result.intent || "General inquiry",
-      confidence: Math.max(0, Math.min(1, result.confidence || 0.5)),
-      requiredVariables: result.requiredVariables || [],
-      suggestedTemplateId: result.suggestedTemplateId || undefined
-    };
-  } catch (error) {
-    console.error("Failed to classify inquiry:", error);
-    return {
-      category: "general",
-      priority: "normal",
-      intent: "Unable to classify inquiry",
-      confidence: 0,
-      requiredVariables: [],
-    };
+/**
+ * Describes the earlier messages of a conversation for a prompt, so a
+ * follow-up such as "Any news?" is read in the context of the thread.
+ * @param {ConversationTurn[]} history - The earlier messages, oldest first.
+ * @returns {string} A prompt section ending in a blank line, or an empty string if there are none.
+ */
+function describeHistory(history: ConversationTurn[]): string {
+  if (history.length === 0) {
+    return "";
+  }
+  const turns = history.map((turn) => {
+    const date = turn.at ? ` (${new Date(turn.at).toISOString().slice(0, 10)})` : "";
+    return `${turn.from === "customer" ? "Customer" : "You"}${date}: ${turn.content}`;
+  });
+  return `Earlier messages in this conversation, oldest first:\n${turns.join("\n\n")}\n\n`;
+}
+
+/**
+ * Describes the variables of a template for a prompt.
+ * @param {TemplateVariable[]} variables - The variables.
+ * @returns {string} One line per variable, or "none".
+ */
+function describeVariables(variables: TemplateVariable[]): string {
+  if (variables.length === 0) {
+    return "none";
   }
+  return variables.map((variable) => {
+    const details = [variable.type, variable.required ? "required" : "optional"];
+    if (variable.defaultValue !== undefined) {
+      details.push(`default "${variable.defaultValue}"`);
+    }
+    return `- ${variable.name} (${details.join(", ")})`;
+  }).join("\n");
 }
 
 /**
- * Generates a response to a customer inquiry using a template and the OpenAI API.
+ * Generates a response to a customer inquiry using a template. The variables
+ * that are already known are filled in by the template engine before the
+ * prompt is built, so the model only has to supply the rest.
  * @param {string} inquiryContent - The content of the customer inquiry.
  * @param {string} templateContent - The content of the template to use as a base.
  * @param {Record<string, string>} [variables={}] - A record of variables to fill in the template.
+ * @param {LLMContext} [llm] - The provider and models to use. Defaults to the server configuration.
+ * @param {ConversationTurn[]} [history=[]] - The earlier messages of the conversation, oldest first.
  * @returns {Promise<ResponseGeneration>} A promise that resolves to the generated response.
  */
 export async function generateResponse(
   inquiryContent: string,
   templateContent: string,
-  variables: Record<string, string> = {}
+  variables: Record<string, string> = {},
+  llm: LLMContext = resolveLLM(),
+  history: ConversationTurn[] = []
 ): Promise<ResponseGeneration> {
   try {
+    let template = templateContent;
+    let templateVariables: TemplateVariable[] = [];
+    try {
+      templateVariables = extractVariables(templateContent);
+      if (Object.keys(variables).length > 0) {
+        template = renderTemplate(templateContent, variables).content;
+      }
+    } catch (error) {
+      // a value that does not fit its type is left for the model to fix
+      if (!(error instanceof TemplateError)) throw error;
+    }
+
     const prompt = `Generate a personalized response to this customer inquiry using the provided template as a base.
 
-Template: ${templateContent}
+Template: ${template}
+
+Template variables:
+${describeVariables(templateVariables)}
 
-Customer inquiry: ${inquiryContent}
+${describeHistory(history)}Customer inquiry: ${inquiryContent}
 
-Available variables: ${JSON.stringify(variables)}
+Known variable values: ${JSON.stringify(variables)}
 
 Instructions:
 1. Personalize the template based on the specific inquiry
-2. Fill in any variables with appropriate values from the inquiry context
+2. Replace every remaining {{placeholder}} with a value from the inquiry context, or its default; resolve {{#if}} sections accordingly
 3. Maintain a professional but friendly tone
-4. Keep the response concise but comprehensive
+4. Keep the response concise but comprehensive; do not repeat what was already said earlier in the conversation
 5. Return JSON with: {"content": "the response", "confidence": 0.0-1.0, "variables": {"extracted": "values"}}`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert freelancer assistant helping to craft professional responses to client inquiries."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const result = await llm.provider.completeJSON({
+      model: llm.models.generate,
+      system: "You are an expert freelancer assistant helping to craft professional responses to client inquiries.",
+      prompt,
+      input: { task: "generate", inquiryContent, templateContent, variables, history },
     });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
     
     return {
-      content: result.content || templateContent,
+      content: result.content || template,
       confidence: Math.max(0, Math.min(1, result.confidence || 0.5)),
       variables: result.variables || {}
     };
@@ -175,32 +189,23 @@ Instructions:
 }
 
 /**
- * Analyzes the sentiment of a piece of text using the OpenAI API.
+ * Analyzes the sentiment of a piece of text.
  * @param {string} text - The text to analyze.
+ * @param {LLMContext} [llm] - The provider and models to use. Defaults to the server configuration.
  * @returns {Promise<{ rating: number; confidence: number; }>} A promise that resolves to the sentiment analysis result.
  */
-export async function analyzeSentiment(text: string): Promise<{
+export async function analyzeSentiment(text: string, llm: LLMContext = resolveLLM()): Promise<{
   rating: number;
   confidence: number;
 }> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages: [
-        {
-          role: "system",
-          content: "You are a sentiment analysis expert. Analyze the sentiment of the text and provide a rating from 1 to 5 stars and a confidence score between 0 and 1. Respond with JSON in this format: { 'rating': number, 'confidence': number }"
-        },
-        {
-          role: "user",
-          content: text
-        }
-      ],
-      response_format: { type: "json_object" },
+    const result = await llm.provider.completeJSON({
+      model: llm.models.sentiment,
+      system: "You are a sentiment analysis expert. Analyze the sentiment of the text and provide a rating from 1 to 5 stars and a confidence score between 0 and 1. Respond with JSON in this format: { 'rating': number, 'confidence': number }",
+      prompt: text,
+      input: { task: "sentiment", text },
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-
     return {
       rating: Math.max(1, Math.min(5, Math.round(result.rating || 3))),
       confidence: Math.max(0, Math.min(1, result.confidence || 0.5))
@@ -215,26 +220,30 @@ export async function analyzeSentiment(text: string): Promise<{
 }
 
 /**
- * Improves a template based on performance data using the OpenAI API.
+ * Improves a template based on performance data.
  * @param {string} templateContent - The content of the template to improve.
- * @param {Array<{ success: boolean; customerFeedback?: number; responseTime?: number }>} feedbackData - An array of feedback data for the template.
- * @returns {Promise<{ improvedContent: string; improvements: string[]; confidence: number; }>} A promise that resolves to the improved template and a list of improvements.
+ * @param {Array<{ success: boolean; customerFeedback?: number; responseTime?: number }>} feedbackData - An array of feedback data for the template, with response times in seconds.
+ * @param {LLMContext} [llm] - The provider and models to use. Defaults to the server configuration.
+ * @returns {Promise<TemplateImprovement>} A promise that resolves to the improved template and a list of improvements.
  */
 export async function improveTemplate(
   templateContent: string,
-  feedbackData: Array<{ success: boolean; customerFeedback?: number; responseTime?: number }>
-): Promise<{
-  improvedContent: string;
-  improvements: string[];
-  confidence: number;
-}> {
+  feedbackData: Array<{ success: boolean; customerFeedback?: number; responseTime?: number }>,
+  llm: LLMContext = resolveLLM()
+): Promise<TemplateImprovement> {
   try {
+    const rated = feedbackData.filter(f => f.customerFeedback);
+    const timed = feedbackData.filter(f => f.responseTime !== undefined);
     const feedbackSummary = {
-      successRate: feedbackData.filter(f => f.success).length / feedbackData.length,
-      averageRating: feedbackData
-        .filter(f => f.customerFeedback)
-        .reduce((sum, f) => sum + (f.customerFeedback || 0), 0) / 
-        feedbackData.filter(f => f.customerFeedback).length || 0,
+      successRate: feedbackData.length > 0
+        ? feedbackData.filter(f => f.success).length / feedbackData.length
+        : 0,
+      averageRating: rated.length > 0
+        ? rated.reduce((sum, f) => sum + (f.customerFeedback || 0), 0) / rated.length
+        : 0,
+      averageResponseTime: timed.length > 0
+        ? Math.round(timed.reduce((sum, f) => sum + (f.responseTime || 0), 0) / timed.length)
+        : null,
       totalUsage: feedbackData.length
     };
 
@@ -245,6 +254,7 @@ Current template: ${templateContent}
 Performance data:
 - Success rate: ${(feedbackSummary.successRate * 100).toFixed(1)}%
 - Average customer rating: ${feedbackSummary.averageRating.toFixed(1)}/5
+- Average response time: ${feedbackSummary.averageResponseTime === null ? "unknown" : `${Math.round(feedbackSummary.averageResponseTime / 60)} minutes`}
 - Total usage: ${feedbackSummary.totalUsage} times
 
 Please suggest improvements and return JSON with:
@@ -254,24 +264,15 @@ Please suggest improvements and return JSON with:
   "confidence": 0.0-1.0
 }
 
-Focus on clarity, professionalism, and addressing common customer concerns.`;
+Focus on clarity, professionalism, and addressing common customer concerns.
+Keep the {{placeholders}} and {{#if}} sections of the template, with the same syntax.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert copywriter specializing in freelance business communications. Improve templates based on performance data."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const result = await llm.provider.completeJSON({
+      model: llm.models.improve,
+      system: "You are an expert copywriter specializing in freelance business communications. Improve templates based on performance data.",
+      prompt,
+      input: { task: "improve", templateContent, ...feedbackSummary },
     });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
     
     return {
       improvedContent: result.improvedContent || templateContent,
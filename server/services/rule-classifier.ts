@@ -0,0 +1,178 @@
+/**
+ * @fileoverview This file contains the rule-based classifier. It works fully
+ * offline and always gives the same answer for the same input, which makes it
+ * a safe fallback when the LLM fails and a cheap first pass before it. The
+ * category is scored from keyword and regex rules, the user's templates, and
+ * the user's past inquiries that were classified with confidence; priority
+ * comes from urgency and deadline phrases.
+ */
+
+import type { InquiryClassification, TemplateVariable } from "@shared/schema";
+import { tokenize } from "../search-index";
+
+/**
+ * A template the classifier can suggest.
+ */
+export interface RuleTemplate {
+  id: string;
+  name: string;
+  category: string;
+  content: string;
+  variables?: TemplateVariable[] | null;
+}
+
+/**
+ * A past inquiry whose category is known.
+ */
+export interface LabelledExample {
+  subject: string | null;
+  content: string;
+  category: string;
+}
+
+/**
+ * A rule that points to a category.
+ */
+interface CategoryRule {
+  category: string;
+  label: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+const CATEGORY_RULES: CategoryRule[] = [
+  { category: "pricing", label: "pricing words", pattern: /\b(price|pricing|prices|cost|costs|quote|quotation|rates?|budget|estimate|invoice|fee|fees)\b/i, weight: 2 },
+  { category: "pricing", label: "currency amount", pattern: /[$€£]\s?\d|\b\d+\s?(usd|eur|gbp|dollars|euros)\b/i, weight: 1 },
+  { category: "pricing", label: "how much", pattern: /\bhow much\b/i, weight: 2 },
+  { category: "availability", label: "availability words", pattern: /\b(available|availability|capacity|schedule|free to|bandwidth)\b/i, weight: 2 },
+  { category: "availability", label: "start date question", pattern: /\b(when can you start|start (date|on|next)|are you free)\b/i, weight: 2 },
+  { category: "support", label: "problem words", pattern: /\b(bug|issue|problem|broken|error|crash(es|ed)?|not working|doesn'?t work|fix)\b/i, weight: 2 },
+  { category: "support", label: "help request", pattern: /\b(help|support|assist)\b/i, weight: 1 },
+  { category: "project", label: "project words", pattern: /\b(project|website|web ?site|app|application|redesign|design|build|develop(ment)?|logo|brand(ing)?)\b/i, weight: 2 },
+  { category: "project", label: "hiring intent", pattern: /\b(looking for|hire|hiring|need (a|an|someone)|work with you)\b/i, weight: 1 },
+];
+
+const URGENT_PATTERN = /\b(asap|urgent(ly)?|emergency|immediately|right away|as soon as possible|critical)\b/i;
+const DEADLINE_PATTERN = /\b(deadline|due (by|on|date)|by (tomorrow|tonight|today|monday|tuesday|wednesday|thursday|friday|saturday|sunday|end of (the )?(day|week|month)|next week)|within \d+ (hours?|days?))\b/i;
+const LOW_PATTERN = /\b(no rush|whenever|no hurry|not urgent|just curious|in the future)\b/i;
+
+const TEMPLATE_WEIGHT = 3;
+const EXAMPLE_WEIGHT = 3;
+const NEIGHBOURS = 5;
+
+/**
+ * Measures how many stems two texts share, relative to their size.
+ * @param {Set<string>} a - The stems of the first text.
+ * @param {Set<string>} b - The stems of the second text.
+ * @returns {number} The Jaccard similarity, from 0 to 1.
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  a.forEach((term) => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Classifies an inquiry with local rules only.
+ * @param {string} subject - The subject of the inquiry.
+ * @param {string} content - The content of the inquiry.
+ * @param {RuleTemplate[]} templates - The user's templates.
+ * @param {LabelledExample[]} [examples=[]] - The user's past inquiries with a known category.
+ * @returns {InquiryClassification} The classification, with `engine: "rules"` and the rules that fired.
+ */
+export function classifyWithRules(
+  subject: string,
+  content: string,
+  templates: RuleTemplate[],
+  examples: LabelledExample[] = []
+): InquiryClassification {
+  const text = `${subject}\n${content}`;
+  const terms = new Set(tokenize(text));
+  const scores = new Map<string, number>();
+  const signals: string[] = [];
+  const addScore = (category: string, score: number) => {
+    scores.set(category, (scores.get(category) ?? 0) + score);
+  };
+
+  for (const rule of CATEGORY_RULES) {
+    const match = text.match(rule.pattern);
+    if (match) {
+      addScore(rule.category, rule.weight);
+      signals.push(`${rule.category}: ${rule.label} ("${match[0]}")`);
+    }
+  }
+
+  // the template that reads most like the inquiry
+  let bestTemplate: { template: RuleTemplate; score: number } | undefined;
+  for (const template of templates) {
+    const score = similarity(terms, new Set(tokenize(`${template.name} ${template.category} ${template.content}`)));
+    if (score > 0 && (!bestTemplate || score > bestTemplate.score)) {
+      bestTemplate = { template, score };
+    }
+  }
+  if (bestTemplate) {
+    addScore(bestTemplate.template.category, bestTemplate.score * TEMPLATE_WEIGHT);
+    signals.push(`${bestTemplate.template.category}: similar to template "${bestTemplate.template.name}"`);
+  }
+
+  // vote of the most similar past inquiries
+  const neighbours = examples
+    .map((example) => ({
+      category: example.category,
+      score: similarity(terms, new Set(tokenize(`${example.subject ?? ""} ${example.content}`))),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, NEIGHBOURS);
+  for (const neighbour of neighbours) {
+    addScore(neighbour.category, neighbour.score * EXAMPLE_WEIGHT);
+  }
+  if (neighbours.length > 0) {
+    signals.push(`similar past inquiries: ${neighbours.map(({ category }) => category).join(", ")}`);
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const [category, top] = ranked[0] ?? ["general", 0];
+  const second = ranked[1]?.[1] ?? 0;
+
+  let priority: InquiryClassification["priority"] = "normal";
+  const urgent = text.match(URGENT_PATTERN);
+  const deadline = text.match(DEADLINE_PATTERN);
+  const low = text.match(LOW_PATTERN);
+  if (urgent) {
+    priority = "urgent";
+    signals.push(`urgency phrase ("${urgent[0]}")`);
+  } else if (deadline) {
+    priority = "high";
+    signals.push(`deadline ("${deadline[0]}")`);
+  } else if (low) {
+    priority = "low";
+    signals.push(`no rush ("${low[0]}")`);
+  }
+
+  // rules are never as sure as a model: confidence tops out at 0.8, and is
+  // lower when another category scored almost as high
+  const confidence = top === 0 ? 0.3 : Math.min(0.8, 0.45 + 0.35 * (top - second) / top + Math.min(top, 4) * 0.05);
+
+  const template = bestTemplate?.template.category === category
+    ? bestTemplate.template
+    : templates.find((t) => t.category === category);
+  const intent = content.split(/[.!?\n]/)[0].trim().slice(0, 120);
+
+  return {
+    category,
+    priority,
+    intent: intent || "General inquiry",
+    confidence: Math.round(confidence * 100) / 100,
+    requiredVariables: template?.variables?.map((variable) => variable.name) ?? [],
+    suggestedTemplateId: template?.id,
+    engine: "rules",
+    signals,
+  };
+}
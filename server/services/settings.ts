@@ -0,0 +1,59 @@
+/**
+ * @fileoverview This file contains helpers to read and update the settings of
+ * a user, falling back to the defaults for anything that was never saved.
+ */
+
+import { storage } from "../storage";
+import {
+  defaultSettings,
+  type ProfileSettings,
+  type AISettings,
+  type NotificationSettings,
+} from "@shared/schema";
+
+/**
+ * The settings of a user, with defaults applied.
+ */
+export interface ResolvedSettings {
+  profile: ProfileSettings;
+  ai: AISettings;
+  notifications: NotificationSettings;
+}
+
+/**
+ * Gets the settings of a user. Sections that were never saved, and fields
+ * added after they were saved, are filled in from the defaults.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<ResolvedSettings>} A promise that resolves to the settings.
+ */
+export async function getSettings(userId: string): Promise<ResolvedSettings> {
+  const saved = await storage.getUserSettings(userId);
+
+  return {
+    profile: { ...defaultSettings.profile, ...saved?.profile },
+    ai: { ...defaultSettings.ai, ...saved?.ai },
+    notifications: { ...defaultSettings.notifications, ...saved?.notifications },
+  };
+}
+
+/**
+ * Replaces one section of a user's settings, keeping the other sections.
+ * @param {string} userId - The ID of the user.
+ * @param {K} section - The section to replace.
+ * @param {ResolvedSettings[K]} values - The new values of the section.
+ * @returns {Promise<ResolvedSettings[K]>} A promise that resolves to the saved section.
+ */
+export async function updateSettings<K extends keyof ResolvedSettings>(
+  userId: string,
+  section: K,
+  values: ResolvedSettings[K]
+): Promise<ResolvedSettings[K]> {
+  const current = await getSettings(userId);
+  const saved = await storage.upsertUserSettings({
+    userId,
+    ...current,
+    [section]: values,
+  });
+
+  return saved[section];
+}
@@ -1,7 +1,7 @@
 /**
- * @fileoverview This file defines the storage interface and an in-memory
- * implementation of that interface. This is used to store and retrieve all
- * the application's data.
+ * @fileoverview This file defines the storage interface along with an
+ * in-memory and a PostgreSQL-backed implementation of that interface. This is
+ * used to store and retrieve all the application's data.
  */
 
 import { 
@@ -9,21 +9,73 @@ import {
   type InsertUser,
   type Template,
   type InsertTemplate,
+  type TemplateVersion,
+  type TemplateRevision,
+  type TemplateVariant,
+  type InsertTemplateVariant,
   type Inquiry,
   type InsertInquiry,
+  type InquiryQuery,
+  type InquiryPage,
+  type SearchResult,
   type Response,
   type InsertResponse,
   type Integration,
   type InsertIntegration,
   type Analytics,
-  type InsertAnalytics
+  type InsertAnalytics,
+  type DailyAnalytics,
+  type AnalyticsReply,
+  type UserSettings,
+  type InsertUserSettings,
+  type ActivityEvent,
+  type InsertActivityEvent,
+  type ActivityQuery,
+  type ActivityPage,
+  type Conversation,
+  type InsertConversation,
+  type ConversationQuery,
+  type ConversationPage,
+  users,
+  templates,
+  templateVersions,
+  templateVariants,
+  versionedTemplateFields,
+  inquiries,
+  responses,
+  integrations,
+  analytics,
+  userSettings,
+  activityEvents,
+  conversations,
+  inquiryPriorities,
+  searchVector
 } from "@shared/schema";
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "@shared/search";
+import { extractVariables } from "@shared/template-engine";
+import { templateStats } from "@shared/response-outcome";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import type { Pool } from "@neondatabase/serverless";
+import { createDatabase, type Database } from "./db";
+import { SearchIndex } from "./search-index";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 /**
  * Interface for storage operations.
  */
 export interface IStorage {
+  /**
+   * The express-session store used to persist login sessions.
+   */
+  sessionStore: session.Store;
+
   // User operations
   /**
    * Gets a user by their ID.
@@ -43,6 +95,18 @@ export interface IStorage {
    * @returns {Promise<User>} A promise that resolves to the created user.
    */
   createUser(user: InsertUser): Promise<User>;
+  /**
+   * Updates a user.
+   * @param {string} id - The ID of the user to update.
+   * @param {Partial<User>} user - The user updates.
+   * @returns {Promise<User | undefined>} A promise that resolves to the updated user, or undefined if not found.
+   */
+  updateUser(id: string, user: Partial<User>): Promise<User | undefined>;
+  /**
+   * Gets all users.
+   * @returns {Promise<User[]>} A promise that resolves to a list of users.
+   */
+  getUsers(): Promise<User[]>;
 
   // Template operations
   /**
@@ -58,24 +122,81 @@ export interface IStorage {
    */
   getTemplate(id: string): Promise<Template | undefined>;
   /**
-   * Creates a new template.
+   * Creates a new template and stores it as version 1. Its variables are
+   * parsed from the content.
    * @param {InsertTemplate} template - The template to create.
    * @returns {Promise<Template>} A promise that resolves to the created template.
+   * @throws {TemplateError} If the content is not a valid template.
    */
   createTemplate(template: InsertTemplate): Promise<Template>;
   /**
-   * Updates a template.
+   * Updates a template. When the content changes, its variables are parsed
+   * again. With a revision, a change to a versioned field also stores a new
+   * version; without one, e.g. for toggling or usage counters, none is stored.
    * @param {string} id - The ID of the template to update.
    * @param {Partial<Template>} template - The template updates.
+   * @param {TemplateRevision} [revision] - Who made the edit and why.
    * @returns {Promise<Template | undefined>} A promise that resolves to the updated template, or undefined if not found.
+   * @throws {TemplateError} If the new content is not a valid template.
    */
-  updateTemplate(id: string, template: Partial<Template>): Promise<Template | undefined>;
+  updateTemplate(id: string, template: Partial<Template>, revision?: TemplateRevision): Promise<Template | undefined>;
   /**
-   * Deletes a template.
+   * Recomputes the usage, success rate and average rating of a template from
+   * its sent responses. Called whenever a response is sent or gets feedback.
+   * @param {string} templateId - The ID of the template.
+   * @returns {Promise<Template | undefined>} A promise that resolves to the updated template, or undefined if not found.
+   */
+  refreshTemplateStats(templateId: string): Promise<Template | undefined>;
+  /**
+   * Deletes a template and its versions.
    * @param {string} id - The ID of the template to delete.
    * @returns {Promise<boolean>} A promise that resolves to true if the template was deleted, false otherwise.
    */
   deleteTemplate(id: string): Promise<boolean>;
+  /**
+   * Gets the versions of a template.
+   * @param {string} templateId - The ID of the template.
+   * @returns {Promise<TemplateVersion[]>} A promise that resolves to the versions, newest first.
+   */
+  getTemplateVersions(templateId: string): Promise<TemplateVersion[]>;
+  /**
+   * Gets one version of a template.
+   * @param {string} templateId - The ID of the template.
+   * @param {number} version - The version number.
+   * @returns {Promise<TemplateVersion | undefined>} A promise that resolves to the version, or undefined if not found.
+   */
+  getTemplateVersion(templateId: string, version: number): Promise<TemplateVersion | undefined>;
+  /**
+   * Gets the A/B test variants of a template, including inactive ones.
+   * @param {string} templateId - The ID of the template.
+   * @returns {Promise<TemplateVariant[]>} A promise that resolves to the variants, oldest first.
+   */
+  getTemplateVariants(templateId: string): Promise<TemplateVariant[]>;
+  /**
+   * Gets a template variant by its ID.
+   * @param {string} id - The ID of the variant.
+   * @returns {Promise<TemplateVariant | undefined>} A promise that resolves to the variant, or undefined if not found.
+   */
+  getTemplateVariant(id: string): Promise<TemplateVariant | undefined>;
+  /**
+   * Creates a new template variant.
+   * @param {InsertTemplateVariant} variant - The variant to create.
+   * @returns {Promise<TemplateVariant>} A promise that resolves to the created variant.
+   */
+  createTemplateVariant(variant: InsertTemplateVariant): Promise<TemplateVariant>;
+  /**
+   * Updates a template variant.
+   * @param {string} id - The ID of the variant to update.
+   * @param {Partial<TemplateVariant>} variant - The variant updates.
+   * @returns {Promise<TemplateVariant | undefined>} A promise that resolves to the updated variant, or undefined if not found.
+   */
+  updateTemplateVariant(id: string, variant: Partial<TemplateVariant>): Promise<TemplateVariant | undefined>;
+  /**
+   * Deletes a template variant.
+   * @param {string} id - The ID of the variant to delete.
+   * @returns {Promise<boolean>} A promise that resolves to true if the variant was deleted, false otherwise.
+   */
+  deleteTemplateVariant(id: string): Promise<boolean>;
 
   // Inquiry operations
   /**
@@ -84,18 +205,118 @@ export interface IStorage {
    * @returns {Promise<Inquiry[]>} A promise that resolves to a list of inquiries.
    */
   getInquiries(userId: string): Promise<Inquiry[]>;
+  /**
+   * Gets the inquiries of a user that arrived in a range of time.
+   * @param {string} userId - The ID of the user.
+   * @param {Date} from - The start of the range, included.
+   * @param {Date} to - The end of the range, excluded.
+   * @returns {Promise<Inquiry[]>} A promise that resolves to a list of inquiries.
+   */
+  getInquiriesBetween(userId: string, from: Date, to: Date): Promise<Inquiry[]>;
   /**
    * Gets an inquiry by its ID.
    * @param {string} id - The ID of the inquiry to get.
    * @returns {Promise<Inquiry | undefined>} A promise that resolves to the inquiry, or undefined if not found.
    */
   getInquiry(id: string): Promise<Inquiry | undefined>;
+  /**
+   * Gets an inquiry by the ID it has on the platform it came from, such as
+   * the Message-ID of an email.
+   * @param {string} userId - The ID of the user.
+   * @param {string} source - The platform the inquiry came from.
+   * @param {string} externalId - The ID of the message on that platform.
+   * @returns {Promise<Inquiry | undefined>} A promise that resolves to the inquiry, or undefined if it was never imported.
+   */
+  getInquiryByExternalId(userId: string, source: string, externalId: string): Promise<Inquiry | undefined>;
+  /**
+   * Gets one page of a user's inquiries, filtered and sorted. An inquiry
+   * counts as answered once a response to it has been sent.
+   * @param {string} userId - The ID of the user to get inquiries for.
+   * @param {InquiryQuery} query - The filters, sorting and page to get.
+   * @returns {Promise<InquiryPage>} A promise that resolves to the page of inquiries and the total number of matches.
+   */
+  queryInquiries(userId: string, query: InquiryQuery): Promise<InquiryPage>;
   /**
    * Creates a new inquiry.
    * @param {InsertInquiry} inquiry - The inquiry to create.
    * @returns {Promise<Inquiry>} A promise that resolves to the created inquiry.
    */
   createInquiry(inquiry: InsertInquiry): Promise<Inquiry>;
+  /**
+   * Updates an inquiry.
+   * @param {string} id - The ID of the inquiry to update.
+   * @param {Partial<Inquiry>} inquiry - The fields to update.
+   * @returns {Promise<Inquiry | undefined>} A promise that resolves to the updated inquiry, or undefined if not found.
+   */
+  updateInquiry(id: string, inquiry: Partial<Inquiry>): Promise<Inquiry | undefined>;
+  /**
+   * Gets the inquiries of a conversation, oldest first.
+   * @param {string} conversationId - The ID of the conversation.
+   * @returns {Promise<Inquiry[]>} A promise that resolves to the inquiries.
+   */
+  getInquiriesByConversation(conversationId: string): Promise<Inquiry[]>;
+  /**
+   * Gets a user's inquiries that belong to no conversation yet, oldest first.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<Inquiry[]>} A promise that resolves to the inquiries.
+   */
+  getInquiriesWithoutConversation(userId: string): Promise<Inquiry[]>;
+
+  // Conversation operations
+  /**
+   * Gets a conversation by its ID.
+   * @param {string} id - The ID of the conversation.
+   * @returns {Promise<Conversation | undefined>} A promise that resolves to the conversation, or undefined if not found.
+   */
+  getConversation(id: string): Promise<Conversation | undefined>;
+  /**
+   * Gets one page of a user's conversations, the latest message first. A
+   * conversation awaits a reply while one of its inquiries has no sent response.
+   * @param {string} userId - The ID of the user.
+   * @param {ConversationQuery} query - The page to get.
+   * @returns {Promise<ConversationPage>} A promise that resolves to the page of conversations and the total number.
+   */
+  queryConversations(userId: string, query: ConversationQuery): Promise<ConversationPage>;
+  /**
+   * Finds the conversation a message belongs to by the IDs of the messages it
+   * answers: the external ID of an inquiry, or the Message-ID of a sent reply.
+   * @param {string} userId - The ID of the user.
+   * @param {string[]} messageIds - The IDs of the earlier messages.
+   * @returns {Promise<Conversation | undefined>} A promise that resolves to the conversation, or undefined if none matches.
+   */
+  getConversationByMessageIds(userId: string, messageIds: string[]): Promise<Conversation | undefined>;
+  /**
+   * Gets a user's conversations with a participant that had a message since a
+   * given time, the latest first.
+   * @param {string} userId - The ID of the user.
+   * @param {string | null} source - The platform of the conversations.
+   * @param {string} participant - The participant, as stored on the conversation.
+   * @param {Date} since - The earliest last message to include.
+   * @returns {Promise<Conversation[]>} A promise that resolves to the conversations.
+   */
+  getRecentConversations(userId: string, source: string | null, participant: string, since: Date): Promise<Conversation[]>;
+  /**
+   * Creates a new conversation.
+   * @param {InsertConversation} conversation - The conversation to create.
+   * @returns {Promise<Conversation>} A promise that resolves to the created conversation.
+   */
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  /**
+   * Updates a conversation.
+   * @param {string} id - The ID of the conversation to update.
+   * @param {Partial<Conversation>} conversation - The fields to update.
+   * @returns {Promise<Conversation | undefined>} A promise that resolves to the updated conversation, or undefined if not found.
+   */
+  updateConversation(id: string, conversation: Partial<Conversation>): Promise<Conversation | undefined>;
+  /**
+   * Counts a new inquiry in a conversation. The count is raised in one step,
+   * so inquiries threaded at the same time are all counted.
+   * @param {string} id - The ID of the conversation.
+   * @param {string | null} sender - The sender of the inquiry, which becomes the conversation's sender when set.
+   * @param {Date} at - When the inquiry arrived. The time of the last message never moves back.
+   * @returns {Promise<Conversation | undefined>} A promise that resolves to the updated conversation, or undefined if not found.
+   */
+  addInquiryToConversation(id: string, sender: string | null, at: Date): Promise<Conversation | undefined>;
 
   // Response operations
   /**
@@ -110,6 +331,47 @@ export interface IStorage {
    * @returns {Promise<Response[]>} A promise that resolves to a list of responses.
    */
   getResponsesByUser(userId: string): Promise<Response[]>;
+  /**
+   * Gets all responses made from a template.
+   * @param {string} templateId - The ID of the template.
+   * @returns {Promise<Response[]>} A promise that resolves to a list of responses.
+   */
+  getResponsesByTemplate(templateId: string): Promise<Response[]>;
+  /**
+   * Gets a batch of a user's responses sent between two dates, oldest first.
+   * Used to read long histories a batch at a time.
+   * @param {string} userId - The ID of the user.
+   * @param {Date} from - The start of the range, included.
+   * @param {Date} to - The end of the range, excluded.
+   * @param {number} offset - The number of responses to skip.
+   * @param {number} limit - The maximum number of responses to get.
+   * @returns {Promise<Response[]>} A promise that resolves to the batch of responses.
+   */
+  getSentResponsesBetween(userId: string, from: Date, to: Date, offset: number, limit: number): Promise<Response[]>;
+  /**
+   * Gets the responses of a user sent in a range of time, with when the
+   * inquiry each one answers arrived and whether it was the first reply to it.
+   * Ties in the send time go to the response with the lower ID.
+   * @param {string} userId - The ID of the user.
+   * @param {Date} from - The start of the range, included.
+   * @param {Date} to - The end of the range, excluded.
+   * @returns {Promise<AnalyticsReply[]>} A promise that resolves to the sent replies.
+   */
+  getRepliesForAnalytics(userId: string, from: Date, to: Date): Promise<AnalyticsReply[]>;
+  /**
+   * Gets the queued responses whose next delivery attempt is due, of all users,
+   * the longest waiting first.
+   * @param {Date} now - The current time.
+   * @param {number} limit - The maximum number of responses to get.
+   * @returns {Promise<Response[]>} A promise that resolves to the due responses.
+   */
+  getDueDeliveries(now: Date, limit: number): Promise<Response[]>;
+  /**
+   * Gets a response by its ID.
+   * @param {string} id - The ID of the response to get.
+   * @returns {Promise<Response | undefined>} A promise that resolves to the response, or undefined if not found.
+   */
+  getResponse(id: string): Promise<Response | undefined>;
   /**
    * Creates a new response.
    * @param {InsertResponse} response - The response to create.
@@ -123,6 +385,19 @@ export interface IStorage {
    * @returns {Promise<Response | undefined>} A promise that resolves to the updated response, or undefined if not found.
    */
   updateResponse(id: string, response: Partial<Response>): Promise<Response | undefined>;
+  /**
+   * Claims an approved response for a delivery attempt, if its delivery is
+   * still as the caller read it and the attempt is due. The claim counts the
+   * attempt and holds the response until `leaseUntil`, so no one else sends
+   * it in the meantime.
+   * @param {Response} response - The response, as the caller read it.
+   * @param {number} attempt - The number of the attempt.
+   * @param {Date} now - The current time.
+   * @param {Date} leaseUntil - When the attempt is given up on if it did not finish.
+   * @returns {Promise<Response | undefined>} A promise that resolves to the claimed response, or undefined if it was
+   * claimed, sent or changed by someone else.
+   */
+  claimDelivery(response: Response, attempt: number, now: Date, leaseUntil: Date): Promise<Response | undefined>;
 
   // Integration operations
   /**
@@ -137,6 +412,13 @@ export interface IStorage {
    * @returns {Promise<Integration | undefined>} A promise that resolves to the integration, or undefined if not found.
    */
   getIntegration(id: string): Promise<Integration | undefined>;
+  /**
+   * Gets the active integrations of all users on some platforms, for the
+   * background jobs that sync them.
+   * @param {readonly string[]} platforms - The platforms.
+   * @returns {Promise<Integration[]>} A promise that resolves to the active integrations.
+   */
+  getActiveIntegrations(platforms: readonly string[]): Promise<Integration[]>;
   /**
    * Creates a new integration.
    * @param {InsertIntegration} integration - The integration to create.
@@ -156,9 +438,17 @@ export interface IStorage {
    * Gets analytics data for a user.
    * @param {string} userId - The ID of the user to get analytics for.
    * @param {number} [days] - The number of days to get analytics for.
-   * @returns {Promise<Analytics[]>} A promise that resolves to a list of analytics data.
+   * @returns {Promise<Analytics[]>} A promise that resolves to a list of analytics data, oldest first.
    */
   getAnalytics(userId: string, days?: number): Promise<Analytics[]>;
+  /**
+   * Gets the daily analytics of a user between two dates.
+   * @param {string} userId - The ID of the user.
+   * @param {Date} from - The start of the range, included.
+   * @param {Date} to - The end of the range, excluded.
+   * @returns {Promise<Analytics[]>} A promise that resolves to the analytics rows, oldest first.
+   */
+  getAnalyticsBetween(userId: string, from: Date, to: Date): Promise<Analytics[]>;
   /**
    * Creates new analytics data.
    * @param {InsertAnalytics} analytics - The analytics data to create.
@@ -172,6 +462,94 @@ export interface IStorage {
    * @returns {Promise<Analytics | undefined>} A promise that resolves to the updated analytics data, or undefined if not found.
    */
   updateAnalytics(id: string, analytics: Partial<Analytics>): Promise<Analytics | undefined>;
+  /**
+   * Creates or replaces the analytics of a user for one day.
+   * @param {DailyAnalytics} analytics - The analytics, dated to the start of the day.
+   * @returns {Promise<Analytics>} A promise that resolves to the saved analytics data.
+   */
+  upsertAnalytics(analytics: DailyAnalytics): Promise<Analytics>;
+
+  // Settings operations
+  /**
+   * Gets the saved settings of a user.
+   * @param {string} userId - The ID of the user to get settings for.
+   * @returns {Promise<UserSettings | undefined>} A promise that resolves to the settings, or undefined if none were saved.
+   */
+  getUserSettings(userId: string): Promise<UserSettings | undefined>;
+  /**
+   * Creates or replaces the settings of a user.
+   * @param {InsertUserSettings} settings - The settings to save.
+   * @returns {Promise<UserSettings>} A promise that resolves to the saved settings.
+   */
+  upsertUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
+
+  // Activity operations
+  /**
+   * Gets one page of a user's activity log, newest first.
+   * @param {string} userId - The ID of the user.
+   * @param {ActivityQuery} query - The page and page size.
+   * @returns {Promise<ActivityPage>} A promise that resolves to the page of events and the total number of events.
+   */
+  getActivityEvents(userId: string, query: ActivityQuery): Promise<ActivityPage>;
+  /**
+   * Records a new activity event.
+   * @param {InsertActivityEvent} event - The event to record.
+   * @returns {Promise<ActivityEvent>} A promise that resolves to the recorded event.
+   */
+  createActivityEvent(event: InsertActivityEvent): Promise<ActivityEvent>;
+
+  // Search operations
+  /**
+   * Searches a user's inquiries, responses and templates. Every word of the
+   * query has to match; hits are ranked by relevance.
+   * @param {string} userId - The ID of the user to search for.
+   * @param {string} query - The search query.
+   * @param {number} limit - The maximum number of hits.
+   * @returns {Promise<SearchResult[]>} A promise that resolves to the hits, best first.
+   */
+  search(userId: string, query: string, limit: number): Promise<SearchResult[]>;
+}
+
+/**
+ * Gets the position of a priority in `inquiryPriorities`, used to sort
+ * inquiries from low to urgent. Unknown priorities sort as "normal".
+ * @param {string | null} priority - The priority of an inquiry.
+ * @returns {number} The rank of the priority.
+ */
+function priorityRank(priority: string | null): number {
+  const rank = inquiryPriorities.indexOf(priority as typeof inquiryPriorities[number]);
+  return rank === -1 ? inquiryPriorities.indexOf("normal") : rank;
+}
+
+/**
+ * Checks whether an update changes a versioned field of a template.
+ * @param {Template} template - The template as stored.
+ * @param {Partial<Template>} updates - The updates.
+ * @returns {boolean} True if the name, category, subject or content changes.
+ */
+function changesVersionedFields(template: Template, updates: Partial<Template>): boolean {
+  return versionedTemplateFields.some((field) => updates[field] !== undefined && updates[field] !== template[field]);
+}
+
+/**
+ * Builds the snapshot of a template stored as one of its versions.
+ * @param {Template} template - The template, at the version to store.
+ * @param {TemplateRevision} revision - Who made the version and why.
+ * @returns {Omit<TemplateVersion, "id" | "createdAt">} The version without its ID and timestamp.
+ */
+function versionSnapshot(template: Template, revision: TemplateRevision): Omit<TemplateVersion, "id" | "createdAt"> {
+  return {
+    templateId: template.id,
+    version: template.version,
+    name: template.name,
+    category: template.category,
+    subject: template.subject,
+    content: template.content,
+    variables: template.variables,
+    authorId: revision.authorId,
+    source: revision.source,
+    note: revision.note ?? null,
+  };
 }
 
 /**
@@ -180,101 +558,34 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private templates: Map<string, Template>;
+  private templateVersions: Map<string, TemplateVersion[]>;
+  private templateVariants: Map<string, TemplateVariant>;
   private inquiries: Map<string, Inquiry>;
+  private conversations: Map<string, Conversation>;
   private responses: Map<string, Response>;
   private integrations: Map<string, Integration>;
   private analytics: Map<string, Analytics>;
+  private userSettings: Map<string, UserSettings>;
+  private activityEvents: ActivityEvent[];
+  private searchIndex: SearchIndex;
+  public sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.templates = new Map();
+    this.templateVersions = new Map();
+    this.templateVariants = new Map();
     this.inquiries = new Map();
+    this.conversations = new Map();
     this.responses = new Map();
     this.integrations = new Map();
     this.analytics = new Map();
-
-    // Initialize with demo user and data
-    this.initializeDemoData();
-  }
-
-  /**
-   * Initializes the storage with demo data.
-   * @private
-   */
-  private async initializeDemoData() {
-    // Create demo user
-    const demoUser = await this.createUser({
-      username: "jane.smith",
-      password: "password123"
-    });
-
-    // Create demo templates
-    await this.createTemplate({
-      userId: demoUser.id,
-      name: "Project Inquiry",
-      category: "project",
-      subject: "Re: Project Inquiry",
-      content: "Thank you for your interest in my services. I'd be happy to discuss your project requirements in detail. Could you please provide more information about your timeline and budget?",
-      variables: ["projectType", "timeline", "budget"],
-      successRate: 96,
-      timesUsed: 34
-    });
-
-    await this.createTemplate({
-      userId: demoUser.id,
-      name: "Pricing Request",
-      category: "pricing",
-      subject: "Re: Pricing Information",
-      content: "Thank you for reaching out. I'd be happy to provide a quote for your project. My rates vary based on project complexity and timeline. Let's schedule a brief call to discuss your needs.",
-      variables: ["serviceType", "projectScope"],
-      successRate: 89,
-      timesUsed: 28
+    this.userSettings = new Map();
+    this.activityEvents = [];
+    this.searchIndex = new SearchIndex();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
     });
-
-    await this.createTemplate({
-      userId: demoUser.id,
-      name: "Availability Check",
-      category: "availability",
-      subject: "Re: Availability Inquiry",
-      content: "Thanks for your message. I currently have availability starting next week. I'd love to learn more about your project to see if we're a good fit. When would be convenient for a quick call?",
-      variables: ["startDate", "projectDuration"],
-      successRate: 84,
-      timesUsed: 19
-    });
-
-    // Create demo integrations
-    await this.createIntegration({
-      userId: demoUser.id,
-      platform: "Gmail",
-      isActive: true,
-      credentials: { email: "jane.smith@email.com" },
-      settings: { autoReply: true, categories: ["project", "pricing"] }
-    });
-
-    await this.createIntegration({
-      userId: demoUser.id,
-      platform: "Slack",
-      isActive: true,
-      credentials: { workspace: "freelance-team" },
-      settings: { autoReply: false }
-    });
-
-    // Create demo analytics
-    const today = new Date();
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      
-      await this.createAnalytics({
-        userId: demoUser.id,
-        totalInquiries: Math.floor(Math.random() * 10) + 5,
-        automatedResponses: Math.floor(Math.random() * 8) + 3,
-        manualResponses: Math.floor(Math.random() * 3) + 1,
-        averageResponseTime: Math.floor(Math.random() * 300) + 60,
-        customerSatisfaction: Math.floor(Math.random() * 20) + 80,
-        timeSaved: Math.floor(Math.random() * 120) + 60
-      });
-    }
   }
 
   // User operations
@@ -282,6 +593,10 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
@@ -295,6 +610,15 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates, id };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Template operations
   async getTemplates(userId: string): Promise<Template[]> {
     return Array.from(this.templates.values()).filter(
@@ -315,32 +639,115 @@ export class MemStorage implements IStorage {
       createdAt: now,
       updatedAt: now,
       isActive: insertTemplate.isActive ?? true,
-      successRate: insertTemplate.successRate ?? 0,
-      timesUsed: insertTemplate.timesUsed ?? 0,
-      variables: insertTemplate.variables ?? [],
+      successRate: null,
+      timesUsed: 0,
+      averageFeedback: null,
+      autoPromote: insertTemplate.autoPromote ?? false,
+      variables: extractVariables(insertTemplate.content),
+      version: 1,
       subject: insertTemplate.subject ?? null
     };
     this.templates.set(id, template);
+    this.addTemplateVersion(template, { authorId: template.userId, source: "manual" });
+    this.indexTemplate(template);
     return template;
   }
 
-  async updateTemplate(id: string, updates: Partial<Template>): Promise<Template | undefined> {
+  async updateTemplate(id: string, updates: Partial<Template>, revision?: TemplateRevision): Promise<Template | undefined> {
     const template = this.templates.get(id);
     if (!template) return undefined;
     
+    const newVersion = !!revision && changesVersionedFields(template, updates);
     const updatedTemplate = { 
       ...template, 
       ...updates, 
+      ...(updates.content !== undefined && { variables: extractVariables(updates.content) }),
+      id,
+      version: newVersion ? template.version + 1 : template.version,
       updatedAt: new Date() 
     };
     this.templates.set(id, updatedTemplate);
+    if (newVersion) {
+      this.addTemplateVersion(updatedTemplate, revision!);
+    }
+    this.indexTemplate(updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async refreshTemplateStats(templateId: string): Promise<Template | undefined> {
+    const template = this.templates.get(templateId);
+    if (!template) return undefined;
+
+    const updatedTemplate = { ...template, ...templateStats(await this.getResponsesByTemplate(templateId)) };
+    this.templates.set(templateId, updatedTemplate);
     return updatedTemplate;
   }
 
   async deleteTemplate(id: string): Promise<boolean> {
+    this.searchIndex.remove("template", id);
+    this.templateVersions.delete(id);
+    Array.from(this.templateVariants.values())
+      .filter((variant) => variant.templateId === id)
+      .forEach((variant) => this.templateVariants.delete(variant.id));
     return this.templates.delete(id);
   }
 
+  async getTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+    return [...(this.templateVersions.get(templateId) ?? [])].reverse();
+  }
+
+  async getTemplateVersion(templateId: string, version: number): Promise<TemplateVersion | undefined> {
+    return this.templateVersions.get(templateId)?.find((v) => v.version === version);
+  }
+
+  async getTemplateVariants(templateId: string): Promise<TemplateVariant[]> {
+    return Array.from(this.templateVariants.values()).filter(
+      (variant) => variant.templateId === templateId
+    );
+  }
+
+  async getTemplateVariant(id: string): Promise<TemplateVariant | undefined> {
+    return this.templateVariants.get(id);
+  }
+
+  async createTemplateVariant(insertVariant: InsertTemplateVariant): Promise<TemplateVariant> {
+    const id = randomUUID();
+    const variant: TemplateVariant = {
+      ...insertVariant,
+      id,
+      weight: insertVariant.weight ?? 50,
+      isActive: insertVariant.isActive ?? true,
+      promotedAt: null,
+      createdAt: new Date(),
+    };
+    this.templateVariants.set(id, variant);
+    return variant;
+  }
+
+  async updateTemplateVariant(id: string, updates: Partial<TemplateVariant>): Promise<TemplateVariant | undefined> {
+    const variant = this.templateVariants.get(id);
+    if (!variant) return undefined;
+
+    const updatedVariant = { ...variant, ...updates, id };
+    this.templateVariants.set(id, updatedVariant);
+    return updatedVariant;
+  }
+
+  async deleteTemplateVariant(id: string): Promise<boolean> {
+    return this.templateVariants.delete(id);
+  }
+
+  /**
+   * Stores the current state of a template as a version.
+   * @param {Template} template - The template.
+   * @param {TemplateRevision} revision - Who made the version and why.
+   */
+  private addTemplateVersion(template: Template, revision: TemplateRevision) {
+    const versions = this.templateVersions.get(template.id) ?? [];
+    versions.push({ ...versionSnapshot(template, revision), id: randomUUID(), createdAt: new Date() });
+    this.templateVersions.set(template.id, versions);
+  }
+
   // Inquiry operations
   async getInquiries(userId: string): Promise<Inquiry[]> {
     return Array.from(this.inquiries.values()).filter(
@@ -348,10 +755,60 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getInquiriesBetween(userId: string, from: Date, to: Date): Promise<Inquiry[]> {
+    return (await this.getInquiries(userId)).filter(
+      (inquiry) => inquiry.createdAt && inquiry.createdAt >= from && inquiry.createdAt < to
+    );
+  }
+
   async getInquiry(id: string): Promise<Inquiry | undefined> {
     return this.inquiries.get(id);
   }
 
+  async getInquiryByExternalId(userId: string, source: string, externalId: string): Promise<Inquiry | undefined> {
+    return Array.from(this.inquiries.values()).find(
+      (inquiry) => inquiry.userId === userId && inquiry.source === source && inquiry.externalId === externalId
+    );
+  }
+
+  async queryInquiries(userId: string, query: InquiryQuery): Promise<InquiryPage> {
+    const answeredIds = new Set(
+      Array.from(this.responses.values())
+        .filter((response) => response.status === "sent")
+        .map((response) => response.inquiryId)
+    );
+
+    const matches = (await this.getInquiries(userId))
+      .map((inquiry) => ({ ...inquiry, answered: answeredIds.has(inquiry.id) }))
+      .filter((inquiry) => {
+        const createdAt = inquiry.createdAt?.getTime() ?? 0;
+        return (!query.category || inquiry.category === query.category)
+          && (!query.priority || inquiry.priority === query.priority)
+          && (!query.source || inquiry.source === query.source)
+          && (!query.from || createdAt >= query.from.getTime())
+          && (!query.to || createdAt <= query.to.getTime())
+          && (query.answered === undefined || inquiry.answered === query.answered);
+      });
+
+    const direction = query.sortOrder === "asc" ? 1 : -1;
+    const sortValue = (inquiry: Inquiry) => query.sortBy === "priority"
+      ? priorityRank(inquiry.priority)
+      : inquiry.createdAt?.getTime() ?? 0;
+    matches.sort((a, b) =>
+      (sortValue(a) - sortValue(b)
+        || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+        || a.id.localeCompare(b.id)) * direction
+    );
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(offset, offset + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
   async createInquiry(insertInquiry: InsertInquiry): Promise<Inquiry> {
     const id = randomUUID();
     const inquiry: Inquiry = { 
@@ -363,12 +820,133 @@ export class MemStorage implements IStorage {
       source: insertInquiry.source ?? "email",
       sender: insertInquiry.sender ?? null,
       aiClassification: insertInquiry.aiClassification ?? null,
-      subject: insertInquiry.subject ?? null
+      subject: insertInquiry.subject ?? null,
+      integrationId: insertInquiry.integrationId ?? null,
+      externalId: insertInquiry.externalId ?? null,
+      metadata: insertInquiry.metadata ?? null,
+      conversationId: insertInquiry.conversationId ?? null
     };
     this.inquiries.set(id, inquiry);
+    this.indexInquiry(inquiry);
     return inquiry;
   }
 
+  async updateInquiry(id: string, updates: Partial<Inquiry>): Promise<Inquiry | undefined> {
+    const inquiry = this.inquiries.get(id);
+    if (!inquiry) return undefined;
+
+    const updatedInquiry = { ...inquiry, ...updates };
+    this.inquiries.set(id, updatedInquiry);
+    this.indexInquiry(updatedInquiry);
+    // responses are listed under the subject of their inquiry
+    for (const response of await this.getResponses(id)) {
+      this.indexResponse(response);
+    }
+    return updatedInquiry;
+  }
+
+  async getInquiriesByConversation(conversationId: string): Promise<Inquiry[]> {
+    return Array.from(this.inquiries.values())
+      .filter((inquiry) => inquiry.conversationId === conversationId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getInquiriesWithoutConversation(userId: string): Promise<Inquiry[]> {
+    return (await this.getInquiries(userId))
+      .filter((inquiry) => !inquiry.conversationId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  // Conversation operations
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async queryConversations(userId: string, query: ConversationQuery): Promise<ConversationPage> {
+    const answeredIds = new Set(
+      Array.from(this.responses.values())
+        .filter((response) => response.status === "sent")
+        .map((response) => response.inquiryId)
+    );
+    const awaitingIds = new Set(
+      Array.from(this.inquiries.values())
+        .filter((inquiry) => inquiry.conversationId && !answeredIds.has(inquiry.id))
+        .map((inquiry) => inquiry.conversationId)
+    );
+
+    const matches = Array.from(this.conversations.values())
+      .filter((conversation) => conversation.userId === userId)
+      .sort((a, b) => (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0));
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches
+        .slice(offset, offset + query.pageSize)
+        .map((conversation) => ({ ...conversation, awaitingReply: awaitingIds.has(conversation.id) })),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getConversationByMessageIds(userId: string, messageIds: string[]): Promise<Conversation | undefined> {
+    const inquiries = await this.getInquiries(userId);
+    const inquiry = inquiries.find((inquiry) => inquiry.conversationId && inquiry.externalId && messageIds.includes(inquiry.externalId))
+      ?? inquiries.find((inquiry) => inquiry.conversationId && Array.from(this.responses.values()).some(
+        (response) => response.inquiryId === inquiry.id && response.messageId && messageIds.includes(response.messageId)
+      ));
+    return inquiry ? this.conversations.get(inquiry.conversationId!) : undefined;
+  }
+
+  async getRecentConversations(userId: string, source: string | null, participant: string, since: Date): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.userId === userId
+        && conversation.source === source
+        && conversation.participant === participant
+        && (conversation.lastMessageAt?.getTime() ?? 0) >= since.getTime())
+      .sort((a, b) => (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0));
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const id = randomUUID();
+    const conversation: Conversation = {
+      ...insertConversation,
+      id,
+      subject: insertConversation.subject ?? null,
+      source: insertConversation.source ?? null,
+      participant: insertConversation.participant ?? null,
+      sender: insertConversation.sender ?? null,
+      inquiryCount: insertConversation.inquiryCount ?? 0,
+      lastMessageAt: insertConversation.lastMessageAt ?? new Date(),
+      createdAt: new Date(),
+    };
+    this.conversations.set(id, conversation);
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation = { ...conversation, ...updates, id };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async addInquiryToConversation(id: string, sender: string | null, at: Date): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation = {
+      ...conversation,
+      inquiryCount: conversation.inquiryCount + 1,
+      sender: sender ?? conversation.sender,
+      lastMessageAt: conversation.lastMessageAt && conversation.lastMessageAt > at ? conversation.lastMessageAt : at,
+    };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
   // Response operations
   async getResponses(inquiryId: string): Promise<Response[]> {
     return Array.from(this.responses.values()).filter(
@@ -384,19 +962,74 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getSentResponsesBetween(userId: string, from: Date, to: Date, offset: number, limit: number): Promise<Response[]> {
+    return (await this.getResponsesByUser(userId))
+      .filter((response) => response.status === "sent" && response.sentAt && response.sentAt >= from && response.sentAt < to)
+      .sort((a, b) => a.sentAt!.getTime() - b.sentAt!.getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async getRepliesForAnalytics(userId: string, from: Date, to: Date): Promise<AnalyticsReply[]> {
+    const sent = (await this.getResponsesByUser(userId))
+      .filter((response) => response.status === "sent" && response.sentAt)
+      .sort((a, b) => a.sentAt!.getTime() - b.sentAt!.getTime() || a.id.localeCompare(b.id));
+    const firstReplies = new Map<string, string>();
+    for (const response of sent) {
+      if (!firstReplies.has(response.inquiryId)) firstReplies.set(response.inquiryId, response.id);
+    }
+
+    return sent
+      .filter((response) => response.sentAt! >= from && response.sentAt! < to)
+      .map((response) => ({
+        response,
+        receivedAt: this.inquiries.get(response.inquiryId)?.createdAt ?? null,
+        firstReply: firstReplies.get(response.inquiryId) === response.id,
+      }));
+  }
+
+  async getDueDeliveries(now: Date, limit: number): Promise<Response[]> {
+    return Array.from(this.responses.values())
+      .filter((response) => response.deliveryStatus === "queued" && response.nextDeliveryAt && response.nextDeliveryAt <= now)
+      .sort((a, b) => a.nextDeliveryAt!.getTime() - b.nextDeliveryAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async getResponsesByTemplate(templateId: string): Promise<Response[]> {
+    return Array.from(this.responses.values()).filter(
+      (response) => response.templateId === templateId
+    );
+  }
+
+  async getResponse(id: string): Promise<Response | undefined> {
+    return this.responses.get(id);
+  }
+
   async createResponse(insertResponse: InsertResponse): Promise<Response> {
     const id = randomUUID();
     const response: Response = { 
       ...insertResponse, 
       id,
-      sentAt: new Date(),
+      variables: insertResponse.variables ?? null,
+      status: insertResponse.status ?? "sent",
+      reviewReason: insertResponse.reviewReason ?? null,
+      reviewedAt: null,
+      sentAt: (insertResponse.status ?? "sent") === "sent" ? new Date() : null,
       isAutomated: insertResponse.isAutomated ?? true,
       wasModified: insertResponse.wasModified ?? false,
       customerFeedback: insertResponse.customerFeedback ?? null,
       success: insertResponse.success ?? null,
-      templateId: insertResponse.templateId ?? null
+      templateId: insertResponse.templateId ?? null,
+      templateVersion: insertResponse.templateVersion ?? null,
+      variantId: insertResponse.variantId ?? null,
+      deliveryStatus: null,
+      deliveryAttempts: 0,
+      deliveryError: null,
+      nextDeliveryAt: null,
+      messageId: null,
+      deliveredParts: 0
     };
     this.responses.set(id, response);
+    this.indexResponse(response);
     return response;
   }
 
@@ -406,9 +1039,27 @@ export class MemStorage implements IStorage {
     
     const updatedResponse = { ...response, ...updates };
     this.responses.set(id, updatedResponse);
+    this.indexResponse(updatedResponse);
     return updatedResponse;
   }
 
+  async claimDelivery(response: Response, attempt: number, now: Date, leaseUntil: Date): Promise<Response | undefined> {
+    const current = this.responses.get(response.id);
+    if (
+      !current ||
+      current.status !== "approved" ||
+      current.deliveryStatus !== response.deliveryStatus ||
+      current.deliveryAttempts !== response.deliveryAttempts ||
+      (current.nextDeliveryAt && current.nextDeliveryAt > now)
+    ) {
+      return undefined;
+    }
+
+    const claimed: Response = { ...current, deliveryStatus: "queued", deliveryAttempts: attempt, nextDeliveryAt: leaseUntil };
+    this.responses.set(claimed.id, claimed);
+    return claimed;
+  }
+
   // Integration operations
   async getIntegrations(userId: string): Promise<Integration[]> {
     return Array.from(this.integrations.values()).filter(
@@ -420,6 +1071,12 @@ export class MemStorage implements IStorage {
     return this.integrations.get(id);
   }
 
+  async getActiveIntegrations(platforms: readonly string[]): Promise<Integration[]> {
+    return Array.from(this.integrations.values()).filter(
+      (integration) => integration.isActive && platforms.includes(integration.platform)
+    );
+  }
+
   async createIntegration(insertIntegration: InsertIntegration): Promise<Integration> {
     const id = randomUUID();
     const integration: Integration = { 
@@ -429,7 +1086,8 @@ export class MemStorage implements IStorage {
       isActive: insertIntegration.isActive ?? false,
       credentials: insertIntegration.credentials ?? null,
       settings: insertIntegration.settings ?? {},
-      lastSync: null
+      lastSync: null,
+      syncState: null
     };
     this.integrations.set(id, integration);
     return integration;
@@ -450,6 +1108,8 @@ export class MemStorage implements IStorage {
       (analytics) => analytics.userId === userId
     );
     
+    userAnalytics.sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+
     if (days) {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - days);
@@ -461,6 +1121,12 @@ export class MemStorage implements IStorage {
     return userAnalytics;
   }
 
+  async getAnalyticsBetween(userId: string, from: Date, to: Date): Promise<Analytics[]> {
+    return (await this.getAnalytics(userId)).filter(
+      (analytics) => analytics.date && analytics.date >= from && analytics.date < to
+    );
+  }
+
   async createAnalytics(insertAnalytics: InsertAnalytics): Promise<Analytics> {
     const id = randomUUID();
     const analytics: Analytics = { 
@@ -486,6 +1152,790 @@ export class MemStorage implements IStorage {
     this.analytics.set(id, updatedAnalytics);
     return updatedAnalytics;
   }
+
+  async upsertAnalytics(daily: DailyAnalytics): Promise<Analytics> {
+    const existing = Array.from(this.analytics.values()).find(
+      (row) => row.userId === daily.userId && row.date?.getTime() === daily.date.getTime()
+    );
+    const row: Analytics = {
+      ...daily,
+      id: existing?.id ?? randomUUID(),
+      totalInquiries: daily.totalInquiries ?? 0,
+      automatedResponses: daily.automatedResponses ?? 0,
+      manualResponses: daily.manualResponses ?? 0,
+      // null means there was nothing to average that day
+      averageResponseTime: daily.averageResponseTime === undefined ? 0 : daily.averageResponseTime,
+      customerSatisfaction: daily.customerSatisfaction === undefined ? 0 : daily.customerSatisfaction,
+      timeSaved: daily.timeSaved ?? 0,
+    };
+    this.analytics.set(row.id, row);
+    return row;
+  }
+
+  // Settings operations
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    return this.userSettings.get(userId);
+  }
+
+  async upsertUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
+    const settings: UserSettings = { ...insertSettings, updatedAt: new Date() };
+    this.userSettings.set(settings.userId, settings);
+    return settings;
+  }
+
+  // Activity operations
+  async getActivityEvents(userId: string, query: ActivityQuery): Promise<ActivityPage> {
+    // events are appended as they happen, so the newest are at the end
+    const events = this.activityEvents.filter((event) => event.userId === userId).reverse();
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: events.slice(offset, offset + query.pageSize),
+      total: events.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async createActivityEvent(insertEvent: InsertActivityEvent): Promise<ActivityEvent> {
+    const event: ActivityEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      inquiryId: insertEvent.inquiryId ?? null,
+      templateId: insertEvent.templateId ?? null,
+      integrationId: insertEvent.integrationId ?? null,
+      metadata: insertEvent.metadata ?? {},
+      createdAt: new Date(),
+    };
+    this.activityEvents.push(event);
+    return event;
+  }
+
+  // Search operations
+  async search(userId: string, query: string, limit: number): Promise<SearchResult[]> {
+    return this.searchIndex.search(userId, query, limit);
+  }
+
+  private indexTemplate(template: Template): void {
+    this.searchIndex.upsert({
+      type: "template",
+      id: template.id,
+      userId: template.userId,
+      inquiryId: null,
+      title: template.name,
+      body: template.content,
+    });
+  }
+
+  private indexInquiry(inquiry: Inquiry): void {
+    this.searchIndex.upsert({
+      type: "inquiry",
+      id: inquiry.id,
+      userId: inquiry.userId,
+      inquiryId: inquiry.id,
+      title: inquiry.subject || "No subject",
+      body: inquiry.content,
+    });
+  }
+
+  private indexResponse(response: Response): void {
+    const inquiry = this.inquiries.get(response.inquiryId);
+    if (!inquiry) return;
+
+    this.searchIndex.upsert({
+      type: "response",
+      id: response.id,
+      userId: inquiry.userId,
+      inquiryId: inquiry.id,
+      title: `Re: ${inquiry.subject || "No subject"}`,
+      body: response.content,
+    });
+  }
+}
+
+/**
+ * PostgreSQL implementation of the IStorage interface, built on Drizzle ORM.
+ */
+export class DatabaseStorage implements IStorage {
+  public sessionStore: session.Store;
+
+  constructor(private db: Database, pool: Pool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...values } = updates;
+    const [user] = await this.db
+      .update(users)
+      .set(values)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Template operations
+  async getTemplates(userId: string): Promise<Template[]> {
+    return this.db.select().from(templates).where(eq(templates.userId, userId));
+  }
+
+  async getTemplate(id: string): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    return this.db.transaction(async (tx) => {
+      const [template] = await tx
+        .insert(templates)
+        .values({ ...insertTemplate, variables: extractVariables(insertTemplate.content), version: 1 })
+        .returning();
+      await tx.insert(templateVersions).values(versionSnapshot(template, { authorId: template.userId, source: "manual" }));
+      return template;
+    });
+  }
+
+  async updateTemplate(id: string, updates: Partial<Template>, revision?: TemplateRevision): Promise<Template | undefined> {
+    const { id: _id, version: _version, ...values } = updates;
+    return this.db.transaction(async (tx) => {
+      // lock the row so concurrent edits get consecutive version numbers
+      const [current] = await tx.select().from(templates).where(eq(templates.id, id)).for("update");
+      if (!current) return undefined;
+
+      const newVersion = !!revision && changesVersionedFields(current, values);
+      const [template] = await tx
+        .update(templates)
+        .set({
+          ...values,
+          ...(values.content !== undefined && { variables: extractVariables(values.content) }),
+          version: newVersion ? current.version + 1 : current.version,
+          updatedAt: new Date(),
+        })
+        .where(eq(templates.id, id))
+        .returning();
+      if (newVersion) {
+        await tx.insert(templateVersions).values(versionSnapshot(template, revision!));
+      }
+      return template;
+    });
+  }
+
+  async refreshTemplateStats(templateId: string): Promise<Template | undefined> {
+    const stats = templateStats(await this.getResponsesByTemplate(templateId));
+    const [template] = await this.db
+      .update(templates)
+      .set(stats)
+      .where(eq(templates.id, templateId))
+      .returning();
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    // all or nothing, so a failure never leaves versions or variants without their template
+    return this.db.transaction(async (tx) => {
+      await tx.delete(templateVersions).where(eq(templateVersions.templateId, id));
+      await tx.delete(templateVariants).where(eq(templateVariants.templateId, id));
+      const deleted = await tx.delete(templates).where(eq(templates.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+    return this.db
+      .select()
+      .from(templateVersions)
+      .where(eq(templateVersions.templateId, templateId))
+      .orderBy(desc(templateVersions.version));
+  }
+
+  async getTemplateVersion(templateId: string, version: number): Promise<TemplateVersion | undefined> {
+    const [found] = await this.db
+      .select()
+      .from(templateVersions)
+      .where(and(eq(templateVersions.templateId, templateId), eq(templateVersions.version, version)));
+    return found;
+  }
+  async getTemplateVariants(templateId: string): Promise<TemplateVariant[]> {
+    return this.db
+      .select()
+      .from(templateVariants)
+      .where(eq(templateVariants.templateId, templateId))
+      .orderBy(asc(templateVariants.createdAt));
+  }
+
+  async getTemplateVariant(id: string): Promise<TemplateVariant | undefined> {
+    const [variant] = await this.db.select().from(templateVariants).where(eq(templateVariants.id, id));
+    return variant;
+  }
+
+  async createTemplateVariant(insertVariant: InsertTemplateVariant): Promise<TemplateVariant> {
+    const [variant] = await this.db.insert(templateVariants).values(insertVariant).returning();
+    return variant;
+  }
+
+  async updateTemplateVariant(id: string, updates: Partial<TemplateVariant>): Promise<TemplateVariant | undefined> {
+    const { id: _id, ...values } = updates;
+    const [variant] = await this.db
+      .update(templateVariants)
+      .set(values)
+      .where(eq(templateVariants.id, id))
+      .returning();
+    return variant;
+  }
+
+  async deleteTemplateVariant(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(templateVariants).where(eq(templateVariants.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+
+  // Inquiry operations
+  async getInquiries(userId: string): Promise<Inquiry[]> {
+    return this.db.select().from(inquiries).where(eq(inquiries.userId, userId));
+  }
+
+  async getInquiriesBetween(userId: string, from: Date, to: Date): Promise<Inquiry[]> {
+    return this.db
+      .select()
+      .from(inquiries)
+      .where(and(eq(inquiries.userId, userId), gte(inquiries.createdAt, from), lt(inquiries.createdAt, to)));
+  }
+
+  async getInquiry(id: string): Promise<Inquiry | undefined> {
+    const [inquiry] = await this.db.select().from(inquiries).where(eq(inquiries.id, id));
+    return inquiry;
+  }
+
+  async getInquiryByExternalId(userId: string, source: string, externalId: string): Promise<Inquiry | undefined> {
+    const [inquiry] = await this.db
+      .select()
+      .from(inquiries)
+      .where(and(eq(inquiries.userId, userId), eq(inquiries.source, source), eq(inquiries.externalId, externalId)));
+    return inquiry;
+  }
+
+  async queryInquiries(userId: string, query: InquiryQuery): Promise<InquiryPage> {
+    const answered = sql<boolean>`exists (select 1 from ${responses} where ${responses.inquiryId} = ${inquiries.id} and ${responses.status} = 'sent')`;
+    const conditions: SQL[] = [eq(inquiries.userId, userId)];
+    if (query.category) conditions.push(eq(inquiries.category, query.category));
+    if (query.priority) conditions.push(eq(inquiries.priority, query.priority));
+    if (query.source) conditions.push(eq(inquiries.source, query.source));
+    if (query.from) conditions.push(gte(inquiries.createdAt, query.from));
+    if (query.to) conditions.push(lte(inquiries.createdAt, query.to));
+    if (query.answered !== undefined) conditions.push(query.answered ? answered : sql`not ${answered}`);
+    const where = and(...conditions);
+
+    const order = query.sortOrder === "asc" ? asc : desc;
+    const priority = sql`case ${inquiries.priority} ${sql.join(
+      inquiryPriorities.map((value, rank) => sql`when ${value} then ${sql.raw(String(rank))}`),
+      sql` `
+    )} end`;
+    // the ID breaks ties, so inquiries that arrived at the same time keep their place from page to page
+    const orderBy = query.sortBy === "priority"
+      ? [order(priority), order(inquiries.createdAt), order(inquiries.id)]
+      : [order(inquiries.createdAt), order(inquiries.id)];
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select({ inquiry: inquiries, answered })
+        .from(inquiries)
+        .where(where)
+        .orderBy(...orderBy)
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      this.db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(inquiries)
+        .where(where),
+    ]);
+
+    return {
+      items: items.map((row) => ({ ...row.inquiry, answered: row.answered })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async createInquiry(insertInquiry: InsertInquiry): Promise<Inquiry> {
+    const [inquiry] = await this.db.insert(inquiries).values(insertInquiry).returning();
+    return inquiry;
+  }
+
+  async updateInquiry(id: string, updates: Partial<Inquiry>): Promise<Inquiry | undefined> {
+    const { id: _id, ...values } = updates;
+    const [inquiry] = await this.db
+      .update(inquiries)
+      .set(values)
+      .where(eq(inquiries.id, id))
+      .returning();
+    return inquiry;
+  }
+
+  async getInquiriesByConversation(conversationId: string): Promise<Inquiry[]> {
+    return this.db
+      .select()
+      .from(inquiries)
+      .where(eq(inquiries.conversationId, conversationId))
+      .orderBy(asc(inquiries.createdAt));
+  }
+
+  async getInquiriesWithoutConversation(userId: string): Promise<Inquiry[]> {
+    return this.db
+      .select()
+      .from(inquiries)
+      .where(and(eq(inquiries.userId, userId), isNull(inquiries.conversationId)))
+      .orderBy(asc(inquiries.createdAt));
+  }
+
+  // Conversation operations
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async queryConversations(userId: string, query: ConversationQuery): Promise<ConversationPage> {
+    const awaitingReply = sql<boolean>`exists (select 1 from ${inquiries} where ${inquiries.conversationId} = ${conversations.id} and not exists (select 1 from ${responses} where ${responses.inquiryId} = ${inquiries.id} and ${responses.status} = 'sent'))`;
+    const where = eq(conversations.userId, userId);
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select({ conversation: conversations, awaitingReply })
+        .from(conversations)
+        .where(where)
+        .orderBy(desc(conversations.lastMessageAt))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      this.db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(conversations)
+        .where(where),
+    ]);
+
+    return {
+      items: items.map((row) => ({ ...row.conversation, awaitingReply: row.awaitingReply })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getConversationByMessageIds(userId: string, messageIds: string[]): Promise<Conversation | undefined> {
+    if (messageIds.length === 0) return undefined;
+    const [byInquiry] = await this.db
+      .select({ conversation: conversations })
+      .from(inquiries)
+      .innerJoin(conversations, eq(inquiries.conversationId, conversations.id))
+      .where(and(eq(inquiries.userId, userId), inArray(inquiries.externalId, messageIds)))
+      .limit(1);
+    if (byInquiry) return byInquiry.conversation;
+
+    const [byResponse] = await this.db
+      .select({ conversation: conversations })
+      .from(responses)
+      .innerJoin(inquiries, eq(responses.inquiryId, inquiries.id))
+      .innerJoin(conversations, eq(inquiries.conversationId, conversations.id))
+      .where(and(eq(inquiries.userId, userId), inArray(responses.messageId, messageIds)))
+      .limit(1);
+    return byResponse?.conversation;
+  }
+
+  async getRecentConversations(userId: string, source: string | null, participant: string, since: Date): Promise<Conversation[]> {
+    return this.db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.userId, userId),
+        source === null ? isNull(conversations.source) : eq(conversations.source, source),
+        eq(conversations.participant, participant),
+        gte(conversations.lastMessageAt, since)
+      ))
+      .orderBy(desc(conversations.lastMessageAt));
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db.insert(conversations).values(insertConversation).returning();
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const { id: _id, ...values } = updates;
+    const [conversation] = await this.db
+      .update(conversations)
+      .set(values)
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async addInquiryToConversation(id: string, sender: string | null, at: Date): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({
+        inquiryCount: sql`${conversations.inquiryCount} + 1`,
+        ...(sender !== null && { sender }),
+        lastMessageAt: sql`greatest(${conversations.lastMessageAt}, ${at})`,
+      })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  // Response operations
+  async getResponses(inquiryId: string): Promise<Response[]> {
+    return this.db.select().from(responses).where(eq(responses.inquiryId, inquiryId));
+  }
+
+  async getResponsesByTemplate(templateId: string): Promise<Response[]> {
+    return this.db.select().from(responses).where(eq(responses.templateId, templateId));
+  }
+
+  async getResponsesByUser(userId: string): Promise<Response[]> {
+    const rows = await this.db
+      .select({ response: responses })
+      .from(responses)
+      .innerJoin(inquiries, eq(responses.inquiryId, inquiries.id))
+      .where(eq(inquiries.userId, userId));
+    return rows.map((row) => row.response);
+  }
+
+  async getSentResponsesBetween(userId: string, from: Date, to: Date, offset: number, limit: number): Promise<Response[]> {
+    const rows = await this.db
+      .select({ response: responses })
+      .from(responses)
+      .innerJoin(inquiries, eq(responses.inquiryId, inquiries.id))
+      .where(and(
+        eq(inquiries.userId, userId),
+        eq(responses.status, "sent"),
+        gte(responses.sentAt, from),
+        lt(responses.sentAt, to)
+      ))
+      .orderBy(asc(responses.sentAt), asc(responses.id))
+      .limit(limit)
+      .offset(offset);
+    return rows.map((row) => row.response);
+  }
+
+  async getRepliesForAnalytics(userId: string, from: Date, to: Date): Promise<AnalyticsReply[]> {
+    const earlier = alias(responses, "earlier");
+    const firstReply = sql<boolean>`not exists (${this.db
+      .select({ id: earlier.id })
+      .from(earlier)
+      .where(and(
+        eq(earlier.inquiryId, responses.inquiryId),
+        eq(earlier.status, "sent"),
+        or(lt(earlier.sentAt, responses.sentAt), and(eq(earlier.sentAt, responses.sentAt), lt(earlier.id, responses.id)))
+      ))})`;
+
+    return this.db
+      .select({ response: responses, receivedAt: inquiries.createdAt, firstReply })
+      .from(responses)
+      .innerJoin(inquiries, eq(responses.inquiryId, inquiries.id))
+      .where(and(
+        eq(inquiries.userId, userId),
+        eq(responses.status, "sent"),
+        gte(responses.sentAt, from),
+        lt(responses.sentAt, to)
+      ));
+  }
+
+  async getDueDeliveries(now: Date, limit: number): Promise<Response[]> {
+    return this.db
+      .select()
+      .from(responses)
+      .where(and(eq(responses.deliveryStatus, "queued"), lte(responses.nextDeliveryAt, now)))
+      .orderBy(asc(responses.nextDeliveryAt))
+      .limit(limit);
+  }
+
+  async getResponse(id: string): Promise<Response | undefined> {
+    const [response] = await this.db.select().from(responses).where(eq(responses.id, id));
+    return response;
+  }
+
+  async createResponse(insertResponse: InsertResponse): Promise<Response> {
+    const [response] = await this.db
+      .insert(responses)
+      .values({
+        ...insertResponse,
+        sentAt: (insertResponse.status ?? "sent") === "sent" ? new Date() : null,
+      })
+      .returning();
+    return response;
+  }
+
+  async updateResponse(id: string, updates: Partial<Response>): Promise<Response | undefined> {
+    const { id: _id, ...values } = updates;
+    const [response] = await this.db
+      .update(responses)
+      .set(values)
+      .where(eq(responses.id, id))
+      .returning();
+    return response;
+  }
+
+  async claimDelivery(response: Response, attempt: number, now: Date, leaseUntil: Date): Promise<Response | undefined> {
+    // a conditional update, so of two callers with the same copy only one gets the row
+    const [claimed] = await this.db
+      .update(responses)
+      .set({ deliveryStatus: "queued", deliveryAttempts: attempt, nextDeliveryAt: leaseUntil })
+      .where(and(
+        eq(responses.id, response.id),
+        eq(responses.status, "approved"),
+        response.deliveryStatus === null ? isNull(responses.deliveryStatus) : eq(responses.deliveryStatus, response.deliveryStatus),
+        eq(responses.deliveryAttempts, response.deliveryAttempts),
+        or(isNull(responses.nextDeliveryAt), lte(responses.nextDeliveryAt, now))
+      ))
+      .returning();
+    return claimed;
+  }
+
+  // Integration operations
+  async getIntegrations(userId: string): Promise<Integration[]> {
+    return this.db.select().from(integrations).where(eq(integrations.userId, userId));
+  }
+
+  async getIntegration(id: string): Promise<Integration | undefined> {
+    const [integration] = await this.db.select().from(integrations).where(eq(integrations.id, id));
+    return integration;
+  }
+
+  async getActiveIntegrations(platforms: readonly string[]): Promise<Integration[]> {
+    if (platforms.length === 0) return [];
+    return this.db
+      .select()
+      .from(integrations)
+      .where(and(eq(integrations.isActive, true), inArray(integrations.platform, [...platforms])));
+  }
+
+  async createIntegration(insertIntegration: InsertIntegration): Promise<Integration> {
+    const [integration] = await this.db.insert(integrations).values(insertIntegration).returning();
+    return integration;
+  }
+
+  async updateIntegration(id: string, updates: Partial<Integration>): Promise<Integration | undefined> {
+    const { id: _id, ...values } = updates;
+    const [integration] = await this.db
+      .update(integrations)
+      .set(values)
+      .where(eq(integrations.id, id))
+      .returning();
+    return integration;
+  }
+
+  // Analytics operations
+  async getAnalytics(userId: string, days?: number): Promise<Analytics[]> {
+    if (days) {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - days);
+      return this.db
+        .select()
+        .from(analytics)
+        .where(and(eq(analytics.userId, userId), gte(analytics.date, cutoffDate)))
+        .orderBy(asc(analytics.date));
+    }
+
+    return this.db.select().from(analytics).where(eq(analytics.userId, userId)).orderBy(asc(analytics.date));
+  }
+
+  async getAnalyticsBetween(userId: string, from: Date, to: Date): Promise<Analytics[]> {
+    return this.db
+      .select()
+      .from(analytics)
+      .where(and(eq(analytics.userId, userId), gte(analytics.date, from), lt(analytics.date, to)))
+      .orderBy(asc(analytics.date));
+  }
+
+  async createAnalytics(insertAnalytics: InsertAnalytics): Promise<Analytics> {
+    const [row] = await this.db.insert(analytics).values(insertAnalytics).returning();
+    return row;
+  }
+
+  async updateAnalytics(id: string, updates: Partial<Analytics>): Promise<Analytics | undefined> {
+    const { id: _id, ...values } = updates;
+    const [row] = await this.db
+      .update(analytics)
+      .set(values)
+      .where(eq(analytics.id, id))
+      .returning();
+    return row;
+  }
+
+  async upsertAnalytics(daily: DailyAnalytics): Promise<Analytics> {
+    const { userId, date, ...values } = daily;
+    const [row] = await this.db
+      .insert(analytics)
+      .values(daily)
+      .onConflictDoUpdate({ target: [analytics.userId, analytics.date], set: values })
+      .returning();
+    return row;
+  }
+
+  // Settings operations
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  async upsertUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
+    const values = { ...insertSettings, updatedAt: new Date() };
+    const [settings] = await this.db
+      .insert(userSettings)
+      .values(values)
+      .onConflictDoUpdate({ target: userSettings.userId, set: values })
+      .returning();
+    return settings;
+  }
+
+  // Activity operations
+  async getActivityEvents(userId: string, query: ActivityQuery): Promise<ActivityPage> {
+    const where = eq(activityEvents.userId, userId);
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(activityEvents)
+        .where(where)
+        .orderBy(desc(activityEvents.createdAt))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      this.db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(activityEvents)
+        .where(where),
+    ]);
+
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  }
+
+  async createActivityEvent(insertEvent: InsertActivityEvent): Promise<ActivityEvent> {
+    const [event] = await this.db.insert(activityEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  // Search operations
+  async search(userId: string, query: string, limit: number): Promise<SearchResult[]> {
+    const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+    const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12`;
+    const headline = (text: AnyPgColumn) =>
+      sql<string>`ts_headline('english', ${text}, ${tsquery}, ${options})`;
+    const rank = (vector: SQL) => sql<number>`ts_rank(${vector}, ${tsquery})`;
+
+    const inquiryVector = searchVector(inquiries.subject, inquiries.content);
+    const responseVector = searchVector(responses.content);
+    const templateVector = searchVector(templates.name, templates.content);
+
+    const [inquiryHits, responseHits, templateHits] = await Promise.all([
+      this.db
+        .select({
+          id: inquiries.id,
+          subject: inquiries.subject,
+          snippet: headline(inquiries.content),
+          rank: rank(inquiryVector),
+        })
+        .from(inquiries)
+        .where(and(eq(inquiries.userId, userId), sql`${inquiryVector} @@ ${tsquery}`))
+        .orderBy(desc(rank(inquiryVector)))
+        .limit(limit),
+      this.db
+        .select({
+          id: responses.id,
+          inquiryId: inquiries.id,
+          subject: inquiries.subject,
+          snippet: headline(responses.content),
+          rank: rank(responseVector),
+        })
+        .from(responses)
+        .innerJoin(inquiries, eq(responses.inquiryId, inquiries.id))
+        .where(and(eq(inquiries.userId, userId), sql`${responseVector} @@ ${tsquery}`))
+        .orderBy(desc(rank(responseVector)))
+        .limit(limit),
+      this.db
+        .select({
+          id: templates.id,
+          name: templates.name,
+          snippet: headline(templates.content),
+          rank: rank(templateVector),
+        })
+        .from(templates)
+        .where(and(eq(templates.userId, userId), sql`${templateVector} @@ ${tsquery}`))
+        .orderBy(desc(rank(templateVector)))
+        .limit(limit),
+    ]);
+
+    const results: SearchResult[] = [
+      ...inquiryHits.map((hit) => ({
+        type: "inquiry" as const,
+        id: hit.id,
+        inquiryId: hit.id,
+        title: hit.subject || "No subject",
+        snippet: hit.snippet,
+        rank: Number(hit.rank),
+      })),
+      ...responseHits.map((hit) => ({
+        type: "response" as const,
+        id: hit.id,
+        inquiryId: hit.inquiryId,
+        title: `Re: ${hit.subject || "No subject"}`,
+        snippet: hit.snippet,
+        rank: Number(hit.rank),
+      })),
+      ...templateHits.map((hit) => ({
+        type: "template" as const,
+        id: hit.id,
+        inquiryId: null,
+        title: hit.name,
+        snippet: hit.snippet,
+        rank: Number(hit.rank),
+      })),
+    ];
+
+    return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+  }
+}
+
+/**
+ * Creates the storage backend selected by the environment. `STORAGE_DRIVER`
+ * may be set to "memory" or "database"; when unset, the database is used
+ * whenever `DATABASE_URL` is configured.
+ * @returns {IStorage} The storage backend.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver !== "database") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "database"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to use the database storage driver");
+  }
+
+  const { db, pool } = createDatabase(process.env.DATABASE_URL);
+  return new DatabaseStorage(db, pool);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview This file contains helpers for the route tests: the API on a
+ * free local port, set up like the real server, and a client that keeps the
+ * session cookie of the user it signed up.
+ */
+
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+
+/**
+ * A running instance of the API.
+ */
+export interface TestApp {
+  /** The address the API listens on, without a trailing slash. */
+  baseUrl: string;
+  /** Stops the server. */
+  close: () => Promise<void>;
+}
+
+/**
+ * The answer to a request of the test client.
+ */
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * A client of the API with its own session.
+ */
+export interface TestClient {
+  /**
+   * Sends a request, with a JSON body if one is given.
+   * @param {string} method - The HTTP method.
+   * @param {string} path - The path, such as "/api/inquiries".
+   * @param {unknown} [body] - The body.
+   * @param {Record<string, string>} [headers] - Extra headers.
+   * @returns {Promise<TestResponse>} A promise that resolves to the status and the parsed body.
+   */
+  request: (method: string, path: string, body?: unknown, headers?: Record<string, string>) => Promise<TestResponse>;
+}
+
+/**
+ * Starts the API routes on a free port, with the same body parsing as the
+ * real server.
+ * @returns {Promise<TestApp>} A promise that resolves to the running app.
+ */
+export async function startTestApp(): Promise<TestApp> {
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }));
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Creates a client of the API. Its session starts once it signs up or logs in.
+ * @param {TestApp} app - The running app.
+ * @returns {TestClient} The client.
+ */
+export function createTestClient(app: TestApp): TestClient {
+  let cookie = "";
+
+  return {
+    request: async (method, path, body, headers = {}) => {
+      const response = await fetch(`${app.baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body !== undefined && { "Content-Type": "application/json" }),
+          ...(cookie && { Cookie: cookie }),
+          ...headers,
+        },
+        body: body !== undefined ? (typeof body === "string" ? body : JSON.stringify(body)) : undefined,
+      });
+
+      const setCookie = response.headers.get("set-cookie");
+      if (setCookie) {
+        cookie = setCookie.split(";")[0];
+      }
+
+      const text = await response.text();
+      let parsed: unknown = text;
+      try {
+        parsed = text ? JSON.parse(text) : undefined;
+      } catch {
+        // not JSON, such as an empty acknowledgement
+      }
+      return { status: response.status, body: parsed };
+    },
+  };
+}
+
+/**
+ * Signs up a new user and returns a client logged in as them.
+ * @param {TestApp} app - The running app.
+ * @param {string} username - The username.
+ * @returns {Promise<TestClient>} A promise that resolves to the logged-in client.
+ * @throws {Error} If the signup fails.
+ */
+export async function signUp(app: TestApp, username: string): Promise<TestClient> {
+  const client = createTestClient(app);
+  const { status, body } = await client.request("POST", "/api/auth/signup", { username, password: "correct-horse-battery" });
+  if (status !== 201) {
+    throw new Error(`Signup of ${username} failed with ${status}: ${JSON.stringify(body)}`);
+  }
+  return client;
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview This file contains a word-level text diff, used to compare
+ * template versions on the server and AI suggestions on the client.
+ */
+
+/**
+ * A run of text that is unchanged, added or removed.
+ */
+export interface DiffPart {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// beyond this many token pairs, the texts are shown as replaced as a whole
+const MAX_CELLS = 1000000;
+
+/**
+ * Splits a text into words and the whitespace between them, so that the diff
+ * keeps line breaks and spacing when it is put back together.
+ * @param {string} text - The text.
+ * @returns {string[]} The tokens.
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Appends a token to the parts, merging it with the last part of the same type.
+ * @param {DiffPart[]} parts - The parts so far.
+ * @param {DiffPart["type"]} type - The type of the token.
+ * @param {string} text - The token.
+ */
+function push(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Computes the word-level difference between two texts, from the longest
+ * common subsequence of their tokens.
+ * @param {string} before - The old text.
+ * @param {string} after - The new text.
+ * @returns {DiffPart[]} The parts, in order. Joining the equal and removed
+ * parts gives the old text; joining the equal and added parts gives the new one.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_CELLS) {
+    if (before) push(parts, "removed", before);
+    if (after) push(parts, "added", after);
+    return parts;
+  }
+
+  // lengths[i][j] is the length of the common subsequence of a[i..] and b[j..]
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length || j === b.length) {
+        lengths[i][j] = 0;
+      } else if (a[i] === b[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(parts, "removed", a[i++]);
+    } else {
+      push(parts, "added", b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, "removed", a[i++]);
+  while (j < b.length) push(parts, "added", b[j++]);
+
+  return cleanup(parts);
+}
+
+/**
+ * Makes a diff easier to read: whitespace that is only "unchanged" between
+ * two changes is folded into them, and each run of changes shows everything
+ * removed before everything added.
+ * @param {DiffPart[]} parts - The parts of the diff.
+ * @returns {DiffPart[]} The cleaned-up parts.
+ */
+function cleanup(parts: DiffPart[]): DiffPart[] {
+  const result: DiffPart[] = [];
+  let removed = "";
+  let added = "";
+  const flush = () => {
+    if (removed) push(result, "removed", removed);
+    if (added) push(result, "added", added);
+    removed = "";
+    added = "";
+  };
+
+  parts.forEach((part, index) => {
+    const inChange = removed !== "" || added !== "";
+    const next = parts[index + 1];
+    if (part.type === "equal" && inChange && next && next.type !== "equal" && !/\S/.test(part.text)) {
+      removed += part.text;
+      added += part.text;
+    } else if (part.type === "removed") {
+      removed += part.text;
+    } else if (part.type === "added") {
+      added += part.text;
+    } else {
+      flush();
+      push(result, "equal", part.text);
+    }
+  });
+  flush();
+
+  return result;
+}
+
+/**
+ * Checks whether a diff contains any change.
+ * @param {DiffPart[]} parts - The parts of the diff.
+ * @returns {boolean} True if a part was added or removed.
+ */
+export function hasChanges(parts: DiffPart[]): boolean {
+  return parts.some((part) => part.type !== "equal");
+}
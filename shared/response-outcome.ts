@@ -0,0 +1,61 @@
+/**
+ * @fileoverview This file contains the rules that turn the feedback on sent
+ * replies into template statistics. They are shared by the storage, which
+ * keeps the statistics of each template up to date, and the A/B tests of
+ * template variants, so both count successes the same way.
+ */
+
+import type { Response, TemplateStats } from "./schema";
+
+/**
+ * Decides whether a reply succeeded. The success flag wins; without it, a
+ * rating of 4 or 5 counts as a success and lower ratings as a failure.
+ * @param {Pick<Response, "success" | "customerFeedback">} response - The reply.
+ * @returns {boolean | null} The outcome, or null if the reply has none yet.
+ */
+export function responseOutcome(response: Pick<Response, "success" | "customerFeedback">): boolean | null {
+  if (response.success !== null && response.success !== undefined) {
+    return response.success;
+  }
+  if (response.customerFeedback !== null && response.customerFeedback !== undefined) {
+    return response.customerFeedback >= 4;
+  }
+  return null;
+}
+
+/**
+ * Sums up the outcomes and ratings of sent replies.
+ * @param {Response[]} sent - The sent replies.
+ * @returns {{ sent: number; outcomes: number; successes: number; successRate: number | null; averageFeedback: number | null }}
+ * The totals, with the success rate as a fraction of the replies that have an outcome.
+ */
+export function summarizeOutcomes(sent: Response[]) {
+  const outcomes = sent.map(responseOutcome).filter((outcome): outcome is boolean => outcome !== null);
+  const ratings = sent
+    .map((response) => response.customerFeedback)
+    .filter((rating): rating is number => rating !== null && rating !== undefined);
+  const successes = outcomes.filter(Boolean).length;
+
+  return {
+    sent: sent.length,
+    outcomes: outcomes.length,
+    successes,
+    successRate: outcomes.length > 0 ? successes / outcomes.length : null,
+    averageFeedback: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+  };
+}
+
+/**
+ * Computes the statistics of a template from its replies. Only sent replies
+ * count as uses.
+ * @param {Response[]} responses - The replies made from the template.
+ * @returns {TemplateStats} The statistics, with the success rate in percent.
+ */
+export function templateStats(responses: Response[]): TemplateStats {
+  const totals = summarizeOutcomes(responses.filter((response) => response.status === "sent"));
+  return {
+    timesUsed: totals.sent,
+    successRate: totals.successRate === null ? null : Math.round(totals.successRate * 100),
+    averageFeedback: totals.averageFeedback === null ? null : Math.round(totals.averageFeedback * 10) / 10,
+  };
+}
@@ -3,10 +3,11 @@
  * Drizzle ORM. It also defines the types and insert schemas for each table.
  */
 
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, real, jsonb, boolean, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { DiffPart } from "./diff";
 
 /**
  * The users table stores information about the application's users.
@@ -17,6 +18,18 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+/**
+ * Builds the full-text search vector over the given text columns. The search
+ * indexes below and the search queries in the storage use the same expression,
+ * so Postgres can answer the queries from the indexes.
+ * @param {...AnyPgColumn} columns - The columns to search.
+ * @returns {SQL} The `tsvector` expression.
+ */
+export function searchVector(...columns: AnyPgColumn[]): SQL {
+  const text = sql.join(columns.map((column) => sql`coalesce(${column}, '')`), sql` || ' ' || `);
+  return sql`to_tsvector('english', ${text})`;
+}
+
 /**
  * The templates table stores response templates created by users.
  */
@@ -27,14 +40,93 @@ export const templates = pgTable("templates", {
   category: text("category").notNull(),
   subject: text("subject"),
   content: text("content").notNull(),
-  variables: jsonb("variables").default([]),
+  variables: jsonb("variables").$type<TemplateVariable[]>().default([]),
   isActive: boolean("is_active").default(true),
-  successRate: integer("success_rate").default(0),
+  // derived from the template's sent responses; see shared/response-outcome.ts
+  successRate: integer("success_rate"),
   timesUsed: integer("times_used").default(0),
+  averageFeedback: real("average_feedback"),
+  version: integer("version").notNull().default(1),
+  autoPromote: boolean("auto_promote").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("templates_search_idx").using("gin", searchVector(table.name, table.content)),
+]);
+
+/**
+ * Where a template version came from: an edit by hand, an AI improvement
+ * that was applied, the restore of an older version, or an A/B test variant
+ * that was promoted.
+ */
+export const templateVersionSources = ["manual", "ai-improvement", "restore", "variant"] as const;
+
+/**
+ * Type for the source of a template version.
+ */
+export type TemplateVersionSource = typeof templateVersionSources[number];
+
+/**
+ * The template_versions table keeps a snapshot of every version of a
+ * template. Version 1 is stored when the template is created, and a new
+ * version whenever its name, category, subject or content changes.
+ */
+export const templateVersions = pgTable("template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  subject: text("subject"),
+  content: text("content").notNull(),
+  variables: jsonb("variables").$type<TemplateVariable[]>().default([]),
+  authorId: varchar("author_id").notNull(),
+  source: text("source").$type<TemplateVersionSource>().notNull().default("manual"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("template_versions_template_version_idx").on(table.templateId, table.version),
+]);
+
+/**
+ * The template_variants table stores alternative contents of a template for
+ * A/B tests. The template's own content is the control; each active variant
+ * gets its weight, in percent, of the replies that use the template, and the
+ * control gets the rest.
+ */
+export const templateVariants = pgTable("template_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull(),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  weight: integer("weight").notNull().default(50),
+  isActive: boolean("is_active").default(true),
+  promotedAt: timestamp("promoted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+/**
+ * The conversations table groups the inquiries of one thread. Emails join
+ * the conversation their In-Reply-To or References headers point at; other
+ * messages join a recent conversation with the same sender and subject.
+ */
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  subject: text("subject"),
+  source: text("source"),
+  /** The sender's address, lowercased, or null for anonymous messages. */
+  participant: text("participant"),
+  /** The display form of the sender, as on the latest inquiry. */
+  sender: text("sender"),
+  inquiryCount: integer("inquiry_count").notNull().default(0),
+  lastMessageAt: timestamp("last_message_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("conversations_user_last_message_idx").on(table.userId, table.lastMessageAt),
+  index("conversations_participant_idx").on(table.userId, table.source, table.participant),
+]);
+
 /**
  * The inquiries table stores customer inquiries received by users.
  */
@@ -48,8 +140,42 @@ export const inquiries = pgTable("inquiries", {
   source: text("source").default("email"),
   sender: text("sender"),
   aiClassification: jsonb("ai_classification"),
+  integrationId: varchar("integration_id"),
+  externalId: text("external_id"),
+  metadata: jsonb("metadata").$type<InquiryMetadata>(),
+  conversationId: varchar("conversation_id"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("inquiries_search_idx").using("gin", searchVector(table.subject, table.content)),
+  index("inquiries_conversation_idx").on(table.conversationId, table.createdAt),
+  // a message from an integration is only imported once, however often it is fetched
+  uniqueIndex("inquiries_external_id_idx").on(table.userId, table.source, table.externalId),
+]);
+
+/**
+ * The states a response can be in. Drafts wait for review and are either
+ * approved, which hands them over for delivery, or rejected. Approved
+ * responses become sent once they were delivered.
+ */
+export const responseStatuses = ["draft", "approved", "sent", "rejected"] as const;
+
+/**
+ * Type for the status of a response.
+ */
+export type ResponseStatus = typeof responseStatuses[number];
+
+/**
+ * The delivery states of a response sent through an outbound channel such as
+ * SMTP. Queued responses are retried with a growing delay until they are
+ * delivered or run out of attempts and fail. Responses without an outbound
+ * channel have no delivery status.
+ */
+export const deliveryStatuses = ["queued", "delivered", "failed"] as const;
+
+/**
+ * Type for the delivery status of a response.
+ */
+export type DeliveryStatus = typeof deliveryStatuses[number];
 
 /**
  * The responses table stores responses sent to customers.
@@ -58,13 +184,30 @@ export const responses = pgTable("responses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   inquiryId: varchar("inquiry_id").notNull(),
   templateId: varchar("template_id"),
+  templateVersion: integer("template_version"),
+  variantId: varchar("variant_id"),
   content: text("content").notNull(),
+  // the values of the template's variables the reply was written with, such as the client's name
+  variables: jsonb("variables").$type<Record<string, string>>(),
+  status: text("status").$type<ResponseStatus>().notNull().default("sent"),
+  reviewReason: text("review_reason"),
+  reviewedAt: timestamp("reviewed_at"),
   isAutomated: boolean("is_automated").default(true),
   wasModified: boolean("was_modified").default(false),
   sentAt: timestamp("sent_at").defaultNow(),
   customerFeedback: integer("customer_feedback"),
   success: boolean("success"),
-});
+  deliveryStatus: text("delivery_status").$type<DeliveryStatus>(),
+  deliveryAttempts: integer("delivery_attempts").notNull().default(0),
+  deliveryError: text("delivery_error"),
+  nextDeliveryAt: timestamp("next_delivery_at"),
+  messageId: text("message_id"),
+  // how many messages of a reply split over several were delivered, so a retry carries on after them
+  deliveredParts: integer("delivered_parts").notNull().default(0),
+}, (table) => [
+  index("responses_search_idx").using("gin", searchVector(table.content)),
+  index("responses_delivery_idx").on(table.deliveryStatus, table.nextDeliveryAt),
+]);
 
 /**
  * The integrations table stores information about third-party integrations.
@@ -77,6 +220,8 @@ export const integrations = pgTable("integrations", {
   credentials: jsonb("credentials"),
   settings: jsonb("settings").default({}),
   lastSync: timestamp("last_sync"),
+  // where the last sync stopped reading, kept apart from the settings the user edits
+  syncState: jsonb("sync_state"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -93,8 +238,179 @@ export const analytics = pgTable("analytics", {
   averageResponseTime: integer("average_response_time").default(0),
   customerSatisfaction: integer("customer_satisfaction").default(0),
   timeSaved: integer("time_saved").default(0),
+}, (table) => [
+  // one row per user and day, rebuilt by the aggregation job
+  uniqueIndex("analytics_user_date_idx").on(table.userId, table.date),
+]);
+
+/**
+ * The kinds of events recorded in the activity log.
+ */
+export const activityEventTypes = [
+  "auto-reply",
+  "manual-reply",
+  "template-created",
+  "template-updated",
+  "template-deleted",
+  "integration-connected",
+  "integration-synced",
+  "ai-improvement",
+] as const;
+
+/**
+ * Type for the kind of an activity event.
+ */
+export type ActivityEventType = typeof activityEventTypes[number];
+
+/**
+ * The activity_events table stores what happened in a user's account, as
+ * recorded by the server when it happens. Events point to the inquiry,
+ * template or integration they are about, if any.
+ */
+export const activityEvents = pgTable("activity_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  type: text("type").$type<ActivityEventType>().notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  inquiryId: varchar("inquiry_id"),
+  templateId: varchar("template_id"),
+  integrationId: varchar("integration_id"),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // the log is read newest first, one user at a time
+  index("activity_events_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+/**
+ * The user_settings table stores the profile, AI automation and notification
+ * preferences of each user.
+ */
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id").primaryKey(),
+  profile: jsonb("profile").$type<ProfileSettings>().notNull(),
+  ai: jsonb("ai").$type<AISettings>().notNull(),
+  notifications: jsonb("notifications").$type<NotificationSettings>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// --- Settings schemas ---
+
+/**
+ * Zod schema for the profile settings.
+ */
+export const profileSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  email: z.string().email("Invalid email address"),
+  timezone: z.string(),
+  businessHours: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  signature: z.string().max(2000, "Signature is too long").optional(),
 });
 
+/**
+ * The LLM backends the AI features can run on. "openai-compatible" covers
+ * local servers with an OpenAI-style API, such as Ollama.
+ */
+export const llmProviders = ["openai", "anthropic", "openai-compatible", "mock"] as const;
+
+/**
+ * Type for the name of an LLM backend.
+ */
+export type LLMProviderName = typeof llmProviders[number];
+
+/**
+ * The AI tasks, each of which can run on its own model.
+ */
+export const llmTasks = ["classify", "generate", "sentiment", "improve"] as const;
+
+/**
+ * Type for an AI task.
+ */
+export type LLMTask = typeof llmTasks[number];
+
+/**
+ * How inquiries are classified. "llm" asks the LLM and falls back to the
+ * rules when it fails, "rules-first" only asks the LLM when the rules are not
+ * confident enough, and "rules-only" never calls the LLM.
+ */
+export const classificationModes = ["llm", "rules-first", "rules-only"] as const;
+
+/**
+ * Zod schema for the AI automation settings. A provider of "default" uses
+ * the one configured for the server; an empty model uses the provider's
+ * default model.
+ */
+export const aiSettingsSchema = z.object({
+  autoReplyEnabled: z.boolean(),
+  confidenceThreshold: z.number().min(0).max(100),
+  responseDelay: z.number().min(0),
+  learningMode: z.boolean(),
+  manualReviewRequired: z.boolean(),
+  classificationMode: z.enum(classificationModes),
+  provider: z.enum(["default", ...llmProviders]),
+  models: z.object({
+    classify: z.string().trim(),
+    generate: z.string().trim(),
+    sentiment: z.string().trim(),
+    improve: z.string().trim(),
+  }),
+});
+
+/**
+ * Zod schema for the notification settings.
+ */
+export const notificationSchema = z.object({
+  emailNotifications: z.boolean(),
+  urgentInquiries: z.boolean(),
+  dailyDigest: z.boolean(),
+  weeklyReports: z.boolean(),
+});
+
+/**
+ * The settings used for users who have not saved any yet.
+ */
+export const defaultSettings: {
+  profile: ProfileSettings;
+  ai: AISettings;
+  notifications: NotificationSettings;
+} = {
+  profile: {
+    name: "",
+    email: "",
+    timezone: "America/New_York",
+    businessHours: {
+      start: "09:00",
+      end: "17:00",
+    },
+    signature: "",
+  },
+  ai: {
+    autoReplyEnabled: true,
+    confidenceThreshold: 85,
+    responseDelay: 30,
+    learningMode: true,
+    manualReviewRequired: false,
+    classificationMode: "llm",
+    provider: "default",
+    models: {
+      classify: "",
+      generate: "",
+      sentiment: "",
+      improve: "",
+    },
+  },
+  notifications: {
+    emailNotifications: true,
+    urgentInquiries: true,
+    dailyDigest: true,
+    weeklyReports: false,
+  },
+};
+
 // --- Insert schemas ---
 
 /**
@@ -105,28 +421,226 @@ export const insertUserSchema = createInsertSchema(users).omit({
 });
 
 /**
- * Zod schema for inserting a new template.
+ * Zod schema for signing up a new user.
+ */
+export const signupSchema = z.object({
+  username: z
+    .string()
+    .min(3, "Username must be at least 3 characters")
+    .max(64, "Username must be at most 64 characters")
+    .regex(/^[a-zA-Z0-9._-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+/**
+ * Zod schema for logging in.
+ */
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+/**
+ * Zod schema for changing the password of the logged-in user.
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+/**
+ * Zod schema for inserting a new template. The variables, the statistics and
+ * the version are not accepted, since the storage keeps them.
  */
 export const insertTemplateSchema = createInsertSchema(templates).omit({
   id: true,
+  variables: true,
+  successRate: true,
+  timesUsed: true,
+  averageFeedback: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
 });
 
+/**
+ * Zod schema for updating a template. The owner cannot be changed.
+ */
+export const updateTemplateSchema = insertTemplateSchema.omit({
+  userId: true,
+}).partial();
+
+/**
+ * Zod schema for the body of a template edit: the updates, and where they
+ * came from, which is recorded with the new version.
+ */
+export const templateEditSchema = updateTemplateSchema.extend({
+  source: z.enum(["manual", "ai-improvement"]).default("manual"),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Zod schema for inserting a new template variant.
+ */
+export const insertTemplateVariantSchema = createInsertSchema(templateVariants, {
+  name: z.string().trim().min(1, "Name is required").max(50),
+  content: z.string().min(1, "Content is required"),
+  weight: z.number().int().min(0).max(100),
+}).omit({
+  id: true,
+  promotedAt: true,
+  createdAt: true,
+});
+
+/**
+ * Zod schema for updating a template variant. It cannot move to another template.
+ */
+export const updateTemplateVariantSchema = insertTemplateVariantSchema.omit({
+  templateId: true,
+}).partial();
+
+/**
+ * Zod schema for the query string of a version diff.
+ */
+export const templateDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+/**
+ * The types a template variable can have. They decide how a value is checked
+ * and formatted when the template is rendered.
+ */
+export const templateVariableTypes = ["text", "date", "money", "url"] as const;
+
+/**
+ * Zod schema for the body of a template preview. Values may be strings or
+ * numbers; the currency, locale and time zone decide how money and dates are
+ * formatted.
+ */
+export const templateRenderSchema = z.object({
+  variables: z.record(z.union([z.string(), z.number()])).default({}),
+  currency: z.string().trim().length(3, "Currency must be an ISO 4217 code").optional(),
+  locale: z.string().trim().min(2).optional(),
+  timeZone: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Zod schema for the details of where an inquiry came from that are needed
+ * to answer it on the same channel. Inquiries entered by hand have none.
+ */
+export const inquiryMetadataSchema = z.object({
+  /** The address replies are sent to, for email, or the user a reply mentions, for Discord. */
+  replyTo: z.string().optional(),
+  /** The ID of the message this one answers: a Message-ID for email, the thread's first message or the message replied to for chat. */
+  inReplyTo: z.string().nullable().optional(),
+  /** The Message-IDs of the earlier messages of the thread, oldest first, for email. */
+  references: z.array(z.string()).optional(),
+  /** The channel or chat replies are posted to, for chat platforms. */
+  channel: z.string().optional(),
+  /** The thread replies are posted in, or the message they answer, for chat platforms that have them. */
+  threadId: z.string().nullable().optional(),
+});
+
 /**
  * Zod schema for inserting a new inquiry.
  */
-export const insertInquirySchema = createInsertSchema(inquiries).omit({
+export const insertInquirySchema = createInsertSchema(inquiries, {
+  metadata: inquiryMetadataSchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+/**
+ * Zod schema for inserting a new conversation.
+ */
+export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
 });
 
+/**
+ * Zod schema for the query string of the conversation listing.
+ */
+export const conversationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Zod schema for an incoming inquiry before it is classified.
+ */
+export const inquiryInputSchema = insertInquirySchema.pick({
+  subject: true,
+  content: true,
+  source: true,
+  sender: true,
+});
+
+/**
+ * The priorities of an inquiry, from lowest to highest.
+ */
+export const inquiryPriorities = ["low", "normal", "high", "urgent"] as const;
+
+/**
+ * The fields the inbox can be sorted by.
+ */
+export const inquirySortFields = ["createdAt", "priority"] as const;
+
+/**
+ * Zod schema for the query string of the inbox listing. Values arrive as
+ * strings, so numbers, dates and booleans are coerced.
+ */
+export const inquiryQuerySchema = z.object({
+  category: z.string().min(1).optional(),
+  priority: z.enum(inquiryPriorities).optional(),
+  source: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  answered: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sortBy: z.enum(inquirySortFields).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+/**
+ * Zod schema for the query string of a search.
+ */
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
 /**
  * Zod schema for inserting a new response.
  */
-export const insertResponseSchema = createInsertSchema(responses).omit({
+export const insertResponseSchema = createInsertSchema(responses, {
+  variables: z.record(z.string()).nullable().optional(),
+  status: z.enum(responseStatuses).optional(),
+}).omit({
   id: true,
   sentAt: true,
+  reviewedAt: true,
+  deliveryStatus: true,
+  deliveryAttempts: true,
+  deliveryError: true,
+  nextDeliveryAt: true,
+  messageId: true,
+  deliveredParts: true,
+});
+
+/**
+ * Zod schema for a response written by a user. Only the reply itself can be
+ * given; the A/B test variant and the outcome fields are set by the server,
+ * so clients cannot skew experiments or analytics.
+ */
+export const createResponseSchema = insertResponseSchema.pick({
+  inquiryId: true,
+  templateId: true,
+  content: true,
+  status: true,
 });
 
 /**
@@ -136,6 +650,163 @@ export const insertIntegrationSchema = createInsertSchema(integrations).omit({
   id: true,
   createdAt: true,
   lastSync: true,
+  syncState: true,
+});
+
+/**
+ * Zod schema for updating an integration. The owner and the platform cannot
+ * be changed, since the credentials and settings were checked for the platform.
+ */
+export const updateIntegrationSchema = insertIntegrationSchema.omit({
+  userId: true,
+  platform: true,
+}).partial();
+
+/**
+ * The platforms whose mail is read over IMAP.
+ */
+export const emailPlatforms = ["Gmail", "Email"] as const;
+
+/**
+ * Zod schema for the credentials of an email integration: the IMAP server
+ * and the account to read. Gmail needs an app password.
+ */
+export const imapCredentialsSchema = z.object({
+  host: z.string().trim().min(1, "IMAP host is required"),
+  port: z.coerce.number().int().min(1).max(65535).default(993),
+  secure: z.boolean().default(true),
+  user: z.string().trim().min(1, "IMAP user is required"),
+  password: z.string().min(1, "IMAP password is required"),
+});
+
+/**
+ * Zod schema for the outgoing mail server of an email integration, used to
+ * send approved replies. The user and password fall back to the IMAP ones,
+ * which is what most providers expect.
+ */
+export const smtpCredentialsSchema = z.object({
+  smtpHost: z.string().trim().min(1, "SMTP host is required"),
+  smtpPort: z.coerce.number().int().min(1).max(65535).default(465),
+  smtpSecure: z.boolean().default(true),
+  smtpUser: z.string().trim().optional(),
+  smtpPassword: z.string().optional(),
+  fromAddress: z.string().trim().email("Invalid from address").optional().or(z.literal("")),
+});
+
+/**
+ * Zod schema for the full credentials of an email integration. Sending is
+ * optional: without an SMTP host, replies are only recorded.
+ */
+export const emailCredentialsSchema = imapCredentialsSchema
+  .merge(smtpCredentialsSchema.partial())
+  .extend({ smtpHost: z.string().trim().optional() });
+
+/**
+ * Zod schema for the settings of an email integration. Unknown settings are
+ * kept, so settings saved by a newer client are not dropped.
+ */
+export const emailSettingsSchema = z.object({
+  autoReply: z.boolean().default(true),
+  mailbox: z.string().trim().min(1).default("INBOX"),
+  pollIntervalMinutes: z.coerce.number().int().min(1).max(1440).default(5),
+  maxMessagesPerSync: z.coerce.number().int().min(1).max(500).default(50),
+}).passthrough();
+
+/**
+ * Zod schema for the credentials of a Slack integration: the signing secret
+ * that verifies events come from Slack, and the bot token replies are
+ * posted with.
+ */
+export const slackCredentialsSchema = z.object({
+  signingSecret: z.string().trim().min(1, "Signing secret is required"),
+  botToken: z.string().trim().regex(/^xoxb-/, "Bot token must start with xoxb-"),
+});
+
+/**
+ * Zod schema for the credentials of a Telegram integration: the token of the
+ * bot from BotFather. The webhook secret is generated when the webhook is
+ * registered with Telegram.
+ */
+export const telegramCredentialsSchema = z.object({
+  botToken: z.string().trim().regex(/^\d+:[A-Za-z0-9_-]+$/, "Bot token must look like 123456:ABC-DEF..."),
+  webhookSecret: z.string().optional(),
+});
+
+/**
+ * Zod schema for the credentials of a Discord integration: the application
+ * ID and public key that verify interactions, and the bot token replies are
+ * posted with.
+ */
+export const discordCredentialsSchema = z.object({
+  applicationId: z.string().trim().regex(/^\d+$/, "Application ID must be a number"),
+  publicKey: z.string().trim().regex(/^[0-9a-fA-F]{64}$/, "Public key must be 64 hexadecimal characters"),
+  botToken: z.string().trim().min(1, "Bot token is required"),
+});
+
+/**
+ * Zod schema for the settings of a chat integration such as Slack, Telegram
+ * or Discord. Unknown settings are kept.
+ */
+export const chatSettingsSchema = z.object({
+  autoReply: z.boolean().default(true),
+}).passthrough();
+
+/**
+ * Zod schema for creating an integration, checked for its platform. The
+ * credentials may be left out and entered later, but when given they must
+ * be complete.
+ */
+export const createIntegrationSchema = z.discriminatedUnion("platform", [
+  z.object({
+    platform: z.enum(emailPlatforms),
+    isActive: z.boolean().optional(),
+    credentials: emailCredentialsSchema.optional(),
+    settings: emailSettingsSchema.default({}),
+  }),
+  z.object({
+    platform: z.literal("Slack"),
+    isActive: z.boolean().optional(),
+    credentials: slackCredentialsSchema.optional(),
+    settings: chatSettingsSchema.default({}),
+  }),
+  z.object({
+    platform: z.literal("Telegram"),
+    isActive: z.boolean().optional(),
+    credentials: telegramCredentialsSchema.optional(),
+    settings: chatSettingsSchema.default({}),
+  }),
+  z.object({
+    platform: z.literal("Discord"),
+    isActive: z.boolean().optional(),
+    credentials: discordCredentialsSchema.optional(),
+    settings: chatSettingsSchema.default({}),
+  }),
+]);
+
+/**
+ * Zod schema for editing the content of a draft response.
+ */
+export const editResponseSchema = z.object({
+  content: z.string().min(1, "Content is required"),
+});
+
+/**
+ * Zod schema for recording customer feedback on a response.
+ */
+export const responseFeedbackSchema = z.object({
+  customerFeedback: z.number().int().min(1).max(5).nullable().optional(),
+  success: z.boolean().nullable().optional(),
+});
+
+/**
+ * Zod schema for inserting or replacing the settings of a user.
+ */
+export const insertUserSettingsSchema = createInsertSchema(userSettings, {
+  profile: profileSchema,
+  ai: aiSettingsSchema,
+  notifications: notificationSchema,
+}).omit({
+  updatedAt: true,
 });
 
 /**
@@ -146,6 +817,72 @@ export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
   date: true,
 });
 
+/**
+ * Zod schema for inserting a new activity event.
+ */
+export const insertActivityEventSchema = createInsertSchema(activityEvents, {
+  type: z.enum(activityEventTypes),
+  metadata: z.record(z.unknown()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+/**
+ * Zod schema for the query string of the activity log.
+ */
+export const activityQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Zod schema for the query string of the analytics summary: the first and
+ * last day of the period, both included, or the number of days up to the last
+ * day. The period defaults to the 7 days up to today and is compared with the
+ * period of the same length just before it.
+ */
+export const analyticsSummaryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  days: z.coerce.number().int().min(1).optional(),
+}).refine((range) => !range.from || !range.to || range.from <= range.to, {
+  message: "from must not be after to",
+});
+
+/**
+ * The data sets that can be exported.
+ */
+export const exportDatasets = ["analytics", "inquiries", "responses"] as const;
+
+/**
+ * Zod schema for the data set of an export, taken from the URL.
+ */
+export const exportDatasetSchema = z.enum(exportDatasets);
+
+/**
+ * Zod schema for the query string of an export: the format and the first and
+ * last day to include, both included. The range defaults to the last 30 days.
+ */
+export const exportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine((range) => !range.from || !range.to || range.from <= range.to, {
+  message: "from must not be after to",
+});
+
+/**
+ * Zod schema for the body of an analytics backfill: the days to rebuild. The
+ * range defaults to the day of the user's first inquiry through today.
+ */
+export const analyticsBackfillSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine((range) => !range.from || !range.to || range.from <= range.to, {
+  message: "from must not be after to",
+});
+
 // --- Types ---
 
 /**
@@ -156,6 +893,10 @@ export type User = typeof users.$inferSelect;
  * Type for inserting a new user.
  */
 export type InsertUser = z.infer<typeof insertUserSchema>;
+/**
+ * Type for a user as exposed by the API, without the password hash.
+ */
+export type PublicUser = Omit<User, "password">;
 
 /**
  * Type for a template record.
@@ -165,6 +906,169 @@ export type Template = typeof templates.$inferSelect;
  * Type for inserting a new template.
  */
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+/**
+ * Type for the statistics of a template, derived from its sent responses.
+ */
+export type TemplateStats = Pick<Template, "successRate" | "timesUsed" | "averageFeedback">;
+
+/**
+ * Type for a template version record.
+ */
+export type TemplateVersion = typeof templateVersions.$inferSelect;
+/**
+ * Type for a template version together with the username of its author.
+ */
+export type TemplateVersionWithAuthor = TemplateVersion & { author: string | null };
+
+/**
+ * Who made a template edit and why, recorded with the version it creates.
+ */
+export interface TemplateRevision {
+  authorId: string;
+  source: TemplateVersionSource;
+  note?: string | null;
+}
+
+/**
+ * The fields of a template that are versioned. Other fields, such as whether
+ * the template is active or its usage counters, change without a new version.
+ */
+export const versionedTemplateFields = ["name", "category", "subject", "content"] as const;
+
+/**
+ * The difference between two versions of a template, per changed field.
+ */
+export interface TemplateVersionDiff {
+  from: TemplateVersion;
+  to: TemplateVersion;
+  changes: { field: typeof versionedTemplateFields[number]; parts: DiffPart[] }[];
+}
+
+/**
+ * Type for a template variant record.
+ */
+export type TemplateVariant = typeof templateVariants.$inferSelect;
+/**
+ * Type for inserting a new template variant.
+ */
+export type InsertTemplateVariant = z.infer<typeof insertTemplateVariantSchema>;
+
+/**
+ * The results of one arm of an A/B test: the control (the template's own
+ * content) or a variant.
+ */
+export interface ExperimentArm {
+  /** The ID of the variant, or null for the control. */
+  variantId: string | null;
+  name: string;
+  /** The share of traffic, in percent. */
+  weight: number;
+  /** How many sent replies used this arm. */
+  sent: number;
+  /** How many of them got an outcome: a success flag or a rating. */
+  outcomes: number;
+  successes: number;
+  /** Successes divided by outcomes, or null without outcomes. */
+  successRate: number | null;
+  averageFeedback: number | null;
+  /** The relative change of the success rate against the control; null for the control. */
+  lift: number | null;
+  /** The two-sided p-value of the difference to the control; null for the control. */
+  pValue: number | null;
+  /** Whether the difference is significant after correcting for the number of variants. */
+  significant: boolean;
+}
+
+/**
+ * The A/B test report of a template.
+ */
+export interface ExperimentReport {
+  templateId: string;
+  templateName: string;
+  autoPromote: boolean;
+  /** The control first, then the active variants. */
+  arms: ExperimentArm[];
+  /** The outcomes each arm needs before a winner is declared. */
+  minOutcomes: number;
+  /** The variant that beats the control significantly, if any. */
+  winnerId: string | null;
+}
+
+/**
+ * Type for the type of a template variable.
+ */
+export type TemplateVariableType = typeof templateVariableTypes[number];
+
+/**
+ * A variable used by a template, as parsed from its content.
+ */
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  /** The value used when none is given, from the first placeholder that declares one. */
+  defaultValue?: string;
+  /** Whether a value is needed: the variable is printed outside a condition on itself and has no default. */
+  required: boolean;
+}
+
+/**
+ * Type for the parsed body of a template preview.
+ */
+export type TemplateRenderInput = z.infer<typeof templateRenderSchema>;
+
+/**
+ * Type for a rendered template.
+ */
+export interface RenderedTemplate {
+  subject: string | null;
+  content: string;
+  /** The required variables that had no value. Their placeholders are left in the output. */
+  missing: string[];
+}
+
+/**
+ * Type for an AI-suggested improvement of a template.
+ */
+export interface TemplateImprovement {
+  improvedContent: string;
+  improvements: string[];
+  confidence: number;
+}
+
+/**
+ * The engines that can classify an inquiry: the LLM, or the local rule-based
+ * classifier, which also steps in when the LLM fails.
+ */
+export type ClassificationEngine = "llm" | "rules";
+
+/**
+ * Type for the details of where an inquiry came from.
+ */
+export type InquiryMetadata = z.infer<typeof inquiryMetadataSchema>;
+
+/**
+ * Represents the classification of a customer inquiry.
+ */
+export interface InquiryClassification {
+  /** The category of the inquiry (e.g., "project", "pricing"). */
+  category: string;
+  /** The priority of the inquiry. */
+  priority: "low" | "normal" | "high" | "urgent";
+  /** A brief description of what the customer wants. */
+  intent: string;
+  /** The confidence score of the classification (0.0 to 1.0). */
+  confidence: number;
+  /** A list of variables that need to be filled in for a response. */
+  requiredVariables: string[];
+  /** The ID of a suggested template to use for a response, if any. */
+  suggestedTemplateId?: string;
+  /** Which engine made the decision. Missing on classifications stored before engines were recorded. */
+  engine?: ClassificationEngine;
+  /** The provider and model, for decisions made by the LLM, e.g. "openai/gpt-5". */
+  model?: string;
+  /** The rules that fired, for decisions made by the rule-based classifier. */
+  signals?: string[];
+}
 
 /**
  * Type for an inquiry record.
@@ -174,6 +1078,64 @@ export type Inquiry = typeof inquiries.$inferSelect;
  * Type for inserting a new inquiry.
  */
 export type InsertInquiry = z.infer<typeof insertInquirySchema>;
+/**
+ * Type for a conversation record.
+ */
+export type Conversation = typeof conversations.$inferSelect;
+/**
+ * Type for inserting a new conversation.
+ */
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+/**
+ * Type for the parsed query of the conversation listing.
+ */
+export type ConversationQuery = z.infer<typeof conversationQuerySchema>;
+/**
+ * Type for a conversation in the threaded inbox, with whether an inquiry in
+ * it still waits for a sent reply.
+ */
+export type ConversationListItem = Conversation & { awaitingReply: boolean };
+/**
+ * Type for one page of the conversation listing, the latest message first.
+ */
+export interface ConversationPage {
+  items: ConversationListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+/**
+ * Type for a conversation with its inquiries, oldest first, and the responses to them.
+ */
+export type ConversationWithMessages = Conversation & { inquiries: InquiryWithResponses[] };
+/**
+ * Type for an earlier message of a conversation, given to the AI as context
+ * when a new inquiry in it is classified and answered.
+ */
+export interface ConversationTurn {
+  /** Whether the customer wrote the message, or the business replied with it. */
+  from: "customer" | "business";
+  content: string;
+  at: Date | null;
+}
+
+/**
+ * Type for the parsed query of the inbox listing.
+ */
+export type InquiryQuery = z.infer<typeof inquiryQuerySchema>;
+/**
+ * Type for an inquiry in the inbox listing, with whether a reply was sent.
+ */
+export type InquiryListItem = Inquiry & { answered: boolean };
+/**
+ * Type for one page of the inbox listing.
+ */
+export interface InquiryPage {
+  items: InquiryListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
 
 /**
  * Type for a response record.
@@ -183,6 +1145,36 @@ export type Response = typeof responses.$inferSelect;
  * Type for inserting a new response.
  */
 export type InsertResponse = z.infer<typeof insertResponseSchema>;
+/**
+ * Type for a response written by a user.
+ */
+export type CreateResponse = z.infer<typeof createResponseSchema>;
+/**
+ * Type for a response together with the inquiry it answers.
+ */
+export type ResponseWithInquiry = Response & { inquiry: Inquiry };
+/**
+ * Type for an inquiry together with the responses to it.
+ */
+export type InquiryWithResponses = Inquiry & { responses: Response[] };
+
+/**
+ * The kinds of records a search can return.
+ */
+export type SearchResultType = "inquiry" | "response" | "template";
+/**
+ * Type for a single search hit. The snippet marks matched words with
+ * `HIGHLIGHT_START` and `HIGHLIGHT_END` from `shared/search.ts`.
+ */
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  /** The inquiry the hit belongs to, for inquiries and responses. */
+  inquiryId: string | null;
+  title: string;
+  snippet: string;
+  rank: number;
+}
 
 /**
  * Type for an integration record.
@@ -192,6 +1184,39 @@ export type Integration = typeof integrations.$inferSelect;
  * Type for inserting a new integration.
  */
 export type InsertIntegration = z.infer<typeof insertIntegrationSchema>;
+/**
+ * Type for an integration created by a user.
+ */
+export type CreateIntegration = z.infer<typeof createIntegrationSchema>;
+
+/**
+ * Type for the credentials of an email integration.
+ */
+export type ImapCredentials = z.infer<typeof imapCredentialsSchema>;
+/**
+ * Type for the outgoing mail server of an email integration.
+ */
+export type SmtpCredentials = z.infer<typeof smtpCredentialsSchema>;
+/**
+ * Type for the settings of an email integration.
+ */
+export type EmailSettings = z.infer<typeof emailSettingsSchema>;
+/**
+ * Type for the credentials of a Slack integration.
+ */
+export type SlackCredentials = z.infer<typeof slackCredentialsSchema>;
+/**
+ * Type for the credentials of a Telegram integration.
+ */
+export type TelegramCredentials = z.infer<typeof telegramCredentialsSchema>;
+/**
+ * Type for the credentials of a Discord integration.
+ */
+export type DiscordCredentials = z.infer<typeof discordCredentialsSchema>;
+/**
+ * Type for the settings of a chat integration.
+ */
+export type ChatSettings = z.infer<typeof chatSettingsSchema>;
 
 /**
  * Type for an analytics record.
@@ -201,3 +1226,139 @@ export type Analytics = typeof analytics.$inferSelect;
  * Type for inserting new analytics data.
  */
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
+/**
+ * Type for an activity event.
+ */
+export type ActivityEvent = typeof activityEvents.$inferSelect;
+/**
+ * Type for inserting a new activity event.
+ */
+export type InsertActivityEvent = z.infer<typeof insertActivityEventSchema>;
+/**
+ * Type for the parsed query of the activity log.
+ */
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+/**
+ * Type for one page of the activity log, newest first.
+ */
+export interface ActivityPage {
+  items: ActivityEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+/**
+ * Type for an event pushed to the browser over the live event stream, so
+ * open pages can refresh without polling. Every event belongs to one user.
+ */
+export type LiveEvent =
+  | {
+      type: "inquiry-created";
+      inquiryId: string;
+      subject: string | null;
+      sender: string | null;
+      priority: string | null;
+      /** Whether the user wants to be alerted about this inquiry, per their notification settings. */
+      alert: boolean;
+    }
+  | { type: "draft-created"; responseId: string; inquiryId: string }
+  | { type: "response-sent"; responseId: string; inquiryId: string; templateId: string | null; automated: boolean }
+  | {
+      type: "delivery-failed";
+      responseId: string;
+      inquiryId: string;
+      message: string;
+      /** Whether another attempt is scheduled; false once the response has failed for good. */
+      willRetry: boolean;
+    }
+  | { type: "integration-error"; integrationId: string; platform: string; message: string };
+/**
+ * Type for the kind of a live event.
+ */
+export type LiveEventType = LiveEvent["type"];
+/**
+ * Type for the analytics of one user and day, as built by the aggregation job.
+ * The date is the start of the day, in UTC.
+ */
+export type DailyAnalytics = InsertAnalytics & { date: Date };
+/**
+ * Type for a sent reply as the aggregation job counts it: when the inquiry it
+ * answers arrived, and whether it was the first reply to that inquiry.
+ */
+export type AnalyticsReply = { response: Response; receivedAt: Date | null; firstReply: boolean };
+/**
+ * Type for the body of an analytics backfill.
+ */
+export type AnalyticsBackfill = z.infer<typeof analyticsBackfillSchema>;
+/**
+ * Type for a data set that can be exported.
+ */
+export type ExportDataset = typeof exportDatasets[number];
+/**
+ * Type for the query string of an export.
+ */
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+/**
+ * Type for the query string of the analytics summary.
+ */
+export type AnalyticsSummaryQuery = z.infer<typeof analyticsSummaryQuerySchema>;
+
+/**
+ * Type for one metric of the analytics summary. A value is null when there is
+ * nothing to measure, such as a satisfaction score without any ratings.
+ */
+export interface SummaryMetric {
+  value: number | null;
+  /** The value over the previous period of the same length. */
+  previous: number | null;
+  /** The value minus the previous value, or null if either is missing. */
+  change: number | null;
+}
+
+/**
+ * Type for the analytics summary of a period, compared with the period before it.
+ */
+export interface AnalyticsSummary {
+  /** The first day of the period, as YYYY-MM-DD. */
+  from: string;
+  /** The last day of the period, as YYYY-MM-DD. */
+  to: string;
+  /** The number of days in the period. */
+  days: number;
+  metrics: {
+    /** The share of inquiries answered automatically, in percent. */
+    responseRate: SummaryMetric;
+    /** The estimated time saved, in hours. */
+    timeSaved: SummaryMetric;
+    /** The average rating of the replies, as a percentage of 5 stars. */
+    customerSatisfaction: SummaryMetric;
+    /** The average time to the first reply, in seconds. */
+    averageResponseTime: SummaryMetric;
+    /** The active templates that existed at the end of the period. */
+    activeTemplates: SummaryMetric;
+    inquiries: SummaryMetric;
+    responses: SummaryMetric;
+  };
+}
+
+/**
+ * Type for the profile settings.
+ */
+export type ProfileSettings = z.infer<typeof profileSchema>;
+/**
+ * Type for the AI automation settings.
+ */
+export type AISettings = z.infer<typeof aiSettingsSchema>;
+/**
+ * Type for the notification settings.
+ */
+export type NotificationSettings = z.infer<typeof notificationSchema>;
+
+/**
+ * Type for a user settings record.
+ */
+export type UserSettings = typeof userSettings.$inferSelect;
+/**
+ * Type for inserting or replacing the settings of a user.
+ */
+export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview This file contains the markers used to highlight matched
+ * words in search snippets, shared by the server, which inserts them, and the
+ * client, which renders them.
+ */
+
+/**
+ * Marks the start of a highlighted word in a snippet. Control characters are
+ * used so the markers cannot clash with the text of an inquiry.
+ */
+export const HIGHLIGHT_START = "\u0002";
+
+/**
+ * Marks the end of a highlighted word in a snippet.
+ */
+export const HIGHLIGHT_END = "\u0003";
+
+/**
+ * A part of a snippet, either highlighted or plain.
+ */
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Splits a snippet into plain and highlighted parts.
+ * @param {string} snippet - The snippet with highlight markers.
+ * @returns {SnippetPart[]} The parts of the snippet, in order.
+ */
+export function splitHighlights(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, "g");
+  let last = 0;
+
+  for (const match of Array.from(snippet.matchAll(pattern))) {
+    if (match.index! > last) {
+      parts.push({ text: snippet.slice(last, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    last = match.index! + match[0].length;
+  }
+
+  if (last < snippet.length) {
+    parts.push({ text: snippet.slice(last), highlighted: false });
+  }
+
+  return parts;
+}
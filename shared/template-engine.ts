@@ -0,0 +1,416 @@
+/**
+ * @fileoverview This file contains the template language, shared by the
+ * server, which renders replies, and the client, which shows the variables of
+ * a template while it is edited.
+ *
+ * Placeholders are written as `{{name}}`. A placeholder can declare a type,
+ * a default value and filters:
+ *
+ * - `{{startDate:date}}`, `{{budget:money}}`, `{{portfolio:url}}`: typed
+ *   variables. Values are checked and formatted by type; untyped variables
+ *   are text.
+ * - `{{clientName = "there"}}`: a default used when no value is given.
+ * - `{{budget:money | currency:"EUR"}}`, `{{startDate | date:"short"}}`,
+ *   `{{service | upper}}`: filters. `date` and `currency` format dates and
+ *   money (and imply the type); `upper`, `lower`, `capitalize`, `trim` and
+ *   `truncate:N` change the text.
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`:
+ *   sections shown depending on whether a value was given for a variable.
+ */
+
+import type { RenderedTemplate, TemplateVariable, TemplateVariableType } from "./schema";
+
+/**
+ * Raised when a template cannot be parsed, or a value does not fit the type
+ * of its variable.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+/**
+ * A filter of a placeholder, with its argument if any.
+ */
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+/**
+ * A node of a parsed template.
+ */
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "placeholder"; source: string; name: string; type?: TemplateVariableType; defaultValue?: string; filters: Filter[] }
+  | { kind: "section"; negate: boolean; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * Options for rendering a template.
+ */
+export interface RenderOptions {
+  /** The ISO 4217 code of the currency for money variables. Defaults to "USD". */
+  currency?: string;
+  /** The locale used to format dates and money. Defaults to "en-US". */
+  locale?: string;
+  /** The time zone of dates that carry a time. Dates without a time are not shifted. */
+  timeZone?: string;
+}
+
+const TYPES: readonly string[] = ["text", "date", "money", "url"];
+const TEXT_FILTERS = ["upper", "lower", "capitalize", "trim", "truncate"];
+const DATE_STYLES = ["short", "medium", "long", "full", "iso"];
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const VALUE = `"(?:[^"\\\\]|\\\\.)*"|'(?:[^'\\\\]|\\\\.)*'|[^\\s|]+`;
+const PLACEHOLDER_PATTERN = new RegExp(
+  `^([A-Za-z_]\\w*)(?:\\s*:\\s*(\\w+))?(?:\\s*=\\s*(${VALUE}))?((?:\\s*\\|\\s*\\w+(?:\\s*:\\s*(?:${VALUE}))?)*)$`
+);
+const FILTER_PATTERN = new RegExp(`\\|\\s*(\\w+)(?:\\s*:\\s*(${VALUE}))?`, "g");
+const SECTION_PATTERN = /^#(if|unless)\s+([A-Za-z_]\w*)$/;
+const CLOSE_PATTERN = /^\/(if|unless)$/;
+
+/**
+ * Removes the quotes around a value and unescapes it.
+ * @param {string} value - The value as written in the template.
+ * @returns {string} The value.
+ */
+function unquote(value: string): string {
+  if (/^(".*"|'.*')$/.test(value)) {
+    return value.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+/**
+ * Gets the line of an offset in the template, for error messages.
+ * @param {string} content - The template.
+ * @param {number} offset - The offset.
+ * @returns {number} The line number, starting at 1.
+ */
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Parses the expression of a placeholder.
+ * @param {string} expression - The text between the braces.
+ * @param {string} source - The whole placeholder, kept for missing values.
+ * @param {number} line - The line of the placeholder, for error messages.
+ * @returns {TemplateNode} The placeholder node.
+ * @throws {TemplateError} If the expression is not valid.
+ */
+function parsePlaceholder(expression: string, source: string, line: number): TemplateNode {
+  const match = expression.match(PLACEHOLDER_PATTERN);
+  if (!match) {
+    throw new TemplateError(`Invalid placeholder "${source}" on line ${line}`);
+  }
+
+  const [, name, declaredType, defaultValue, filterText] = match;
+  if (declaredType && !TYPES.includes(declaredType)) {
+    throw new TemplateError(`Unknown type "${declaredType}" for "${name}" on line ${line}`);
+  }
+
+  const filters: Filter[] = [];
+  let filterMatch: RegExpExecArray | null;
+  FILTER_PATTERN.lastIndex = 0;
+  while ((filterMatch = FILTER_PATTERN.exec(filterText)) !== null) {
+    filters.push({ name: filterMatch[1], arg: filterMatch[2] === undefined ? undefined : unquote(filterMatch[2]) });
+  }
+
+  let type = declaredType as TemplateVariableType | undefined;
+  for (const filter of filters) {
+    if (filter.name === "date" || filter.name === "currency") {
+      const implied: TemplateVariableType = filter.name === "date" ? "date" : "money";
+      if (type && type !== implied) {
+        throw new TemplateError(`The ${filter.name} filter cannot be used on the ${type} variable "${name}" on line ${line}`);
+      }
+      type = implied;
+      if (filter.name === "date" && filter.arg !== undefined && !DATE_STYLES.includes(filter.arg)) {
+        throw new TemplateError(`Unknown date style "${filter.arg}" on line ${line}`);
+      }
+    } else if (!TEXT_FILTERS.includes(filter.name)) {
+      throw new TemplateError(`Unknown filter "${filter.name}" on line ${line}`);
+    } else if (filter.name === "truncate" && !/^\d+$/.test(filter.arg ?? "")) {
+      throw new TemplateError(`The truncate filter needs a length on line ${line}`);
+    }
+  }
+
+  return {
+    kind: "placeholder",
+    source,
+    name,
+    type,
+    defaultValue: defaultValue === undefined ? undefined : unquote(defaultValue),
+    filters,
+  };
+}
+
+/**
+ * Parses a template into a tree of nodes.
+ * @param {string} content - The template.
+ * @returns {TemplateNode[]} The nodes.
+ * @throws {TemplateError} If the template is not valid.
+ */
+function parse(content: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // the open sections, innermost last; `target` is where nodes are added
+  const stack: { node: Extract<TemplateNode, { kind: "section" }>; line: number; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.body) : root;
+  };
+
+  let last = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(content)) !== null) {
+    if (match.index > last) {
+      target().push({ kind: "text", text: content.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+
+    const line = lineAt(content, match.index);
+    const tag = match[1].trim();
+    const open = tag.match(SECTION_PATTERN);
+    const close = tag.match(CLOSE_PATTERN);
+
+    if (open) {
+      const node: TemplateNode = { kind: "section", negate: open[1] === "unless", name: open[2], body: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, line, inElse: false });
+    } else if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateError(`Unexpected {{else}} on line ${line}`);
+      }
+      top.inElse = true;
+    } else if (close) {
+      const top = stack.pop();
+      const kind = top?.node.negate ? "unless" : "if";
+      if (!top || kind !== close[1]) {
+        throw new TemplateError(`Unexpected {{/${close[1]}}} on line ${line}`);
+      }
+    } else {
+      target().push(parsePlaceholder(tag, match[0], line));
+    }
+  }
+
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    throw new TemplateError(`Unclosed {{#${top.node.negate ? "unless" : "if"} ${top.node.name}}} on line ${top.line}`);
+  }
+  if (last < content.length) {
+    root.push({ kind: "text", text: content.slice(last) });
+  }
+  return root;
+}
+
+/**
+ * Parses the variables of a template from its content.
+ * @param {string} content - The template.
+ * @returns {TemplateVariable[]} The variables, in order of first use.
+ * @throws {TemplateError} If the template is not valid, or a variable is declared with two types.
+ */
+export function extractVariables(content: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable & { typed: boolean }>();
+  const use = (name: string) => {
+    let variable = variables.get(name);
+    if (!variable) {
+      variable = { name, type: "text", required: false, typed: false };
+      variables.set(name, variable);
+    }
+    return variable;
+  };
+
+  // `guards` holds the variables known to have a value at this point
+  const visit = (nodes: TemplateNode[], guards: string[]) => {
+    for (const node of nodes) {
+      if (node.kind === "placeholder") {
+        const variable = use(node.name);
+        if (node.type) {
+          if (variable.typed && variable.type !== node.type) {
+            throw new TemplateError(`"${node.name}" is used as both ${variable.type} and ${node.type}`);
+          }
+          variable.type = node.type;
+          variable.typed = true;
+        }
+        if (variable.defaultValue === undefined && node.defaultValue !== undefined) {
+          variable.defaultValue = node.defaultValue;
+        }
+        if (node.defaultValue === undefined && !guards.includes(node.name)) {
+          variable.required = true;
+        }
+      } else if (node.kind === "section") {
+        use(node.name);
+        visit(node.body, node.negate ? guards : guards.concat(node.name));
+        visit(node.otherwise, node.negate ? guards.concat(node.name) : guards);
+      }
+    }
+  };
+  visit(parse(content), []);
+
+  return Array.from(variables.values()).map(({ typed, ...variable }) => ({
+    ...variable,
+    // a default anywhere covers the placeholders without one
+    required: variable.required && variable.defaultValue === undefined,
+  }));
+}
+
+/**
+ * Formats a date value.
+ * @param {string} name - The name of the variable, for error messages.
+ * @param {string} value - The value, e.g. "2025-03-01" or an ISO timestamp.
+ * @param {string} style - "short", "medium", "long", "full" or "iso".
+ * @param {RenderOptions & { locale: string }} options - The render options.
+ * @returns {string} The formatted date.
+ * @throws {TemplateError} If the value is not a date.
+ */
+function formatDate(name: string, value: string, style: string, options: RenderOptions & { locale: string }): string {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T00:00:00Z` : value);
+  if (isNaN(date.getTime())) {
+    throw new TemplateError(`"${value}" is not a valid date for "${name}"`);
+  }
+
+  const timeZone = dateOnly ? "UTC" : options.timeZone;
+  if (style === "iso") {
+    return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+  }
+  return new Intl.DateTimeFormat(options.locale, {
+    timeZone,
+    dateStyle: style as "short" | "medium" | "long" | "full",
+  }).format(date);
+}
+
+/**
+ * Formats a money value.
+ * @param {string} name - The name of the variable, for error messages.
+ * @param {string} value - The amount, e.g. "1500", "1,500.50" or "$1500".
+ * @param {string} currency - The ISO 4217 code of the currency.
+ * @param {string} locale - The locale.
+ * @returns {string} The formatted amount.
+ * @throws {TemplateError} If the value is not an amount or the currency is unknown.
+ */
+function formatMoney(name: string, value: string, currency: string, locale: string): string {
+  const amount = Number(value.replace(/[^\d.-]/g, ""));
+  if (!/\d/.test(value) || isNaN(amount)) {
+    throw new TemplateError(`"${value}" is not a valid amount for "${name}"`);
+  }
+
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency: currency.toUpperCase() }).format(amount);
+  } catch {
+    throw new TemplateError(`Unknown currency "${currency}" for "${name}"`);
+  }
+}
+
+/**
+ * Checks a URL value.
+ * @param {string} name - The name of the variable, for error messages.
+ * @param {string} value - The URL.
+ * @returns {string} The URL.
+ * @throws {TemplateError} If the value is not an http or https URL.
+ */
+function checkUrl(name: string, value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new TemplateError(`"${value}" is not a valid URL for "${name}"`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new TemplateError(`"${value}" is not an http or https URL for "${name}"`);
+  }
+  return value;
+}
+
+/**
+ * Applies a text filter.
+ * @param {string} text - The text.
+ * @param {Filter} filter - The filter.
+ * @returns {string} The filtered text.
+ */
+function applyFilter(text: string, filter: Filter): string {
+  switch (filter.name) {
+    case "upper":
+      return text.toUpperCase();
+    case "lower":
+      return text.toLowerCase();
+    case "capitalize":
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    case "trim":
+      return text.trim();
+    case "truncate": {
+      const length = Number(filter.arg);
+      return text.length > length ? `${text.slice(0, Math.max(0, length - 1)).trimEnd()}…` : text;
+    }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Renders a template with the given values. Sections test whether a value was
+ * given; defaults do not count. Required variables without a value keep their
+ * placeholder, so a preview shows what is still to be filled in.
+ * @param {string} content - The template.
+ * @param {Record<string, string | number | undefined>} values - The values of the variables.
+ * @param {RenderOptions} [options={}] - How to format dates and money.
+ * @returns {Omit<RenderedTemplate, "subject">} The rendered text and the missing variables.
+ * @throws {TemplateError} If the template is not valid, or a value does not fit its type.
+ */
+export function renderTemplate(
+  content: string,
+  values: Record<string, string | number | undefined>,
+  options: RenderOptions = {}
+): Omit<RenderedTemplate, "subject"> {
+  const settings = { ...options, locale: options.locale || "en-US", currency: options.currency || "USD" };
+  const valueOf = (name: string): string | undefined => {
+    const value = values[name];
+    return value === undefined || String(value).trim() === "" ? undefined : String(value).trim();
+  };
+
+  // a variable has the same type in every placeholder, even where it is not declared
+  const types = new Map(extractVariables(content).map((variable) => [variable.name, variable.type]));
+  const missing: string[] = [];
+
+  const render = (nodes: TemplateNode[]): string =>
+    nodes.map((node) => {
+      switch (node.kind) {
+        case "text":
+          return node.text;
+        case "section": {
+          const shown = (valueOf(node.name) !== undefined) !== node.negate;
+          return render(shown ? node.body : node.otherwise);
+        }
+        case "placeholder": {
+          const value = valueOf(node.name) ?? node.defaultValue;
+          if (value === undefined) {
+            if (!missing.includes(node.name)) {
+              missing.push(node.name);
+            }
+            return node.source;
+          }
+
+          let text = value;
+          switch (types.get(node.name)) {
+            case "date":
+              text = formatDate(node.name, value, node.filters.find((f) => f.name === "date")?.arg ?? "long", settings);
+              break;
+            case "money":
+              text = formatMoney(node.name, value, node.filters.find((f) => f.name === "currency")?.arg ?? settings.currency, settings.locale);
+              break;
+            case "url":
+              text = checkUrl(node.name, value);
+              break;
+          }
+          return node.filters.reduce(applyFilter, text);
+        }
+      }
+    }).join("");
+
+  return { content: render(parse(content)), missing };
+}
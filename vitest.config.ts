@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts"],
+    // every test file gets its own in-memory storage and never calls a real LLM
+    env: {
+      STORAGE_DRIVER: "memory",
+      LLM_PROVIDER: "mock",
+    },
+  },
+});